@@ -6,22 +6,16 @@ import Auth from './components/Auth';
 import AdminPanel from './components/AdminPanel';
 import UserHistory from './components/UserHistory';
 import UserSettings from './components/UserSettings';
+import AnalysisProgress from './components/AnalysisProgress';
 import { apiService } from './services/apiService';
-import { AnalysisState, LocationHints, User, SystemSettings } from './types';
-
-const LOADING_STAGES = [
-  "Initializing Computer Vision...",
-  "Extracting Optical Characters (OCR)...",
-  "Analyzing Architectural Patterns...",
-  "Fingerprinting Infrastructure...",
-  "Calculating Solar Azimuth...",
-  "Cross-referencing Satellite Imagery...",
-  "Verifying Biogeographic Markers...",
-  "Triangulating Coordinates..."
-];
+import { AnalysisState, AnalysisJobResult, AnalysisMode, AnalysisProgressEvent, LocationHints, RefinementThread, User, SystemSettings } from './types';
 
 type ViewState = 'home' | 'history' | 'admin';
 
+// Job id of the analysis in flight, so it can be resumed after a page reload
+const ACTIVE_JOB_KEY = 'geodetective_active_job';
+const JOB_POLL_INTERVAL_MS = 3000;
+
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [currentView, setCurrentView] = useState<ViewState>('home');
@@ -31,13 +25,21 @@ const App: React.FC = () => {
     country: '',
     city: ''
   });
-  const [loadingStageIndex, setLoadingStageIndex] = useState(0);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('single');
+  const [forceRefresh, setForceRefresh] = useState(false);
   const [settings, setSettings] = useState<SystemSettings>({ searchCost: 10 });
   const [isInitializing, setIsInitializing] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
 
   const imageDataRef = useRef<Array<{ base64: string, mimeType: string }>>([]);
 
+  // Base credits of the selected mode (premium services are charged on top)
+  const analysisCost = analysisMode === 'candidates'
+    ? settings.candidatesSearchCost ?? settings.searchCost
+    : analysisMode === 'thorough'
+      ? settings.thoroughSearchCost ?? settings.searchCost
+      : settings.searchCost;
+
   // Check for existing session on mount
   useEffect(() => {
     const initApp = async () => {
@@ -67,17 +69,6 @@ const App: React.FC = () => {
     }
   };
 
-  useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (state.status === 'analyzing') {
-      setLoadingStageIndex(0);
-      interval = setInterval(() => {
-        setLoadingStageIndex((prev) => (prev + 1) % LOADING_STAGES.length);
-      }, 2500);
-    }
-    return () => clearInterval(interval);
-  }, [state.status]);
-
   // Store uploaded images without auto-starting analysis
   const handleImagesSelected = (images: Array<{ base64: string, mimeType: string, previewUrl: string }>) => {
     if (!user) return;
@@ -89,71 +80,192 @@ const App: React.FC = () => {
     setState({ status: 'ready', imagePreviews: previews });
   };
 
+  const appendProgress = (event: AnalysisProgressEvent) =>
+    setState(prev => ({ ...prev, progress: [...(prev.progress || []), event] }));
+
+  // Poll a job until it finishes (used when the event stream drops)
+  const pollAnalysisJob = async (jobId: string): Promise<AnalysisJobResult> => {
+    while (true) {
+      const job = await apiService.getAnalysisJob(jobId);
+      setState(prev => ({ ...prev, progress: job.progress }));
+
+      if (job.status === 'completed' && job.result) return job.result;
+      if (job.status === 'failed' || job.status === 'cancelled') {
+        const error = new Error(job.error?.message || 'Analysis failed');
+        (error as any).code = job.error?.code;
+        throw error;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  };
+
+  // Follow a background job to completion: stream its progress, falling back to polling
+  const followAnalysisJob = async (jobId: string, previews: string[]) => {
+    try {
+      let outcome: AnalysisJobResult;
+      try {
+        // The stream replays progress from the start
+        setState(prev => ({ ...prev, progress: [] }));
+        outcome = await apiService.watchAnalysisJob(jobId, appendProgress);
+      } catch (error: any) {
+        if (error.code) throw error;  // the job itself failed
+        console.warn('Job event stream dropped, polling instead:', error);
+        outcome = await pollAnalysisJob(jobId);
+      }
+
+      localStorage.removeItem(ACTIVE_JOB_KEY);
+
+      // Update user credits (the server already saved the result to history)
+      setUser(prev => prev ? { ...prev, credits: outcome.creditsRemaining } : null);
+
+      setState({
+        status: 'complete',
+        result: outcome.result,
+        exifComparison: outcome.exifComparison || undefined,
+        metadataForensics: outcome.metadataForensics || undefined,
+        imagePreviews: previews,
+        jobId
+      });
+      loadRefinementThread(jobId);
+    } catch (error: any) {
+      console.error(error);
+      // Keep the job id when the server is unreachable so a reload can resume it
+      if (error.code) localStorage.removeItem(ACTIVE_JOB_KEY);
+      refreshUser();
+      // A cancelled analysis goes back to the image preview so it can be restarted
+      if (error.code === 'ANALYSIS_CANCELLED') {
+        setState({ status: previews.length > 0 ? 'ready' : 'idle', imagePreviews: previews, notice: error.message });
+        return;
+      }
+      setState({
+        status: 'error',
+        error: error.message || "We couldn't determine the location. The images might lack distinct features or the service is temporarily unavailable.",
+        imagePreviews: previews
+      });
+    }
+  };
+
+  // Resume an analysis that was still running when the page was reloaded
+  useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!user || !jobId) return;
+
+    const resumeJob = async () => {
+      setState({ status: 'analyzing', imagePreviews: [], progress: [], jobId });
+      setCurrentView('home');
+
+      let previews: string[] = [];
+      try {
+        const images = await apiService.getAnalysisJobImages(jobId);
+        imageDataRef.current = images;
+        previews = images.map(img => `data:${img.mimeType};base64,${img.base64}`);
+        setState(prev => ({ ...prev, imagePreviews: previews }));
+      } catch (err) {
+        console.warn('Could not restore job images:', err);
+      }
+
+      await followAnalysisJob(jobId, previews);
+    };
+    resumeJob();
+  }, [user?.id]);
+
   // Start analysis when user clicks the button
   const handleStartAnalysis = async () => {
     if (!user || imageDataRef.current.length === 0) return;
 
     // Check credits on client side first
-    if (user.credits < settings.searchCost) {
-      alert(`Insufficient credits. Required: ${settings.searchCost}, Available: ${user.credits}. Contact an administrator.`);
+    if (user.credits < analysisCost) {
+      alert(`Insufficient credits. Required: ${analysisCost}, Available: ${user.credits}. Contact an administrator.`);
       return;
     }
 
     const previews = state.imagePreviews || [];
-    setState({ status: 'analyzing', imagePreviews: previews });
+    setState({ status: 'analyzing', imagePreviews: previews, progress: [] });
 
+    let jobId: string;
     try {
-      // Call API for analysis (handles credits deduction on server)
-      const { result, creditsRemaining, cost } = await apiService.analyzeImages(
-        imageDataRef.current,
-        locationHints
-      );
-
-      // Save to history
-      await apiService.addHistory(result, cost);
-
-      // Update user credits
-      setUser(prev => prev ? { ...prev, credits: creditsRemaining } : null);
-
-      setState({ status: 'complete', result, imagePreviews: previews });
+      // Queue the analysis on the server (credits are deducted when it runs)
+      const job = await apiService.submitAnalysisJob(imageDataRef.current, locationHints, analysisMode, forceRefresh);
+      jobId = job.id;
+      localStorage.setItem(ACTIVE_JOB_KEY, jobId);
+      setState(prev => ({ ...prev, jobId }));
     } catch (error: any) {
       console.error(error);
       setState({
         status: 'error',
-        error: error.message || "We couldn't determine the location. The images might lack distinct features or the service is temporarily unavailable.",
+        error: error.message || 'Could not start the analysis. Please try again.',
         imagePreviews: previews
       });
+      return;
+    }
+
+    await followAnalysisJob(jobId, previews);
+  };
+
+  // Ask the server to stop the job; followAnalysisJob handles the outcome
+  const handleCancelAnalysis = async () => {
+    if (!state.jobId || state.isCancelling) return;
+    setState(prev => ({ ...prev, isCancelling: true }));
+
+    try {
+      await apiService.cancelAnalysisJob(state.jobId);
+    } catch (error: any) {
+      // The job may have finished in the meantime - its result still arrives
+      console.warn('Could not cancel analysis:', error);
+      setState(prev => ({ ...prev, isCancelling: false }));
+    }
+  };
+
+  // Show the thread's active version as the current result
+  const applyThread = (thread: RefinementThread) => {
+    const active = thread.versions.find(v => v.version === thread.activeVersion);
+    setState(prev => prev.jobId === thread.analysisId
+      ? { ...prev, thread, result: active?.result || prev.result }
+      : prev);
+  };
+
+  // Earlier refinements of a finished analysis (there are none for a new one)
+  const loadRefinementThread = async (jobId: string) => {
+    try {
+      applyThread(await apiService.getRefinementThread(jobId));
+    } catch (err) {
+      console.warn('Could not load refinement thread:', err);
     }
   };
 
   const handleRefine = async (feedback: string) => {
-    if (!state.result || imageDataRef.current.length === 0) return;
+    if (!state.result || !state.jobId) return;
 
-    const currentResult = state.result;
+    const jobId = state.jobId;
     setState(prev => ({ ...prev, isRefining: true }));
 
     try {
-      const refinedResult = await apiService.refineAnalysis(
-        imageDataRef.current,
-        currentResult,
-        feedback,
-        locationHints
-      );
-      setState(prev => ({
-        ...prev,
-        status: 'complete',
-        result: refinedResult,
-        isRefining: false
-      }));
-    } catch (error) {
+      const { thread, creditsRemaining } = await apiService.refineAnalysis(jobId, feedback, locationHints);
+      applyThread(thread);
+      setUser(prev => prev ? { ...prev, credits: creditsRemaining } : null);
+      setState(prev => ({ ...prev, status: 'complete', isRefining: false }));
+    } catch (error: any) {
       console.error("Refinement failed", error);
       setState(prev => ({ ...prev, isRefining: false }));
-      alert("Refinement failed. Please try again.");
+      alert(error.code === 'INSUFFICIENT_CREDITS' ? error.message : "Refinement failed. Please try again.");
+    }
+  };
+
+  const handleRevert = async (version: number) => {
+    if (!state.jobId || state.isRefining) return;
+
+    try {
+      applyThread(await apiService.revertRefinement(state.jobId, version));
+    } catch (error) {
+      console.error("Revert failed", error);
+      alert("Could not restore that version. Please try again.");
     }
   };
 
   const handleLogout = async () => {
     await apiService.logout();
+    localStorage.removeItem(ACTIVE_JOB_KEY);
     setUser(null);
     setState({ status: 'idle' });
     setCurrentView('home');
@@ -311,6 +423,12 @@ const App: React.FC = () => {
                         </div>
                     </div>
 
+                    {state.notice && (
+                    <div className="max-w-3xl mx-auto p-3 bg-amber-900/20 border border-amber-800/50 rounded-lg text-sm text-amber-300 text-center">
+                        {state.notice}
+                    </div>
+                    )}
+
                     {/* Hints Form */}
                     <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6">
                         <LocationInputs
@@ -319,6 +437,40 @@ const App: React.FC = () => {
                         />
                     </div>
 
+                    {/* Analysis Mode */}
+                    <div className="flex flex-col items-center gap-2">
+                        <div className="inline-flex bg-slate-900 border border-slate-800 rounded-xl p-1">
+                            {([
+                                { key: 'single', label: 'Best Match' },
+                                { key: 'candidates', label: 'Compare Candidates' },
+                                { key: 'thorough', label: 'Thorough' },
+                            ] as Array<{ key: AnalysisMode; label: string }>).map(({ key, label }) => (
+                                <button
+                                    key={key}
+                                    onClick={() => setAnalysisMode(key)}
+                                    className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${analysisMode === key ? 'bg-emerald-900/40 text-emerald-300' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-slate-500">
+                            {analysisMode === 'single'
+                                ? 'Commit to the single most likely location.'
+                                : analysisMode === 'candidates'
+                                    ? 'Verify the top competing regions separately and rank them when the evidence is ambiguous.'
+                                    : 'Repeat the search several times and keep the location most runs agree on. Slower.'}
+                        </p>
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={forceRefresh}
+                                onChange={(e) => setForceRefresh(e.target.checked)}
+                            />
+                            Run a fresh analysis even if these images were analyzed before
+                        </label>
+                    </div>
+
                     {/* Action Buttons */}
                     <div className="flex items-center justify-center gap-4">
                         <button
@@ -329,14 +481,14 @@ const App: React.FC = () => {
                         </button>
                         <button
                             onClick={handleStartAnalysis}
-                            disabled={user && user.credits < settings.searchCost}
+                            disabled={user && user.credits < analysisCost}
                             className="px-8 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-400 hover:to-cyan-400 text-white font-bold text-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-lg shadow-emerald-500/20"
                         >
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                             </svg>
                             Start Analysis
-                            <span className="text-xs font-mono opacity-80">(-{settings.searchCost})</span>
+                            <span className="text-xs font-mono opacity-80">(-{analysisCost})</span>
                         </button>
                     </div>
                 </div>
@@ -364,19 +516,30 @@ const App: React.FC = () => {
                             </p>
                         </div>
                     </div>
-                    <p className="text-slate-300 font-mono text-center max-w-md animate-pulse">
-                        &gt; {LOADING_STAGES[loadingStageIndex]}
-                    </p>
+                    <AnalysisProgress events={state.progress || []} />
+                    {state.jobId && (
+                    <button
+                        onClick={handleCancelAnalysis}
+                        disabled={state.isCancelling}
+                        className="mt-6 px-6 py-2 rounded-full border border-slate-700 text-sm text-slate-300 hover:border-red-700 hover:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {state.isCancelling ? 'Cancelling...' : 'Cancel Analysis'}
+                    </button>
+                    )}
                 </div>
                 )}
 
                 {state.status === 'complete' && state.result && (
                 <AnalysisResult
                     result={state.result}
+                    exifComparison={state.exifComparison}
+                    metadataForensics={state.metadataForensics}
                     imagePreviews={state.imagePreviews}
                     onReset={() => setState({ status: 'idle' })}
                     onRefine={handleRefine}
                     isRefining={!!state.isRefining}
+                    thread={state.thread}
+                    onRevert={handleRevert}
                 />
                 )}
 
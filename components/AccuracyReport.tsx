@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  ComposedChart,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import { apiService } from '../services/apiService';
+import { AccuracyReport as AccuracyReportData, AccuracyReportGroup } from '../types';
+
+const PERIODS = [30, 90, 365];
+
+const AXIS = { stroke: '#64748b', fontSize: 11 };
+const GRID = '#1e293b';
+const TOOLTIP_STYLE = { backgroundColor: '#020617', border: '1px solid #334155', borderRadius: 8, fontSize: 12 };
+
+const formatKm = (km: number | null) => (km === null ? '—' : km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km).toLocaleString()} km`);
+const formatPercent = (value: number | null | undefined) => (value === null || value === undefined ? '—' : `${value}%`);
+
+const ChartCard: React.FC<{ title: string; description: string; children: React.ReactElement }> = ({ title, description, children }) => (
+  <div className="bg-slate-950 border border-slate-800 rounded-xl p-4">
+    <h4 className="text-sm font-semibold text-slate-200">{title}</h4>
+    <p className="text-xs text-slate-500 mb-3">{description}</p>
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        {children}
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+const GroupTable: React.FC<{ title: string; groups: AccuracyReportGroup[] }> = ({ title, groups }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-left text-sm text-slate-400">
+      <thead className="bg-slate-950 text-xs uppercase font-medium text-slate-500">
+        <tr>
+          <th className="px-4 py-3">{title}</th>
+          <th className="px-4 py-3 text-right">Analyses</th>
+          <th className="px-4 py-3 text-right">Median error</th>
+          <th className="px-4 py-3 text-right">Within 25 km</th>
+          <th className="px-4 py-3 text-right">Within 750 km</th>
+          <th className="px-4 py-3 text-right">Country</th>
+          <th className="px-4 py-3 text-right">Calibration error</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-800">
+        {groups.map(group => (
+          <tr key={group.key} className="hover:bg-slate-800/50 transition-colors">
+            <td className="px-4 py-3 text-slate-200">{group.label}</td>
+            <td className="px-4 py-3 text-right">{group.summary.count}</td>
+            <td className="px-4 py-3 text-right font-mono">{formatKm(group.summary.medianErrorKm)}</td>
+            <td className="px-4 py-3 text-right">{formatPercent(group.summary.accuracyAtKm['25'])}</td>
+            <td className="px-4 py-3 text-right">{formatPercent(group.summary.accuracyAtKm['750'])}</td>
+            <td className="px-4 py-3 text-right">{formatPercent(group.summary.countryAccuracy)}</td>
+            <td className="px-4 py-3 text-right">{group.summary.calibrationError === null ? '—' : `${group.summary.calibrationError} pts`}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const AccuracyReport: React.FC = () => {
+  const [days, setDays] = useState(90);
+  const [report, setReport] = useState<AccuracyReportData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    apiService.getAccuracyReport(days)
+      .then(setReport)
+      .catch((err: any) => setError(err.message));
+  }, [days]);
+
+  const overall = report?.overall;
+  const overTime = (report?.byWeek || []).map(week => ({
+    week: week.key,
+    'Within 25 km': week.summary.accuracyAtKm['25'],
+    'Within 750 km': week.summary.accuracyAtKm['750'],
+    'Country': week.summary.countryAccuracy,
+  }));
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 shadow-xl p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-white">Accuracy &amp; Calibration</h3>
+          <p className="text-sm text-slate-400">
+            Predictions compared with the true locations users confirmed in their history.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {PERIODS.map(period => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={`text-xs font-medium px-3 py-1.5 rounded-lg border transition-colors ${days === period ? 'bg-emerald-900/20 border-emerald-700 text-emerald-300' : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600'}`}
+            >
+              {period}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/30 border border-red-800 rounded-lg text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {report && overall && overall.count === 0 && (
+        <p className="p-6 text-center text-sm text-slate-500 bg-slate-950 border border-slate-800 rounded-lg">
+          No analyses from the last {report.days} days have a confirmed true location yet.
+        </p>
+      )}
+
+      {report && overall && overall.count > 0 && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'Confirmed analyses', value: String(overall.count) },
+              { label: 'Median error', value: formatKm(overall.medianErrorKm) },
+              { label: 'Within 25 km', value: formatPercent(overall.accuracyAtKm['25']) },
+              { label: 'Country correct', value: formatPercent(overall.countryAccuracy) },
+              { label: 'Calibration error', value: overall.calibrationError === null ? '—' : `${overall.calibrationError} pts` },
+            ].map(stat => (
+              <div key={stat.label} className="bg-slate-950 border border-slate-800 rounded-lg p-3">
+                <p className="text-xs text-slate-500 uppercase tracking-wider">{stat.label}</p>
+                <p className="text-sm font-mono text-slate-200 mt-1">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartCard title="Accuracy over time" description="Share of each week's analyses within 25 km, within 750 km, and in the right country">
+              <LineChart data={overTime}>
+                <CartesianGrid stroke={GRID} strokeDasharray="3 3" />
+                <XAxis dataKey="week" {...AXIS} />
+                <YAxis domain={[0, 100]} unit="%" {...AXIS} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line type="monotone" dataKey="Within 25 km" stroke="#10b981" strokeWidth={2} dot={{ r: 3 }} />
+                <Line type="monotone" dataKey="Within 750 km" stroke="#3b82f6" strokeWidth={2} dot={{ r: 3 }} />
+                <Line type="monotone" dataKey="Country" stroke="#f59e0b" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+              </LineChart>
+            </ChartCard>
+
+            <ChartCard title="Error distance" description="How far predictions landed from the true location">
+              <BarChart data={report.errorDistribution}>
+                <CartesianGrid stroke={GRID} strokeDasharray="3 3" />
+                <XAxis dataKey="range" {...AXIS} />
+                <YAxis allowDecimals={false} {...AXIS} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: '#1e293b' }} />
+                <Bar dataKey="count" name="Analyses" fill="#10b981" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartCard>
+
+            <ChartCard
+              title="Reliability diagram"
+              description="Observed accuracy (within 25 km) against the stated confidence; bars below the line mean overconfidence"
+            >
+              <ComposedChart data={overall.calibration}>
+                <CartesianGrid stroke={GRID} strokeDasharray="3 3" />
+                <XAxis dataKey="range" unit="%" {...AXIS} />
+                <YAxis domain={[0, 100]} unit="%" {...AXIS} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: '#1e293b' }} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Bar dataKey="hitRate" name="Observed accuracy" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                <Line type="monotone" dataKey="meanConfidence" name="Stated confidence" stroke="#f59e0b" strokeWidth={2} strokeDasharray="5 5" />
+              </ComposedChart>
+            </ChartCard>
+
+            <ChartCard title="Accuracy by analysis mode" description="Share within 25 km and with the right country">
+              <BarChart data={report.byMode.map(group => ({
+                label: group.label,
+                'Within 25 km': group.summary.accuracyAtKm['25'],
+                'Country': group.summary.countryAccuracy,
+              }))}>
+                <CartesianGrid stroke={GRID} strokeDasharray="3 3" />
+                <XAxis dataKey="label" {...AXIS} />
+                <YAxis domain={[0, 100]} unit="%" {...AXIS} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: '#1e293b' }} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Bar dataKey="Within 25 km" fill="#10b981" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="Country" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartCard>
+          </div>
+
+          <GroupTable title="Analysis mode" groups={report.byMode} />
+          <GroupTable title="Premium services" groups={report.byPremium} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AccuracyReport;
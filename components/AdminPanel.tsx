@@ -1,6 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { apiService } from '../services/apiService';
-import { User, SystemSettings } from '../types';
+import { User, SystemSettings, AnalysisTimeouts } from '../types';
+import PromptManager from './PromptManager';
+import UsageReport from './UsageReport';
+import AccuracyReport from './AccuracyReport';
+
+const TIMEOUT_FIELDS: { key: keyof AnalysisTimeouts; label: string; title: string }[] = [
+  { key: 'cloudVision', label: 'Vision', title: 'Seconds before a Cloud Vision call is abandoned' },
+  { key: 'serpApi', label: 'Lens', title: 'Seconds before a Google Lens (SerpAPI) call is abandoned' },
+  { key: 'clueExpert', label: 'Experts', title: 'Seconds before a clue expert model call is abandoned' },
+  { key: 'finalSearch', label: 'Search', title: 'Seconds before a final search model call is abandoned' },
+  { key: 'analysis', label: 'Total', title: 'Seconds before the whole analysis fails and is refunded' },
+];
 
 interface PremiumServiceAdmin {
   key: string;
@@ -71,6 +82,29 @@ const AdminPanel: React.FC = () => {
     }
   };
 
+  const handleUpdateNumericSetting = async (
+    key: 'candidatesSearchCost' | 'thoroughSearchCost' | 'cacheTtlHours' | 'cacheHitCost' | 'refineFreePerAnalysis' | 'refineCost',
+    value: number
+  ) => {
+    try {
+      await apiService.updateSystemSettings({ [key]: value });
+      setSettings(prev => ({ ...prev, [key]: value }));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleUpdateTimeout = async (key: keyof AnalysisTimeouts, value: number) => {
+    if (!settings.timeouts) return;
+    const timeouts = { ...settings.timeouts, [key]: value };
+    try {
+      await apiService.updateSystemSettings({ timeouts });
+      setSettings(prev => ({ ...prev, timeouts }));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   const handleUpdatePremiumCost = async (serviceKey: string, cost: number) => {
     try {
       // Map service key to the appropriate setting
@@ -128,6 +162,81 @@ const AdminPanel: React.FC = () => {
               <span className="text-xs text-amber-500 font-bold">CR</span>
             </div>
           ))}
+          <div className="flex items-center gap-3 bg-slate-900 p-3 rounded-xl border border-slate-800">
+              <span className="text-xs text-slate-400">Modes:</span>
+              <input
+                  type="number"
+                  value={settings.candidatesSearchCost ?? 20}
+                  onChange={(e) => handleUpdateNumericSetting('candidatesSearchCost', parseInt(e.target.value) || 0)}
+                  title="Credits per Compare Candidates analysis (up to 3 final searches)"
+                  className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-center text-sm"
+              />
+              <span className="text-xs text-slate-500">candidates</span>
+              <input
+                  type="number"
+                  value={settings.thoroughSearchCost ?? 30}
+                  onChange={(e) => handleUpdateNumericSetting('thoroughSearchCost', parseInt(e.target.value) || 0)}
+                  title="Credits per Thorough analysis (5 final searches)"
+                  className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-center text-sm"
+              />
+              <span className="text-xs text-slate-500">thorough</span>
+              <span className="text-xs text-emerald-500 font-bold">CR</span>
+          </div>
+          <div className="flex items-center gap-3 bg-slate-900 p-3 rounded-xl border border-slate-800">
+              <span className="text-xs text-slate-400">Cache:</span>
+              <input
+                  type="number"
+                  value={settings.cacheTtlHours ?? 168}
+                  onChange={(e) => handleUpdateNumericSetting('cacheTtlHours', parseInt(e.target.value) || 0)}
+                  title="Hours a result is reused for duplicate images (0 disables the cache)"
+                  className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-center text-sm"
+              />
+              <span className="text-xs text-slate-500">h</span>
+              <input
+                  type="number"
+                  value={settings.cacheHitCost ?? 1}
+                  onChange={(e) => handleUpdateNumericSetting('cacheHitCost', parseInt(e.target.value) || 0)}
+                  title="Credits charged when a cached result is reused"
+                  className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-center text-sm"
+              />
+              <span className="text-xs text-emerald-500 font-bold">CR</span>
+          </div>
+          <div className="flex items-center gap-3 bg-slate-900 p-3 rounded-xl border border-slate-800">
+              <span className="text-xs text-slate-400">Refine:</span>
+              <input
+                  type="number"
+                  value={settings.refineFreePerAnalysis ?? 3}
+                  onChange={(e) => handleUpdateNumericSetting('refineFreePerAnalysis', parseInt(e.target.value) || 0)}
+                  title="Free refinements per analysis"
+                  className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-center text-sm"
+              />
+              <span className="text-xs text-slate-500">free</span>
+              <input
+                  type="number"
+                  value={settings.refineCost ?? 2}
+                  onChange={(e) => handleUpdateNumericSetting('refineCost', parseInt(e.target.value) || 0)}
+                  title="Credits charged per refinement once the free ones are used"
+                  className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-center text-sm"
+              />
+              <span className="text-xs text-emerald-500 font-bold">CR</span>
+          </div>
+          {settings.timeouts && (
+          <div className="flex items-center gap-3 bg-slate-900 p-3 rounded-xl border border-slate-800">
+              <span className="text-xs text-slate-400">Timeouts:</span>
+              {TIMEOUT_FIELDS.map(field => (
+                <label key={field.key} className="flex items-center gap-1 text-xs text-slate-500" title={field.title}>
+                  {field.label}
+                  <input
+                      type="number"
+                      value={settings.timeouts![field.key]}
+                      onChange={(e) => handleUpdateTimeout(field.key, parseInt(e.target.value) || 0)}
+                      className="w-14 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-center text-sm"
+                  />
+                </label>
+              ))}
+              <span className="text-xs text-slate-500">s</span>
+          </div>
+          )}
         </div>
       </div>
 
@@ -208,6 +317,12 @@ const AdminPanel: React.FC = () => {
           </tbody>
         </table>
       </div>
+
+      <UsageReport />
+
+      <AccuracyReport />
+
+      <PromptManager />
     </div>
   );
 };
@@ -0,0 +1,100 @@
+import React from 'react';
+import { AnalysisPhase, AnalysisProgressEvent } from '../types';
+
+interface AnalysisProgressProps {
+  events: AnalysisProgressEvent[];
+}
+
+type PhaseStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+const PHASES: Array<{ key: AnalysisPhase; label: string }> = [
+  { key: 'exif', label: 'Image Metadata (EXIF)' },
+  { key: 'cache', label: 'Previous Analyses' },
+  { key: 'cloud_vision', label: 'Cloud Vision Web Detection' },
+  { key: 'serp_api', label: 'Google Lens Reverse Search' },
+  { key: 'clue_experts', label: 'Clue Experts' },
+  { key: 'aggregate', label: 'Clue Aggregation' },
+  { key: 'final_search', label: 'Grounded Location Search' },
+];
+
+const STATUS_BY_TYPE: Partial<Record<AnalysisProgressEvent['type'], PhaseStatus>> = {
+  phase_started: 'running',
+  phase_finished: 'done',
+  phase_skipped: 'skipped',
+  phase_failed: 'failed',
+};
+
+const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ events }) => {
+  const phaseStatus = (phase: AnalysisPhase): PhaseStatus => {
+    let status: PhaseStatus = 'pending';
+    for (const event of events) {
+      if (event.phase === phase && STATUS_BY_TYPE[event.type]) {
+        status = STATUS_BY_TYPE[event.type]!;
+      }
+    }
+    return status;
+  };
+
+  // Sub-events (expert results, retries, fallbacks) and the phase summary line
+  const phaseDetails = (phase: AnalysisPhase) =>
+    events.filter(e => e.phase === phase && e.type !== 'phase_started');
+
+  return (
+    <div className="w-full max-w-md bg-slate-900/60 border border-slate-800 rounded-2xl p-5">
+      <ol className="space-y-4">
+        {PHASES.map(({ key, label }) => {
+          const status = phaseStatus(key);
+          const details = phaseDetails(key);
+          return (
+            <li key={key} className="flex items-start gap-3">
+              <span className="flex-shrink-0 mt-0.5 w-5 h-5 flex items-center justify-center">
+                {status === 'running' ? (
+                  <span className="w-4 h-4 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></span>
+                ) : status === 'done' ? (
+                  <svg className="w-5 h-5 text-emerald-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                ) : status === 'failed' ? (
+                  <svg className="w-5 h-5 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                ) : (
+                  <span className={`w-2 h-2 rounded-full ${status === 'skipped' ? 'bg-slate-700' : 'bg-slate-500'}`}></span>
+                )}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-mono ${
+                  status === 'running' ? 'text-emerald-300' :
+                  status === 'done' ? 'text-slate-200' :
+                  status === 'failed' ? 'text-red-300' :
+                  'text-slate-500'
+                }`}>
+                  {label}
+                  {status === 'skipped' && <span className="ml-2 text-xs text-slate-600">(skipped)</span>}
+                </p>
+                {status !== 'skipped' && details.length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {details.map((event, idx) => (
+                      <li
+                        key={idx}
+                        className={`text-xs truncate ${
+                          event.type === 'retry' || event.type === 'fallback' ? 'text-amber-400' :
+                          event.data?.failed || event.type === 'phase_failed' ? 'text-red-400' :
+                          'text-slate-400'
+                        }`}
+                      >
+                        &gt; {event.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default AnalysisProgress;
@@ -1,19 +1,32 @@
 import React, { useState } from 'react';
-import { GeoAnalysisResult } from '../types';
+import { ExifComparison, GeoAnalysisResult, MetadataForensicsReport, RefinementThread } from '../types';
 import ConfidenceChart from './ConfidenceChart';
+import MetadataForensics from './MetadataForensics';
+import ImageMetadataComparison from './ImageMetadataComparison';
+import ResultMap from './ResultMap';
 
 interface AnalysisResultProps {
   result: GeoAnalysisResult;
+  exifComparison?: ExifComparison;
+  metadataForensics?: MetadataForensicsReport[];
   imagePreviews?: string[];
   onReset: () => void;
   onRefine: (feedback: string) => void;
   isRefining: boolean;
+  thread?: RefinementThread;
+  onRevert?: (version: number) => void;
 }
 
-const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, imagePreviews, onReset, onRefine, isRefining }) => {
+const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, exifComparison, metadataForensics, imagePreviews, onReset, onRefine, isRefining, thread, onRevert }) => {
   const [refinementInput, setRefinementInput] = useState('');
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
 
+  // The image whose heading (or GPS accuracy) is drawn on the map - preferably one with GPS
+  const headedImages = exifComparison?.images.filter(image => image.view?.heading != null) || [];
+  const cameraImage = headedImages.find(image => image.gps) || headedImages[0] ||
+    exifComparison?.images.find(image => image.gps?.horizontalAccuracy);
+  const showCameraMap = !!cameraImage && !!(result.coordinates || cameraImage.gps);
+
   const fallbackMapLink = result.coordinates 
       ? `https://www.google.com/maps/search/?api=1&query=${result.coordinates.lat},${result.coordinates.lng}`
       : `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(result.locationName)}`;
@@ -114,6 +127,11 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, imagePreviews,
                 </span>
               </div>
             )}
+            {result.cachedAt && (
+              <p className="text-xs text-cyan-400 mb-2">
+                Reused from a previous analysis of these images ({new Date(result.cachedAt).toLocaleString()})
+              </p>
+            )}
             <h2 className="text-3xl font-bold text-emerald-400 mb-2">{result.locationName}</h2>
             <div className="flex items-center space-x-2 text-slate-400">
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -121,7 +139,33 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, imagePreviews,
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
                 </svg>
                 <span>{result.coordinates ? `${result.coordinates.lat.toFixed(5)}, ${result.coordinates.lng.toFixed(5)}` : 'Approximate Region'}</span>
+                {result.ensemble?.uncertaintyRadiusKm != null && (
+                  <span className="text-xs text-slate-500">± {result.ensemble.uncertaintyRadiusKm} km</span>
+                )}
             </div>
+            {result.ensemble && (
+              <p className={`text-xs mt-1 ${result.ensemble.agreement >= 60 ? 'text-emerald-500' : 'text-yellow-500'}`}>
+                {result.ensemble.clusters.length > 0
+                  ? `${result.ensemble.clusters[0].runs} of ${result.ensemble.withCoordinates} independent searches agree (${result.ensemble.agreement}%)`
+                  : `None of ${result.ensemble.succeeded} independent searches returned coordinates`}
+                {result.ensemble.clusters.length > 1 &&
+                  ` - others: ${result.ensemble.clusters.slice(1).map(c => `${c.locationNames[0]} (${c.runs})`).join(', ')}`}
+              </p>
+            )}
+            {result.reverseGeocode && (
+              <p className="text-xs text-slate-500 mt-1">
+                Coordinates resolve to{' '}
+                {result.reverseGeocode.countryName
+                  ? [
+                      result.reverseGeocode.city && result.reverseGeocode.cityDistanceKm !== null
+                        ? `${result.reverseGeocode.city} (${result.reverseGeocode.cityDistanceKm} km)`
+                        : null,
+                      result.reverseGeocode.territory,
+                      result.reverseGeocode.countryName
+                    ].filter(Boolean).join(', ')
+                  : 'open water'}
+              </p>
+            )}
         </div>
         <button
           onClick={onReset}
@@ -216,6 +260,35 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, imagePreviews,
                         <span className="text-xs text-emerald-500 font-mono block mb-1">SIGNS & TEXT</span>
                         <p className="text-sm text-slate-300">{result.visualCues.signs || "No distinct text detected."}</p>
                     </div>
+                    {result.languageIdentification && (
+                        <div className="p-3 bg-slate-950 rounded-lg border border-slate-800">
+                            <span className="text-xs text-emerald-500 font-mono block mb-1">LANGUAGES</span>
+                            {result.languageIdentification.languages.length > 0 ? (
+                                <div className="flex flex-wrap gap-1 mb-2">
+                                    {result.languageIdentification.languages.map(lang => (
+                                        <span key={lang.language} className="px-2 py-0.5 text-xs rounded bg-emerald-900/30 text-emerald-400 border border-emerald-900">
+                                            {lang.languageName} {lang.share}%
+                                        </span>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-sm text-slate-500 mb-2">Too little text to identify the language.</p>
+                            )}
+                            <ul className="space-y-1">
+                                {result.languageIdentification.strings.filter(s => s.language).map((s, idx) => (
+                                    <li key={idx} className="text-xs text-slate-400 flex justify-between gap-2">
+                                        <span className="truncate">{s.combined ? 'All text together' : `"${s.text}"`}</span>
+                                        <span className="flex-shrink-0 text-slate-500">{s.languageName} · {s.script} · {s.confidence}%</span>
+                                    </li>
+                                ))}
+                            </ul>
+                            {result.languageIdentification.countries.length > 0 && (
+                                <p className="text-xs text-slate-500 mt-2">
+                                    Used in: {result.languageIdentification.countries.slice(0, 3).map(c => `${c.countryName} (${c.probability}%)`).join(', ')}
+                                </p>
+                            )}
+                        </div>
+                    )}
                     <div className="p-3 bg-slate-950 rounded-lg border border-slate-800">
                         <span className="text-xs text-emerald-500 font-mono block mb-1">ARCHITECTURE</span>
                         <p className="text-sm text-slate-300">{result.visualCues.architecture || "No distinctive architecture."}</p>
@@ -275,6 +348,87 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, imagePreviews,
               </div>
             )}
 
+            {/* Meta-Clue Rules */}
+            {result.metaClueRanking && (
+              <div className="bg-slate-900 rounded-2xl p-6 border border-slate-800 shadow-xl">
+                <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Meta-Clue Rules</h3>
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {result.metaClueRanking.observations.map((obs, idx) => (
+                    <span key={idx} className="px-2 py-0.5 text-xs rounded bg-slate-800 text-slate-300 border border-slate-700">
+                      {obs.label}
+                    </span>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  {result.metaClueRanking.countries.slice(0, 5).map(country => (
+                    <div key={country.countryCode}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-slate-300">{country.countryName}</span>
+                        <span className="font-mono text-emerald-400">{country.probability}%</span>
+                      </div>
+                      <div className="w-full bg-slate-800 rounded-full h-1.5">
+                        <div className="bg-emerald-500 h-1.5 rounded-full" style={{ width: `${country.probability}%` }}></div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Solar Consistency */}
+            {result.solarCheck && (
+              <div className="bg-slate-900 rounded-2xl p-6 border border-slate-800 shadow-xl">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Solar Consistency</h3>
+                  <span className={`px-2 py-0.5 text-xs font-mono rounded border ${
+                    result.solarCheck.status === 'pass'
+                      ? 'bg-emerald-900/50 text-emerald-400 border-emerald-800'
+                      : 'bg-red-900/50 text-red-400 border-red-800'
+                  }`}>
+                    {result.solarCheck.status.toUpperCase()}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-3">
+                  <div className="p-3 bg-slate-950 rounded-lg border border-slate-800">
+                    <span className="text-xs text-emerald-500 font-mono block mb-1">SUN</span>
+                    <p className="text-sm text-slate-300">
+                      {result.solarCheck.sun.elevation}° elevation, {result.solarCheck.sun.azimuth}° azimuth
+                    </p>
+                  </div>
+                  <div className="p-3 bg-slate-950 rounded-lg border border-slate-800">
+                    <span className="text-xs text-emerald-500 font-mono block mb-1">CAPTURED</span>
+                    <p className="text-sm text-slate-300">
+                      {new Date(result.solarCheck.captureTime).toUTCString()}
+                      {result.solarCheck.timeSource === 'local' && ' (time zone assumed)'}
+                    </p>
+                  </div>
+                  {result.solarCheck.latitudeBand && (
+                    <div className="p-3 bg-slate-950 rounded-lg border border-slate-800">
+                      <span className="text-xs text-emerald-500 font-mono block mb-1">SHADOWS FIT LATITUDES</span>
+                      <p className="text-sm text-slate-300">
+                        {result.solarCheck.latitudeBand.south}° to {result.solarCheck.latitudeBand.north}°
+                      </p>
+                    </div>
+                  )}
+                </div>
+                <ul className="space-y-1">
+                  {result.solarCheck.details.map((detail, idx) => (
+                    <li key={idx} className="text-xs text-slate-500">{detail}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Per-image EXIF */}
+            {exifComparison && exifComparison.images.some(image => image.gps || image.captureTime || image.camera) && (
+              <ImageMetadataComparison comparison={exifComparison} imagePreviews={imagePreviews} />
+            )}
+
+            {/* Metadata Forensics */}
+            {metadataForensics && metadataForensics.length > 0 && (
+              <MetadataForensics reports={metadataForensics} />
+            )}
+
             {/* Alternative Locations & Uncertainties */}
             {((result.alternativeLocations && result.alternativeLocations.length > 0) ||
               (result.uncertainties && result.uncertainties.length > 0)) && (
@@ -306,29 +460,59 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, imagePreviews,
               </div>
             )}
 
-            <div className="bg-slate-900 rounded-2xl p-1 border border-slate-800 shadow-xl overflow-hidden h-96 relative group">
-                 <div className="absolute inset-0 flex items-center justify-center bg-slate-900/50 z-10 opacity-0 group-hover:opacity-100 transition-opacity">
-                     <a href={fallbackMapLink} target="_blank" rel="noopener noreferrer" className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-3 rounded-lg font-bold shadow-lg transition-transform transform hover:scale-105">
-                         Open in Google Maps
-                     </a>
-                 </div>
-                 {result.coordinates ? (
-                    <iframe
-                        width="100%"
-                        height="100%"
-                        style={{ border: 0, filter: 'grayscale(30%) invert(90%) hue-rotate(180deg) contrast(1.2)' }}
-                        loading="lazy"
-                        allowFullScreen
-                        referrerPolicy="no-referrer-when-downgrade"
-                        src={`https://www.google.com/maps?q=${result.coordinates.lat},${result.coordinates.lng}&z=14&output=embed`}
-                    ></iframe>
-                 ) : (
-                    <div className="w-full h-full flex items-center justify-center bg-slate-950 text-slate-600">
-                        <p>Coordinates not precise enough for embedded map preview.</p>
-                    </div>
-                 )}
-            </div>
+            {showCameraMap && cameraImage ? (
+              <div className="bg-slate-900 rounded-2xl p-1 border border-slate-800 shadow-xl overflow-hidden">
+                <div className="h-96 rounded-xl overflow-hidden">
+                  <ResultMap coordinates={result.coordinates} camera={cameraImage} />
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-xs text-slate-500">
+                  <div className="flex flex-wrap gap-3">
+                    <span className="inline-flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-500 inline-block" /> result</span>
+                    {cameraImage.gps && (
+                      <span className="inline-flex items-center gap-1">
+                        <span className="w-2 h-2 rounded-full bg-blue-500 inline-block" /> camera (EXIF)
+                        {cameraImage.gps.horizontalAccuracy ? ` ±${Math.round(cameraImage.gps.horizontalAccuracy)} m` : ''}
+                      </span>
+                    )}
+                    {cameraImage.view?.heading != null && (
+                      <span className="inline-flex items-center gap-1">
+                        <span className="w-2 h-2 bg-amber-500 inline-block" />
+                        facing {Math.round(cameraImage.view.heading)}°{cameraImage.view.headingRef === 'magnetic' ? ' (magnetic)' : ''}
+                        {cameraImage.view.fieldOfView ? `, ${Math.round(cameraImage.view.fieldOfView)}° view` : ''}
+                      </span>
+                    )}
+                  </div>
+                  <a href={fallbackMapLink} target="_blank" rel="noopener noreferrer" className="text-emerald-400 hover:text-emerald-300">
+                    Open in Google Maps
+                  </a>
+                </div>
+              </div>
+            ) : (
+              <div className="bg-slate-900 rounded-2xl p-1 border border-slate-800 shadow-xl overflow-hidden h-96 relative group">
+                   <div className="absolute inset-0 flex items-center justify-center bg-slate-900/50 z-10 opacity-0 group-hover:opacity-100 transition-opacity">
+                       <a href={fallbackMapLink} target="_blank" rel="noopener noreferrer" className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-3 rounded-lg font-bold shadow-lg transition-transform transform hover:scale-105">
+                           Open in Google Maps
+                       </a>
+                   </div>
+                   {result.coordinates ? (
+                      <iframe
+                          width="100%"
+                          height="100%"
+                          style={{ border: 0, filter: 'grayscale(30%) invert(90%) hue-rotate(180deg) contrast(1.2)' }}
+                          loading="lazy"
+                          allowFullScreen
+                          referrerPolicy="no-referrer-when-downgrade"
+                          src={`https://www.google.com/maps?q=${result.coordinates.lat},${result.coordinates.lng}&z=14&output=embed`}
+                      ></iframe>
+                   ) : (
+                      <div className="w-full h-full flex items-center justify-center bg-slate-950 text-slate-600">
+                          <p>Coordinates not precise enough for embedded map preview.</p>
+                      </div>
+                   )}
+              </div>
             
+            )}
+
             {result.sources.length > 0 && (
                 <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-800">
                     <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Grounding Sources</h3>
@@ -361,6 +545,62 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, imagePreviews,
                     Not satisfied with the result? Provide additional clues or ask the AI to double-check specific features.
                 </p>
 
+                {thread && (
+                    <p className="text-xs mb-4">
+                        {thread.freeRefinesRemaining > 0 ? (
+                            <span className="text-emerald-400">
+                                {thread.freeRefinesRemaining} free refinement{thread.freeRefinesRemaining === 1 ? '' : 's'} left for this analysis
+                            </span>
+                        ) : (
+                            <span className="text-amber-400">
+                                Free refinements used - each refinement costs {thread.refineCost} credits
+                            </span>
+                        )}
+                    </p>
+                )}
+
+                {/* Refinement thread - every version, revertable */}
+                {thread && thread.versions.length > 1 && (
+                    <div className="mb-4 space-y-2 max-h-80 overflow-y-auto pr-1">
+                        {thread.versions.map(version => {
+                            const isActive = version.version === thread.activeVersion;
+                            return (
+                                <div
+                                    key={version.version}
+                                    className={`rounded-lg border px-4 py-3 ${isActive ? 'border-emerald-700 bg-emerald-900/20' : 'border-slate-800 bg-slate-950'}`}
+                                >
+                                    <div className="flex items-center justify-between gap-3">
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <span className={`text-[10px] font-mono px-1.5 py-0.5 rounded ${isActive ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-400'}`}>
+                                                v{version.version}
+                                            </span>
+                                            {version.basedOnVersion !== null && version.basedOnVersion !== version.version - 1 && (
+                                                <span className="text-[10px] text-slate-500">from v{version.basedOnVersion}</span>
+                                            )}
+                                            <span className="text-sm text-white truncate">{version.result.locationName}</span>
+                                            <span className="text-xs text-slate-500 flex-shrink-0">{version.result.confidenceScore}%</span>
+                                        </div>
+                                        {isActive ? (
+                                            <span className="text-xs text-emerald-400 flex-shrink-0">Current</span>
+                                        ) : onRevert && (
+                                            <button
+                                                onClick={() => onRevert(version.version)}
+                                                disabled={isRefining}
+                                                className="text-xs text-slate-400 hover:text-emerald-400 disabled:opacity-50 flex-shrink-0 transition-colors"
+                                            >
+                                                Revert
+                                            </button>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-slate-400 mt-1">
+                                        {version.feedback ? <>You: <span className="text-slate-300">{version.feedback}</span></> : 'Initial analysis'}
+                                    </p>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
                 <div className="flex flex-col sm:flex-row gap-3">
                     <input 
                         type="text" 
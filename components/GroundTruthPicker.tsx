@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { apiService } from '../services/apiService';
+import { GroundTruth, GroundTruthSource, SearchHistory } from '../types';
+
+const SOURCE_OPTIONS: Array<{ value: GroundTruthSource; label: string }> = [
+  { value: 'own_photo', label: 'I took this photo' },
+  { value: 'street_view', label: 'Matched in Street View' },
+  { value: 'photo_metadata', label: 'Original photo metadata' },
+  { value: 'other', label: 'Other' },
+];
+
+const dotIcon = (color: string) => L.divIcon({
+  className: 'custom-marker',
+  html: `
+    <div style="
+      width: 20px;
+      height: 20px;
+      background: ${color};
+      border: 3px solid white;
+      border-radius: 50%;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.4);
+    "></div>
+  `,
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+});
+
+const PREDICTED_ICON = dotIcon('#10b981');
+const TRUTH_ICON = dotIcon('#3b82f6');
+
+// Drop (or move) the pin wherever the map is clicked
+const PinDropper: React.FC<{ onDrop: (point: { lat: number; lng: number }) => void }> = ({ onDrop }) => {
+  useMapEvents({
+    click: (e) => onDrop({ lat: e.latlng.lat, lng: e.latlng.lng }),
+  });
+  return null;
+};
+
+// Keep the prediction and the pin in view
+const FitPoints: React.FC<{ points: Array<[number, number]> }> = ({ points }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 1) {
+      map.setView(points[0], Math.max(map.getZoom(), 6));
+    } else if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 14 });
+    }
+  }, [points.map(p => p.join(',')).join(';'), map]);
+
+  return null;
+};
+
+interface GroundTruthPickerProps {
+  item: SearchHistory;
+  onChange: (groundTruth: GroundTruth | null) => void;
+}
+
+const GroundTruthPicker: React.FC<GroundTruthPickerProps> = ({ item, onChange }) => {
+  const [pin, setPin] = useState(item.groundTruth?.coordinates || null);
+  const [source, setSource] = useState<GroundTruthSource>(item.groundTruth?.source || 'own_photo');
+  const [note, setNote] = useState(item.groundTruth?.note || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const predicted: [number, number] | null = item.coordinates ? [item.coordinates.lat, item.coordinates.lng] : null;
+  const truth: [number, number] | null = pin ? [pin.lat, pin.lng] : null;
+  const points = [predicted, truth].filter((p): p is [number, number] => p !== null);
+
+  const saved = item.groundTruth;
+  const isDirty = !!pin && (
+    !saved ||
+    saved.coordinates.lat !== pin.lat ||
+    saved.coordinates.lng !== pin.lng ||
+    saved.source !== source ||
+    (saved.note || '') !== note.trim()
+  );
+
+  const handleSave = async () => {
+    if (!pin) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      onChange(await apiService.setGroundTruth(item.id, { coordinates: pin, source, note: note.trim() || undefined }));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Remove the recorded true location?')) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await apiService.clearGroundTruth(item.id);
+      setPin(null);
+      setNote('');
+      onChange(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        Click the map to drop a pin where the photo was really taken.
+        <span className="inline-flex items-center gap-1 ml-2"><span className="w-2 h-2 rounded-full bg-emerald-500 inline-block" /> prediction</span>
+        <span className="inline-flex items-center gap-1 ml-2"><span className="w-2 h-2 rounded-full bg-blue-500 inline-block" /> true location</span>
+      </p>
+
+      <div className="h-[320px] rounded-xl overflow-hidden border border-slate-800">
+        <MapContainer
+          center={truth || predicted || [20, 0]}
+          zoom={truth || predicted ? 6 : 2}
+          style={{ height: '100%', width: '100%' }}
+          className="z-0"
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://carto.com/">CARTO</a>'
+            url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+          />
+          <FitPoints points={points} />
+          <PinDropper onDrop={setPin} />
+          {predicted && <Marker position={predicted} icon={PREDICTED_ICON} />}
+          {truth && (
+            <Marker
+              position={truth}
+              icon={TRUTH_ICON}
+              draggable
+              eventHandlers={{
+                dragend: (e) => {
+                  const { lat, lng } = (e.target as L.Marker).getLatLng();
+                  setPin({ lat, lng });
+                },
+              }}
+            />
+          )}
+          {predicted && truth && (
+            <Polyline positions={[predicted, truth]} pathOptions={{ color: '#94a3b8', weight: 2, dashArray: '6 6' }} />
+          )}
+        </MapContainer>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value as GroundTruthSource)}
+          className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+        >
+          {SOURCE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          placeholder="Note (optional)"
+          className="flex-grow bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          {isSaving ? 'Saving...' : saved ? 'Update' : 'Save'}
+        </button>
+        {saved && (
+          <button
+            onClick={handleClear}
+            disabled={isSaving}
+            className="text-xs text-red-400 hover:text-red-300 hover:bg-red-900/30 px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+
+      {pin && (
+        <p className="text-xs text-slate-500 font-mono">
+          {pin.lat.toFixed(5)}, {pin.lng.toFixed(5)}
+        </p>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default GroundTruthPicker;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { ExifComparison } from '../types';
+
+const SAME_PLACE_BADGE: Record<ExifComparison['samePlace'], { label: string; className: string }> = {
+  yes: { label: 'SAME PLACE', className: 'bg-emerald-900/50 text-emerald-400 border-emerald-800' },
+  no: { label: 'DIFFERENT PLACES', className: 'bg-red-900/50 text-red-400 border-red-800' },
+  unknown: { label: 'UNVERIFIED', className: 'bg-slate-800 text-slate-400 border-slate-700' },
+};
+
+interface ImageMetadataComparisonProps {
+  comparison: ExifComparison;
+  imagePreviews?: string[];
+}
+
+const ImageMetadataComparison: React.FC<ImageMetadataComparisonProps> = ({ comparison, imagePreviews }) => {
+  const badge = SAME_PLACE_BADGE[comparison.samePlace];
+  const conflicted = new Set(comparison.conflicts.flatMap(conflict => conflict.images));
+
+  return (
+    <div className="bg-slate-900 rounded-2xl p-6 border border-slate-800 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Image Metadata</h3>
+        {comparison.images.length > 1 && (
+          <span className={`px-2 py-0.5 text-xs font-mono rounded border ${badge.className}`}>
+            {badge.label}
+          </span>
+        )}
+      </div>
+
+      {comparison.conflicts.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {comparison.conflicts.map((conflict, idx) => (
+            <li
+              key={idx}
+              className={`text-sm p-2 rounded-lg border ${
+                conflict.type === 'gps_far_apart'
+                  ? 'bg-red-900/20 border-red-900/50 text-red-300'
+                  : 'bg-amber-900/20 border-amber-900/50 text-amber-300'
+              }`}
+            >
+              {conflict.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm text-slate-400">
+          <thead className="bg-slate-950 text-xs uppercase font-medium text-slate-500">
+            <tr>
+              <th className="px-3 py-2">Image</th>
+              <th className="px-3 py-2">GPS</th>
+              <th className="px-3 py-2">Taken</th>
+              <th className="px-3 py-2">Camera</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {comparison.images.map(image => (
+              <tr key={image.index} className={conflicted.has(image.index) ? 'bg-amber-900/10' : ''}>
+                <td className="px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    {imagePreviews?.[image.index] && (
+                      <img src={imagePreviews[image.index]} alt="" className="w-10 h-10 object-cover rounded border border-slate-700" />
+                    )}
+                    <span className="text-slate-200">#{image.index + 1}</span>
+                  </div>
+                </td>
+                <td className="px-3 py-2 font-mono text-xs">
+                  {image.gps ? (
+                    <a
+                      href={`https://www.google.com/maps/search/?api=1&query=${image.gps.latitude},${image.gps.longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-emerald-400 hover:text-emerald-300"
+                    >
+                      {image.gps.latitude.toFixed(5)}, {image.gps.longitude.toFixed(5)}
+                    </a>
+                  ) : '—'}
+                </td>
+                <td className="px-3 py-2 text-xs">
+                  {image.captureTime ? (
+                    <>
+                      {image.captureTime.localTime.replace('T', ' ')}
+                      {image.captureTime.source === 'local' && <span className="text-slate-600"> (zone unknown)</span>}
+                    </>
+                  ) : '—'}
+                </td>
+                <td className="px-3 py-2 text-xs">
+                  {image.camera || '—'}
+                  {image.software && <span className="block text-slate-600">{image.software}</span>}
+                  {image.view?.heading != null && (
+                    <span className="block text-amber-500/80">
+                      facing {Math.round(image.view.heading)}°{image.view.fieldOfView ? `, ${Math.round(image.view.fieldOfView)}° view` : ''}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ImageMetadataComparison;
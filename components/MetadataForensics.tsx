@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { MetadataForensicsReport } from '../types';
+
+const Field: React.FC<{ label: string; value: string | null }> = ({ label, value }) => (
+  value ? (
+    <div className="p-3 bg-slate-950 rounded-lg border border-slate-800">
+      <span className="text-xs text-emerald-500 font-mono block mb-1">{label}</span>
+      <p className="text-sm text-slate-300 break-words">{value}</p>
+    </div>
+  ) : null
+);
+
+const join = (...parts: Array<string | null>) => parts.filter(Boolean).join(' ') || null;
+
+const MetadataForensics: React.FC<{ reports: MetadataForensicsReport[] }> = ({ reports }) => {
+  const [selected, setSelected] = useState(0);
+  const report = reports[Math.min(selected, reports.length - 1)];
+  const warningCount = reports.reduce((sum, r) => sum + r.warnings.filter(w => w.severity === 'warning').length, 0);
+
+  const location = report.location
+    ? [report.location.sublocation, report.location.city, report.location.state, report.location.country].filter(Boolean).join(', ') +
+      (report.location.countryCode ? ` (${report.location.countryCode})` : '')
+    : null;
+  const offset = report.time.recordedOffset || report.time.gpsOffset;
+
+  return (
+    <div className="bg-slate-900 rounded-2xl p-6 border border-slate-800 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Metadata Forensics</h3>
+        <span className={`px-2 py-0.5 text-xs font-mono rounded border ${
+          warningCount > 0
+            ? 'bg-amber-900/50 text-amber-400 border-amber-800'
+            : 'bg-emerald-900/50 text-emerald-400 border-emerald-800'
+        }`}>
+          {warningCount > 0 ? `${warningCount} WARNING${warningCount === 1 ? '' : 'S'}` : 'CLEAN'}
+        </span>
+      </div>
+
+      {reports.length > 1 && (
+        <div className="flex gap-2 mb-4">
+          {reports.map((r, idx) => (
+            <button
+              key={r.imageIndex}
+              onClick={() => setSelected(idx)}
+              className={`text-xs font-medium px-3 py-1.5 rounded-lg transition-colors ${idx === selected ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              Image {r.imageIndex + 1}
+              {r.warnings.some(w => w.severity === 'warning') && <span className="ml-1 text-amber-400">!</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {report.warnings.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {report.warnings.map(warning => (
+            <li
+              key={warning.code}
+              className={`text-sm p-2 rounded-lg border ${
+                warning.severity === 'warning'
+                  ? 'bg-amber-900/20 border-amber-900/50 text-amber-300'
+                  : 'bg-slate-950 border-slate-800 text-slate-400'
+              }`}
+            >
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-3">
+        <Field label={`LOCATION FIELDS (${report.location?.source.toUpperCase()})`} value={location} />
+        <Field label="CAMERA" value={join(report.device.make, report.device.model)} />
+        <Field label="LENS" value={join(report.device.lensMake, report.device.lensModel)} />
+        <Field
+          label="SERIAL NUMBERS"
+          value={[
+            report.device.bodySerial && `Body ${report.device.bodySerial}`,
+            report.device.lensSerial && `Lens ${report.device.lensSerial}`,
+          ].filter(Boolean).join(', ') || null}
+        />
+        <Field label="SOFTWARE" value={report.device.software} />
+        <Field label="TAKEN (CAMERA CLOCK)" value={report.time.taken && report.time.taken.replace('T', ' ')} />
+        <Field
+          label="TIME ZONE"
+          value={offset && `UTC${offset}${report.time.recordedOffset ? ' (recorded)' : ' (from GPS time)'}`}
+        />
+        <Field label="MODIFIED" value={report.time.modified && report.time.modified.replace('T', ' ')} />
+        <Field
+          label="EMBEDDED THUMBNAIL"
+          value={report.thumbnail && `${report.thumbnail.width}×${report.thumbnail.height}, ${report.thumbnail.mismatch ? 'does not match' : 'matches'} the image`}
+        />
+      </div>
+
+      {report.editHistory.length > 0 && (
+        <div className="mb-3">
+          <span className="text-xs text-slate-500 uppercase tracking-wider block mb-2">XMP Edit History</span>
+          <ol className="space-y-1">
+            {report.editHistory.map((event, idx) => (
+              <li key={idx} className="text-xs text-slate-400 font-mono">
+                {event.when || '—'} · {event.action}{event.softwareAgent ? ` · ${event.softwareAgent}` : ''}{event.changed ? ` (${event.changed})` : ''}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">
+        Metadata blocks: {report.segments.length > 0 ? report.segments.join(', ') : 'none'}
+      </p>
+    </div>
+  );
+};
+
+export default MetadataForensics;
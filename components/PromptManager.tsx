@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/apiService';
+import { PromptSummary, PromptVersion } from '../types';
+
+const PromptManager: React.FC = () => {
+  const [prompts, setPrompts] = useState<PromptSummary[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [activateOnSave, setActivateOnSave] = useState(true);
+  const [newExpertName, setNewExpertName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    refreshPrompts();
+  }, []);
+
+  const refreshPrompts = async () => {
+    try {
+      setPrompts(await apiService.getPrompts());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const selectPrompt = async (key: string) => {
+    setSelectedKey(key);
+    setError(null);
+    setNote('');
+    try {
+      const data = await apiService.getPromptVersions(key);
+      setVersions(data);
+      const active = data.find(v => v.isActive) || data[0];
+      setDraft(active ? active.content : '');
+    } catch (err: any) {
+      setVersions([]);
+      setDraft('');
+      setError(err.message);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    if (!selectedKey) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      await Promise.all([refreshPrompts(), selectPrompt(selectedKey)]);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    runAction(() => apiService.createPromptVersion(selectedKey!, draft, note, activateOnSave));
+
+  const handleActivate = (version: PromptVersion) =>
+    runAction(() => apiService.activatePromptVersion(selectedKey!, version.id));
+
+  const handleRollback = () =>
+    runAction(() => apiService.rollbackPrompt(selectedKey!));
+
+  const handleNewExpert = () => {
+    const name = newExpertName.trim().toLowerCase();
+    if (!/^[a-z0-9_]+$/.test(name)) {
+      setError('Expert names may only contain a-z, 0-9 and _');
+      return;
+    }
+    setNewExpertName('');
+    setSelectedKey(`clue_expert:${name}`);
+    setVersions([]);
+    setDraft('');
+    setNote('');
+    setError(null);
+  };
+
+  const selected = prompts.find(p => p.key === selectedKey);
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 shadow-xl p-6 space-y-4">
+      <div>
+        <h3 className="text-xl font-bold text-white">Prompt Registry</h3>
+        <p className="text-sm text-slate-400">
+          Edit analysis prompts and the clue expert roster. Every save creates a new version; activate any version to roll back.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/30 border border-red-800 rounded-lg text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Prompt keys */}
+        <div className="space-y-2">
+          {prompts.map(prompt => (
+            <button
+              key={prompt.key}
+              onClick={() => selectPrompt(prompt.key)}
+              className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${selectedKey === prompt.key ? 'bg-emerald-900/20 border-emerald-700 text-emerald-300' : 'bg-slate-950 border-slate-800 text-slate-300 hover:border-slate-600'}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-mono text-sm">{prompt.key}</span>
+                <span className="text-xs text-slate-500">
+                  {prompt.activeVersion ? `v${prompt.activeVersion.version}` : 'builtin'}
+                </span>
+              </div>
+              <p className="text-xs text-slate-500 truncate">{prompt.description}</p>
+            </button>
+          ))}
+
+          <div className="flex gap-2 pt-2">
+            <input
+              type="text"
+              value={newExpertName}
+              onChange={(e) => setNewExpertName(e.target.value)}
+              placeholder="new expert name"
+              className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white placeholder-slate-600"
+            />
+            <button
+              onClick={handleNewExpert}
+              disabled={!newExpertName.trim()}
+              className="text-xs font-medium px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-50"
+            >
+              + Expert
+            </button>
+          </div>
+        </div>
+
+        {/* Editor and versions */}
+        <div className="md:col-span-2 space-y-4">
+          {!selectedKey ? (
+            <p className="text-sm text-slate-500">Select a prompt to view and edit its versions.</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="font-mono text-emerald-400">{selectedKey}</span>
+                {selected && selected.versionCount > 1 && (
+                  <button
+                    onClick={handleRollback}
+                    disabled={isSaving}
+                    className="text-xs font-medium px-3 py-1.5 rounded-lg bg-amber-900/20 text-amber-400 hover:bg-amber-900/40 disabled:opacity-50"
+                  >
+                    Roll Back
+                  </button>
+                )}
+              </div>
+
+              {selected?.kind === 'roster' && (
+                <p className="text-xs text-slate-500">
+                  JSON array of {'{ "name", "promptKey" }'} entries. Every promptKey needs an active version before the roster can be activated.
+                </p>
+              )}
+
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={14}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-emerald-500"
+              />
+
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="What changed? (optional)"
+                  className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-600"
+                />
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={activateOnSave}
+                    onChange={(e) => setActivateOnSave(e.target.checked)}
+                  />
+                  Activate
+                </label>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving || !draft.trim()}
+                  className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-medium disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save New Version'}
+                </button>
+              </div>
+
+              {versions.length > 0 && (
+                <ul className="divide-y divide-slate-800 border border-slate-800 rounded-lg">
+                  {versions.map(version => (
+                    <li key={version.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <span className="font-mono text-white">v{version.version}</span>
+                        {version.isActive && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-emerald-900/40 text-emerald-400">active</span>
+                        )}
+                        <span className="ml-3 text-xs text-slate-500">{new Date(version.createdAt).toLocaleString()}</span>
+                        {version.note && <p className="text-xs text-slate-400 truncate">{version.note}</p>}
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => setDraft(version.content)}
+                          className="text-xs text-slate-400 hover:text-white"
+                        >
+                          Load
+                        </button>
+                        {!version.isActive && (
+                          <button
+                            onClick={() => handleActivate(version)}
+                            disabled={isSaving}
+                            className="text-xs text-emerald-500 hover:text-emerald-400 disabled:opacity-50"
+                          >
+                            Activate
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptManager;
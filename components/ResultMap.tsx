@@ -0,0 +1,123 @@
+import React, { useEffect } from 'react';
+import { MapContainer, TileLayer, Marker, Circle, Polygon, Polyline, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { ImageExifSummary } from '../types';
+
+const EARTH_RADIUS_M = 6371000;
+const MIN_CONE_RANGE_M = 400;
+const HEADING_ONLY_SPREAD = 10;  // degrees drawn either side of a heading without a field of view
+
+const dotIcon = (color: string, size: number) => L.divIcon({
+  className: 'custom-marker',
+  html: `
+    <div style="
+      width: ${size}px;
+      height: ${size}px;
+      background: ${color};
+      border: 3px solid white;
+      border-radius: 50%;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.4);
+    "></div>
+  `,
+  iconSize: [size, size],
+  iconAnchor: [size / 2, size / 2],
+});
+
+const RESULT_ICON = dotIcon('#10b981', 22);
+const CAMERA_ICON = dotIcon('#3b82f6', 16);
+
+// Point `distance` metres from `origin` along `bearing` (degrees from north)
+const destination = (origin: [number, number], bearing: number, distance: number): [number, number] => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const lat1 = toRad(origin[0]);
+  const lng1 = toRad(origin[1]);
+  const angular = distance / EARTH_RADIUS_M;
+  const theta = toRad(bearing);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta));
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return [lat2 * 180 / Math.PI, lng2 * 180 / Math.PI];
+};
+
+// Camera position, then an arc across the field of view
+const viewCone = (origin: [number, number], heading: number, fieldOfView: number, range: number): Array<[number, number]> => {
+  const steps = Math.max(4, Math.ceil(fieldOfView / 5));
+  const arc = Array.from({ length: steps + 1 }, (_, i) =>
+    destination(origin, heading - fieldOfView / 2 + (fieldOfView * i) / steps, range)
+  );
+  return [origin, ...arc, origin];
+};
+
+const FitPoints: React.FC<{ points: Array<[number, number]> }> = ({ points }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 1) {
+      map.setView(points[0], 15);
+    } else if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [30, 30], maxZoom: 17 });
+    }
+  }, [points.map(p => p.join(',')).join(';'), map]);
+
+  return null;
+};
+
+interface ResultMapProps {
+  coordinates: { lat: number; lng: number } | null;
+  camera: ImageExifSummary;  // image whose GPS position and heading are drawn
+}
+
+/**
+ * The predicted location with the camera's recorded position, GPS accuracy
+ * circle and view cone
+ */
+const ResultMap: React.FC<ResultMapProps> = ({ coordinates, camera }) => {
+  const predicted: [number, number] | null = coordinates ? [coordinates.lat, coordinates.lng] : null;
+  const cameraPosition: [number, number] | null = camera.gps ? [camera.gps.latitude, camera.gps.longitude] : null;
+  // Without EXIF GPS the cone starts at the predicted location
+  const origin = cameraPosition || predicted;
+  const accuracy = camera.gps?.horizontalAccuracy;
+  const heading = camera.view?.heading ?? null;
+  const range = Math.max(MIN_CONE_RANGE_M, (accuracy || 0) * 3);
+
+  const cone = origin && heading !== null
+    ? viewCone(origin, heading, camera.view?.fieldOfView || HEADING_ONLY_SPREAD * 2, range)
+    : null;
+  const points = [predicted, cameraPosition, ...(cone ? [cone[1], cone[cone.length - 2]] : [])]
+    .filter((p): p is [number, number] => p !== null);
+
+  if (!origin) return null;
+
+  return (
+    <MapContainer center={origin} zoom={15} style={{ height: '100%', width: '100%' }} className="z-0">
+      <TileLayer
+        attribution='&copy; <a href="https://carto.com/">CARTO</a>'
+        url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+      />
+      <FitPoints points={points} />
+      {cameraPosition && accuracy && (
+        <Circle center={cameraPosition} radius={accuracy} pathOptions={{ color: '#3b82f6', weight: 1, fillOpacity: 0.15 }} />
+      )}
+      {cone && (
+        <Polygon
+          positions={cone}
+          pathOptions={{
+            color: '#f59e0b',
+            weight: 1,
+            fillOpacity: 0.2,
+            dashArray: camera.view?.fieldOfView ? undefined : '4 4',
+          }}
+        />
+      )}
+      {origin && heading !== null && (
+        <Polyline positions={[origin, destination(origin, heading, range)]} pathOptions={{ color: '#f59e0b', weight: 2 }} />
+      )}
+      {cameraPosition && <Marker position={cameraPosition} icon={CAMERA_ICON} />}
+      {predicted && <Marker position={predicted} icon={RESULT_ICON} />}
+    </MapContainer>
+  );
+};
+
+export default ResultMap;
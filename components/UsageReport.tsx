@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/apiService';
+import { UsageReport as UsageReportData, UsageReportRow } from '../types';
+
+type Grouping = 'byUser' | 'byDay' | 'byKind' | 'byService';
+
+const GROUPINGS: { key: Grouping; label: string }[] = [
+  { key: 'byUser', label: 'User' },
+  { key: 'byDay', label: 'Day' },
+  { key: 'byKind', label: 'Type' },
+  { key: 'byService', label: 'Service' },
+];
+
+const PERIODS = [7, 30, 90];
+
+const formatTokens = (n: number) => (n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n));
+const formatUsd = (n: number) => `$${n.toFixed(n < 1 ? 4 : 2)}`;
+
+const UsageReport: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [grouping, setGrouping] = useState<Grouping>('byUser');
+  const [report, setReport] = useState<UsageReportData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    apiService.getUsageReport(days)
+      .then(setReport)
+      .catch((err: any) => setError(err.message));
+  }, [days]);
+
+  const rows: UsageReportRow[] = report ? report[grouping] : [];
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 shadow-xl p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-white">Provider Usage</h3>
+          <p className="text-sm text-slate-400">
+            Model, Cloud Vision and SerpAPI calls made by analyses and refinements, with estimated cost against the credits charged.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {PERIODS.map(period => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={`text-xs font-medium px-3 py-1.5 rounded-lg border transition-colors ${days === period ? 'bg-emerald-900/20 border-emerald-700 text-emerald-300' : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600'}`}
+            >
+              {period}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/30 border border-red-800 rounded-lg text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: 'Analyses', value: String(report.totals.analyses) },
+            { label: 'Provider calls', value: `${report.totals.calls} (${report.totals.retries} retries)` },
+            { label: 'Tokens in / out', value: `${formatTokens(report.totals.inputTokens)} / ${formatTokens(report.totals.outputTokens)}` },
+            { label: 'Est. cost / credits', value: `${formatUsd(report.totals.costUsd)} / ${report.totals.creditsCharged ?? 0}` },
+          ].map(stat => (
+            <div key={stat.label} className="bg-slate-950 border border-slate-800 rounded-lg p-3">
+              <p className="text-xs text-slate-500 uppercase tracking-wider">{stat.label}</p>
+              <p className="text-sm font-mono text-slate-200 mt-1">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {GROUPINGS.map(g => (
+          <button
+            key={g.key}
+            onClick={() => setGrouping(g.key)}
+            className={`text-xs font-medium px-3 py-1.5 rounded-lg transition-colors ${grouping === g.key ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            By {g.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm text-slate-400">
+          <thead className="bg-slate-950 text-xs uppercase font-medium text-slate-500">
+            <tr>
+              <th className="px-4 py-3">{GROUPINGS.find(g => g.key === grouping)?.label}</th>
+              <th className="px-4 py-3 text-right">Analyses</th>
+              <th className="px-4 py-3 text-right">Calls</th>
+              <th className="px-4 py-3 text-right">Retries</th>
+              <th className="px-4 py-3 text-right">Failures</th>
+              <th className="px-4 py-3 text-right">Tokens in / out</th>
+              <th className="px-4 py-3 text-right">Avg latency</th>
+              <th className="px-4 py-3 text-right">Est. cost</th>
+              <th className="px-4 py-3 text-right">Credits</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {rows.map(row => (
+              <tr key={row.key} className="hover:bg-slate-800/50 transition-colors">
+                <td className="px-4 py-3 text-slate-200 font-mono">{row.label}</td>
+                <td className="px-4 py-3 text-right">{row.analyses}</td>
+                <td className="px-4 py-3 text-right">{row.calls}</td>
+                <td className="px-4 py-3 text-right">{row.retries}</td>
+                <td className="px-4 py-3 text-right">{row.failures}</td>
+                <td className="px-4 py-3 text-right font-mono">{formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}</td>
+                <td className="px-4 py-3 text-right">{(row.avgLatencyMs / 1000).toFixed(1)}s</td>
+                <td className="px-4 py-3 text-right font-mono text-amber-300">{formatUsd(row.costUsd)}</td>
+                <td className="px-4 py-3 text-right">{row.creditsCharged ?? '—'}</td>
+              </tr>
+            ))}
+            {report && rows.length === 0 && (
+              <tr>
+                <td colSpan={9} className="px-4 py-6 text-center text-slate-500">
+                  No analyses in the last {report.days} days
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UsageReport;
@@ -1,9 +1,29 @@
 import React, { useEffect, useState, lazy, Suspense } from 'react';
 import { apiService } from '../services/apiService';
-import { SearchHistory } from '../types';
+import { GroundTruth, SearchHistory } from '../types';
 
 // Lazy load map component to avoid SSR issues
 const HistoryMap = lazy(() => import('./HistoryMap'));
+const GroundTruthPicker = lazy(() => import('./GroundTruthPicker'));
+
+const SOURCE_LABELS: Record<GroundTruth['source'], string> = {
+  own_photo: 'own photo',
+  street_view: 'Street View match',
+  photo_metadata: 'photo metadata',
+  other: 'other',
+};
+
+const formatErrorKm = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m` : km < 100 ? `${km.toFixed(1)} km` : `${Math.round(km).toLocaleString()} km`;
+
+// Correct / wrong / unknown badge for the country and city checks
+const VerdictBadge: React.FC<{ label: string; value: boolean | null }> = ({ label, value }) => (
+  <span className={`text-xs px-2 py-0.5 rounded ${
+    value === null ? 'bg-slate-800 text-slate-400' : value ? 'bg-emerald-900/50 text-emerald-400' : 'bg-red-900/50 text-red-400'
+  }`}>
+    {label} {value === null ? '?' : value ? '✓' : '✗'}
+  </span>
+);
 
 type ViewMode = 'list' | 'map';
 
@@ -35,6 +55,11 @@ const UserHistory: React.FC<UserHistoryProps> = ({ userId }) => {
     loadHistory();
   }, [userId]);
 
+  const handleGroundTruthChange = (id: string, groundTruth: GroundTruth | null) => {
+    setHistory(prev => prev.map(item => item.id === id ? { ...item, groundTruth } : item));
+    setSelectedItem(prev => prev?.id === id ? { ...prev, groundTruth } : prev);
+  };
+
   const handleDelete = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     if (!confirm('Delete this history item?')) return;
@@ -145,6 +170,11 @@ const UserHistory: React.FC<UserHistoryProps> = ({ userId }) => {
                                     {item.confidenceScore}% confidence
                                 </span>
                             )}
+                            {item.groundTruth?.errorKm != null && (
+                                <span className="px-2 py-0.5 rounded bg-blue-900/40 text-blue-300" title="Distance from the confirmed true location">
+                                    {formatErrorKm(item.groundTruth.errorKm)} off
+                                </span>
+                            )}
                         </div>
                     </div>
                     <div className="flex items-center gap-3">
@@ -293,6 +323,37 @@ const UserHistory: React.FC<UserHistoryProps> = ({ userId }) => {
                 </div>
               )}
 
+              {/* Ground Truth */}
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">True Location</h3>
+                {selectedItem.groundTruth && (
+                  <div className="p-3 bg-slate-950 rounded-lg border border-slate-800 space-y-2">
+                    <div className="flex items-center flex-wrap gap-3">
+                      {selectedItem.groundTruth.errorKm !== null ? (
+                        <span className="text-white font-bold">{formatErrorKm(selectedItem.groundTruth.errorKm)} off</span>
+                      ) : (
+                        <span className="text-slate-400 text-sm">No predicted coordinates to measure</span>
+                      )}
+                      <VerdictBadge label="Country" value={selectedItem.groundTruth.countryCorrect} />
+                      <VerdictBadge label="City" value={selectedItem.groundTruth.cityCorrect} />
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      {[selectedItem.groundTruth.trueCity, selectedItem.groundTruth.trueCountryCode].filter(Boolean).join(', ') || 'Outside any country'}
+                      {' · '}confirmed by {selectedItem.groundTruth.confirmedBy.username || 'unknown user'}
+                      {' '}({SOURCE_LABELS[selectedItem.groundTruth.source]}) on {new Date(selectedItem.groundTruth.confirmedAt).toLocaleDateString()}
+                      {selectedItem.groundTruth.note && <> · {selectedItem.groundTruth.note}</>}
+                    </p>
+                  </div>
+                )}
+                <Suspense fallback={<div className="h-[320px] bg-slate-950 rounded-xl border border-slate-800 flex items-center justify-center text-slate-500 text-sm">Loading map...</div>}>
+                  <GroundTruthPicker
+                    key={selectedItem.id}
+                    item={selectedItem}
+                    onChange={(groundTruth) => handleGroundTruthChange(selectedItem.id, groundTruth)}
+                  />
+                </Suspense>
+              </div>
+
               {/* Map Link */}
               {selectedItem.coordinates && (
                 <div className="pt-4 border-t border-slate-800">
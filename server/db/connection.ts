@@ -43,4 +43,22 @@ export async function execute(sql: string, params?: any[]): Promise<mysql.Result
   return result as mysql.ResultSetHeader;
 }
 
+/**
+ * Run statements on one connection inside a transaction; rolled back if fn throws
+ */
+export async function transaction<T>(fn: (connection: mysql.PoolConnection) => Promise<T>): Promise<T> {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await fn(connection);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback().catch(() => {});
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
 export default pool;
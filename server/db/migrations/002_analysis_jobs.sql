@@ -0,0 +1,23 @@
+-- Migration: Add analysis_jobs table for background analysis jobs
+-- Run this on existing database
+
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id VARCHAR(36) PRIMARY KEY,
+  user_id VARCHAR(36) NOT NULL,
+  status ENUM('queued', 'running', 'completed', 'failed') NOT NULL DEFAULT 'queued',
+  hints JSON,
+  image_count INT NOT NULL,
+  server_base_url VARCHAR(255) NOT NULL,
+  progress JSON,
+  result JSON,
+  error_message VARCHAR(1000),
+  error_code VARCHAR(100),
+  charged_credits INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP NULL,
+  finished_at TIMESTAMP NULL,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_created (user_id, created_at),
+  INDEX idx_status (status)
+) ENGINE=InnoDB;
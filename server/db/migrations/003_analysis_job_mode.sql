@@ -0,0 +1,5 @@
+-- Migration: Add analysis mode to analysis_jobs
+-- Run this on existing database
+
+ALTER TABLE analysis_jobs
+  ADD COLUMN mode ENUM('single', 'candidates') NOT NULL DEFAULT 'single' AFTER hints;
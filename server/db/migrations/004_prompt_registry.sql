@@ -0,0 +1,19 @@
+-- Migration: Add versioned prompt registry and record prompt versions on history
+-- Run this on existing database (built-in prompts are seeded on server start)
+
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id VARCHAR(36) PRIMARY KEY,
+  prompt_key VARCHAR(100) NOT NULL,
+  version INT NOT NULL,
+  content MEDIUMTEXT NOT NULL,
+  note VARCHAR(500),
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by VARCHAR(36),
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE KEY uq_prompt_version (prompt_key, version),
+  INDEX idx_prompt_active (prompt_key, is_active)
+) ENGINE=InnoDB;
+
+ALTER TABLE search_history
+  ADD COLUMN prompt_versions JSON AFTER sources;
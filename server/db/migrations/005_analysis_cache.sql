@@ -0,0 +1,29 @@
+-- Migration: Add analysis result cache
+-- Run this on existing database
+
+CREATE TABLE IF NOT EXISTS analysis_cache (
+  id VARCHAR(36) PRIMARY KEY,
+  user_id VARCHAR(36) NOT NULL,
+  content_hash CHAR(64) NOT NULL,
+  perceptual_hashes VARCHAR(200),
+  variant_hash CHAR(64) NOT NULL,
+  image_count INT NOT NULL,
+  payload JSON NOT NULL,
+  full_cost INT NOT NULL,
+  hit_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  last_hit_at TIMESTAMP NULL,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_cache_exact (user_id, content_hash, variant_hash),
+  INDEX idx_cache_variant (user_id, variant_hash, image_count, expires_at)
+) ENGINE=InnoDB;
+
+ALTER TABLE analysis_jobs
+  ADD COLUMN force_refresh BOOLEAN NOT NULL DEFAULT FALSE AFTER server_base_url;
+
+INSERT INTO system_settings (setting_key, setting_value) VALUES
+  ('cache_ttl_hours', '168'),
+  ('cache_hit_cost', '1')
+ON DUPLICATE KEY UPDATE setting_key = setting_key;
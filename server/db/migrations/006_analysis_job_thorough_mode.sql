@@ -0,0 +1,5 @@
+-- Migration: Add thorough (self-consistency ensemble) analysis mode
+-- Run this on existing database
+
+ALTER TABLE analysis_jobs
+  MODIFY COLUMN mode ENUM('single', 'candidates', 'thorough') NOT NULL DEFAULT 'single';
@@ -0,0 +1,41 @@
+-- Migration: Add per-analysis provider usage and cost accounting
+-- Run this on existing database
+
+CREATE TABLE IF NOT EXISTS analysis_usage (
+  id VARCHAR(36) PRIMARY KEY,
+  user_id VARCHAR(36) NOT NULL,
+  job_id VARCHAR(36),
+  mode ENUM('single', 'candidates', 'thorough') NOT NULL DEFAULT 'single',
+  status ENUM('completed', 'failed', 'cached') NOT NULL,
+  credits_charged INT NOT NULL DEFAULT 0,
+  call_count INT NOT NULL DEFAULT 0,
+  retry_count INT NOT NULL DEFAULT 0,
+  input_tokens INT NOT NULL DEFAULT 0,
+  output_tokens INT NOT NULL DEFAULT 0,
+  latency_ms INT NOT NULL DEFAULT 0,
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_usage_created (created_at),
+  INDEX idx_usage_user (user_id, created_at)
+) ENGINE=InnoDB;
+
+CREATE TABLE IF NOT EXISTS analysis_usage_calls (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  usage_id VARCHAR(36) NOT NULL,
+  service VARCHAR(50) NOT NULL,
+  operation VARCHAR(100) NOT NULL,
+  model VARCHAR(100),
+  input_tokens INT NOT NULL DEFAULT 0,
+  output_tokens INT NOT NULL DEFAULT 0,
+  latency_ms INT NOT NULL,
+  attempt INT NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL,
+  error_message VARCHAR(500),
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (usage_id) REFERENCES analysis_usage(id) ON DELETE CASCADE,
+  INDEX idx_usage_calls_service (service, created_at)
+) ENGINE=InnoDB;
@@ -0,0 +1,17 @@
+-- Migration: Cancellable analyses with per-phase timeouts
+-- Run this on existing database
+
+ALTER TABLE analysis_jobs
+  MODIFY COLUMN status ENUM('queued', 'running', 'completed', 'failed', 'cancelled') NOT NULL DEFAULT 'queued';
+
+ALTER TABLE analysis_usage
+  MODIFY COLUMN status ENUM('completed', 'failed', 'cached', 'cancelled') NOT NULL;
+
+-- Deadlines in seconds (see services/analysisDeadlines.ts)
+INSERT INTO system_settings (setting_key, setting_value) VALUES
+  ('timeout_cloud_vision_seconds', '30'),
+  ('timeout_serp_api_seconds', '60'),
+  ('timeout_clue_expert_seconds', '120'),
+  ('timeout_final_search_seconds', '240'),
+  ('timeout_analysis_seconds', '900')
+ON DUPLICATE KEY UPDATE setting_key = setting_key;
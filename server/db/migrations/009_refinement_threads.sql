@@ -0,0 +1,26 @@
+-- Migration: Persistent multi-turn refinement threads
+-- Run this on existing database
+
+CREATE TABLE IF NOT EXISTS refinement_threads (
+  analysis_id VARCHAR(36) PRIMARY KEY,
+  user_id VARCHAR(36) NOT NULL,
+  active_version INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (analysis_id) REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB;
+
+CREATE TABLE IF NOT EXISTS refinement_turns (
+  id VARCHAR(36) PRIMARY KEY,
+  analysis_id VARCHAR(36) NOT NULL,
+  version INT NOT NULL,
+  based_on_version INT NOT NULL,
+  feedback TEXT NOT NULL,
+  result JSON NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (analysis_id) REFERENCES refinement_threads(analysis_id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_thread_version (analysis_id, version)
+) ENGINE=InnoDB;
@@ -0,0 +1,10 @@
+-- Migration: Metered refinement (free allowance per analysis, then a per-refine cost)
+-- Run this on existing database
+
+ALTER TABLE refinement_turns
+  ADD COLUMN credits_charged INT NOT NULL DEFAULT 0 AFTER result;
+
+INSERT INTO system_settings (setting_key, setting_value) VALUES
+  ('refine_free_per_analysis', '3'),
+  ('refine_cost', '2')
+ON DUPLICATE KEY UPDATE setting_key = setting_key;
@@ -0,0 +1,22 @@
+-- Migration: Ground-truth locations for history items, with the prediction error
+-- Run this on existing database
+
+CREATE TABLE IF NOT EXISTS ground_truth (
+  history_id VARCHAR(36) PRIMARY KEY,
+  lat DECIMAL(10, 8) NOT NULL,
+  lng DECIMAL(11, 8) NOT NULL,
+  source ENUM('own_photo', 'street_view', 'photo_metadata', 'other') NOT NULL,
+  note VARCHAR(500),
+  confirmed_by VARCHAR(36) NOT NULL,
+  -- Evaluation of the prediction at the time it was confirmed (or last refined)
+  error_km DECIMAL(10, 3),
+  country_correct BOOLEAN,
+  city_correct BOOLEAN,
+  true_country_code CHAR(2),
+  true_city VARCHAR(200),
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (history_id) REFERENCES search_history(id) ON DELETE CASCADE,
+  FOREIGN KEY (confirmed_by) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB;
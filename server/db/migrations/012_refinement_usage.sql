@@ -0,0 +1,5 @@
+-- Migration: Record provider usage of refinements separately from analyses
+-- Run this on existing database
+
+ALTER TABLE analysis_usage
+  ADD COLUMN kind ENUM('analysis', 'refinement') NOT NULL DEFAULT 'analysis' AFTER mode;
@@ -0,0 +1,7 @@
+-- Migration: Per-mode analysis pricing (candidates and thorough run several final searches)
+-- Run this on existing database
+
+INSERT INTO system_settings (setting_key, setting_value) VALUES
+  ('candidates_search_cost', '20'),
+  ('thorough_search_cost', '30')
+ON DUPLICATE KEY UPDATE setting_key = setting_key;
@@ -29,10 +29,30 @@ export interface DbSearchHistory {
   reasoning: string | null; // JSON string
   visual_cues: string | null; // JSON string
   sources: string | null; // JSON string
+  prompt_versions: string | null; // JSON string
   cost: number;
   created_at: Date;
 }
 
+export type GroundTruthSource = 'own_photo' | 'street_view' | 'photo_metadata' | 'other';
+
+export interface DbGroundTruth {
+  history_id: string;
+  lat: number; // DECIMAL - returned as string
+  lng: number;
+  source: GroundTruthSource;
+  note: string | null;
+  confirmed_by: string;
+  confirmed_by_username?: string | null; // joined from users
+  error_km: number | null; // DECIMAL - returned as string
+  country_correct: number | null; // BOOLEAN - 0/1
+  city_correct: number | null;
+  true_country_code: string | null;
+  true_city: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface DbSystemSetting {
   setting_key: string;
   setting_value: string;
@@ -46,6 +66,104 @@ export interface DbUserSetting {
   updated_at: Date;
 }
 
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface DbAnalysisJob {
+  id: string;
+  user_id: string;
+  status: AnalysisJobStatus;
+  hints: string | null; // JSON string
+  mode: 'single' | 'candidates' | 'thorough';
+  image_count: number;
+  server_base_url: string;
+  force_refresh: boolean;
+  progress: string | null; // JSON string - AnalysisProgressEvent[]
+  result: string | null; // JSON string - full analysis payload
+  error_message: string | null;
+  error_code: string | null;
+  charged_credits: number;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+export interface DbAnalysisCache {
+  id: string;
+  user_id: string;
+  content_hash: string; // SHA-256 over all image bytes, in order
+  perceptual_hashes: string | null; // comma-separated 64-bit dHash per image (hex)
+  variant_hash: string; // SHA-256 of mode, hints and enabled premium services
+  image_count: number;
+  payload: string; // JSON string - cached analysis payload
+  full_cost: number;
+  hit_count: number;
+  created_at: Date;
+  expires_at: Date;
+  last_hit_at: Date | null;
+}
+
+export interface DbAnalysisUsage {
+  id: string;
+  user_id: string;
+  job_id: string | null;
+  mode: 'single' | 'candidates' | 'thorough';
+  status: 'completed' | 'failed' | 'cached' | 'cancelled';
+  credits_charged: number;
+  call_count: number;
+  retry_count: number;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  cost_usd: string; // DECIMAL comes back as a string
+  created_at: Date;
+}
+
+export interface DbAnalysisUsageCall {
+  id: number;
+  usage_id: string;
+  service: string;
+  operation: string;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  attempt: number;
+  success: boolean;
+  error_message: string | null;
+  cost_usd: string;
+  created_at: Date;
+}
+
+export interface DbRefinementThread {
+  analysis_id: string; // analysis job id
+  user_id: string;
+  active_version: number; // 0 = the original analysis result
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DbRefinementTurn {
+  id: string;
+  analysis_id: string;
+  version: number;
+  based_on_version: number; // version the feedback was given on
+  feedback: string;
+  result: string; // JSON string - GeoAnalysisResult
+  credits_charged: number; // 0 while within the free allowance
+  created_at: Date;
+}
+
+export interface DbPromptVersion {
+  id: string;
+  prompt_key: string;
+  version: number;
+  content: string;
+  note: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: Date;
+}
+
 // Premium service keys
 export const PREMIUM_SERVICES = {
   CLOUD_VISION: 'cloud_vision_enabled',
@@ -97,8 +215,70 @@ export interface SearchHistoryItem {
     demographics?: string;
   } | null;
   sources: Array<{ title: string; uri: string }>;
+  promptVersions: Record<string, { id: string; version: number }> | null;
   cost: number;
   timestamp: number;
+  groundTruth?: GroundTruthItem | null;
+}
+
+export interface GroundTruthItem {
+  coordinates: { lat: number; lng: number };
+  source: GroundTruthSource;
+  note: string | null;
+  confirmedBy: { id: string; username: string | null };
+  confirmedAt: number;
+  errorKm: number | null; // null when the prediction had no coordinates
+  countryCorrect: boolean | null; // null when either side is outside every country
+  cityCorrect: boolean | null;
+  trueCountryCode: string | null;
+  trueCity: string | null; // nearest city to the true location
+}
+
+export interface PromptVersionItem {
+  id: string;
+  key: string;
+  version: number;
+  content: string;
+  note: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: number;
+}
+
+// Job list entry (no progress log or result body)
+export interface AnalysisJobSummary {
+  id: string;
+  status: AnalysisJobStatus;
+  mode: 'single' | 'candidates' | 'thorough';
+  imageCount: number;
+  locationName: string | null;
+  error: { message: string; code: string } | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface AnalysisJobDetail extends AnalysisJobSummary {
+  progress: any[];
+  result: any | null; // analysis payload once completed
+}
+
+// One version of an analysis in its refinement thread
+export interface RefinementVersion {
+  version: number;
+  basedOnVersion: number | null; // null for the original analysis
+  feedback: string | null; // the user message that produced this version
+  result: any; // GeoAnalysisResult
+  creditsCharged: number;
+  createdAt: number;
+}
+
+export interface RefinementThreadItem {
+  analysisId: string;
+  activeVersion: number;
+  versions: RefinementVersion[]; // oldest first, version 0 is the original analysis
+  freeRefinesRemaining: number;
+  refineCost: number; // credits the next refinement costs (0 while free ones remain)
 }
 
 // Conversion helpers
@@ -143,7 +323,76 @@ export function dbHistoryToItem(history: DbSearchHistory): SearchHistoryItem {
     reasoning: safeJsonParse<string[]>(history.reasoning, []),
     visualCues: safeJsonParse(history.visual_cues, null),
     sources: safeJsonParse<Array<{ title: string; uri: string }>>(history.sources, []),
+    promptVersions: safeJsonParse(history.prompt_versions, null),
     cost: history.cost,
     timestamp: history.created_at.getTime()
   };
 }
+
+export function dbJobToSummary(job: DbAnalysisJob): AnalysisJobSummary {
+  const result = safeJsonParse<any>(job.result, null);
+  return {
+    id: job.id,
+    status: job.status,
+    mode: job.mode,
+    imageCount: job.image_count,
+    locationName: result?.result?.locationName || null,
+    error: job.status === 'failed' || job.status === 'cancelled'
+      ? { message: job.error_message || 'Analysis failed', code: job.error_code || 'INTERNAL_ERROR' }
+      : null,
+    createdAt: job.created_at.getTime(),
+    startedAt: job.started_at ? job.started_at.getTime() : null,
+    finishedAt: job.finished_at ? job.finished_at.getTime() : null
+  };
+}
+
+export function dbJobToDetail(job: DbAnalysisJob): AnalysisJobDetail {
+  return {
+    ...dbJobToSummary(job),
+    progress: safeJsonParse<any[]>(job.progress, []),
+    result: safeJsonParse<any>(job.result, null)
+  };
+}
+
+function nullableBool(value: number | null): boolean | null {
+  return value === null ? null : Boolean(value);
+}
+
+export function dbGroundTruthToItem(row: DbGroundTruth): GroundTruthItem {
+  return {
+    coordinates: { lat: parseFloat(String(row.lat)), lng: parseFloat(String(row.lng)) },
+    source: row.source,
+    note: row.note,
+    confirmedBy: { id: row.confirmed_by, username: row.confirmed_by_username || null },
+    confirmedAt: row.updated_at.getTime(),
+    errorKm: row.error_km !== null ? parseFloat(String(row.error_km)) : null,
+    countryCorrect: nullableBool(row.country_correct),
+    cityCorrect: nullableBool(row.city_correct),
+    trueCountryCode: row.true_country_code,
+    trueCity: row.true_city
+  };
+}
+
+export function dbRefinementTurnToVersion(turn: DbRefinementTurn): RefinementVersion {
+  return {
+    version: turn.version,
+    basedOnVersion: turn.based_on_version,
+    feedback: turn.feedback,
+    result: safeJsonParse<any>(turn.result, null),
+    creditsCharged: turn.credits_charged,
+    createdAt: turn.created_at.getTime()
+  };
+}
+
+export function dbPromptVersionToItem(row: DbPromptVersion): PromptVersionItem {
+  return {
+    id: row.id,
+    key: row.prompt_key,
+    version: row.version,
+    content: row.content,
+    note: row.note,
+    isActive: !!row.is_active,
+    createdBy: row.created_by,
+    createdAt: row.created_at.getTime()
+  };
+}
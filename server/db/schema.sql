@@ -47,6 +47,7 @@ CREATE TABLE IF NOT EXISTS search_history (
   reasoning JSON,
   visual_cues JSON,
   sources JSON,
+  prompt_versions JSON,
   cost INT NOT NULL DEFAULT 10,
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
 
@@ -73,11 +74,169 @@ CREATE TABLE IF NOT EXISTS user_settings (
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 ) ENGINE=InnoDB;
 
+-- Analysis jobs table (background analyses, see services/analysisJobService.ts)
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id VARCHAR(36) PRIMARY KEY,
+  user_id VARCHAR(36) NOT NULL,
+  status ENUM('queued', 'running', 'completed', 'failed', 'cancelled') NOT NULL DEFAULT 'queued',
+  hints JSON,
+  mode ENUM('single', 'candidates', 'thorough') NOT NULL DEFAULT 'single',
+  image_count INT NOT NULL,
+  server_base_url VARCHAR(255) NOT NULL,
+  force_refresh BOOLEAN NOT NULL DEFAULT FALSE,
+  progress JSON,
+  result JSON,
+  error_message VARCHAR(1000),
+  error_code VARCHAR(100),
+  charged_credits INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP NULL,
+  finished_at TIMESTAMP NULL,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_created (user_id, created_at),
+  INDEX idx_status (status)
+) ENGINE=InnoDB;
+
+-- Prompt registry (versioned prompts and clue expert roster, seeded on server start)
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id VARCHAR(36) PRIMARY KEY,
+  prompt_key VARCHAR(100) NOT NULL,
+  version INT NOT NULL,
+  content MEDIUMTEXT NOT NULL,
+  note VARCHAR(500),
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by VARCHAR(36),
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE KEY uq_prompt_version (prompt_key, version),
+  INDEX idx_prompt_active (prompt_key, is_active)
+) ENGINE=InnoDB;
+
+-- Analysis result cache (duplicate image submissions reuse a previous result)
+CREATE TABLE IF NOT EXISTS analysis_cache (
+  id VARCHAR(36) PRIMARY KEY,
+  user_id VARCHAR(36) NOT NULL,
+  content_hash CHAR(64) NOT NULL,
+  perceptual_hashes VARCHAR(200),
+  variant_hash CHAR(64) NOT NULL,
+  image_count INT NOT NULL,
+  payload JSON NOT NULL,
+  full_cost INT NOT NULL,
+  hit_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  last_hit_at TIMESTAMP NULL,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_cache_exact (user_id, content_hash, variant_hash),
+  INDEX idx_cache_variant (user_id, variant_hash, image_count, expires_at)
+) ENGINE=InnoDB;
+
+-- Provider usage and estimated cost per analysis (see services/usageMeter.ts)
+CREATE TABLE IF NOT EXISTS analysis_usage (
+  id VARCHAR(36) PRIMARY KEY,
+  user_id VARCHAR(36) NOT NULL,
+  job_id VARCHAR(36),
+  mode ENUM('single', 'candidates', 'thorough') NOT NULL DEFAULT 'single',
+  kind ENUM('analysis', 'refinement') NOT NULL DEFAULT 'analysis',  -- refinements are metered like analyses
+  status ENUM('completed', 'failed', 'cached', 'cancelled') NOT NULL,
+  credits_charged INT NOT NULL DEFAULT 0,
+  call_count INT NOT NULL DEFAULT 0,
+  retry_count INT NOT NULL DEFAULT 0,
+  input_tokens INT NOT NULL DEFAULT 0,
+  output_tokens INT NOT NULL DEFAULT 0,
+  latency_ms INT NOT NULL DEFAULT 0,
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_usage_created (created_at),
+  INDEX idx_usage_user (user_id, created_at)
+) ENGINE=InnoDB;
+
+CREATE TABLE IF NOT EXISTS analysis_usage_calls (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  usage_id VARCHAR(36) NOT NULL,
+  service VARCHAR(50) NOT NULL,
+  operation VARCHAR(100) NOT NULL,
+  model VARCHAR(100),
+  input_tokens INT NOT NULL DEFAULT 0,
+  output_tokens INT NOT NULL DEFAULT 0,
+  latency_ms INT NOT NULL,
+  attempt INT NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL,
+  error_message VARCHAR(500),
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (usage_id) REFERENCES analysis_usage(id) ON DELETE CASCADE,
+  INDEX idx_usage_calls_service (service, created_at)
+) ENGINE=InnoDB;
+
+-- Refinement dialogue per analysis; version 0 is the analysis result itself
+CREATE TABLE IF NOT EXISTS refinement_threads (
+  analysis_id VARCHAR(36) PRIMARY KEY,
+  user_id VARCHAR(36) NOT NULL,
+  active_version INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (analysis_id) REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB;
+
+CREATE TABLE IF NOT EXISTS refinement_turns (
+  id VARCHAR(36) PRIMARY KEY,
+  analysis_id VARCHAR(36) NOT NULL,
+  version INT NOT NULL,
+  based_on_version INT NOT NULL,
+  feedback TEXT NOT NULL,
+  result JSON NOT NULL,
+  credits_charged INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (analysis_id) REFERENCES refinement_threads(analysis_id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_thread_version (analysis_id, version)
+) ENGINE=InnoDB;
+
+-- Where a history item's photo was really taken, and how far off the prediction was
+CREATE TABLE IF NOT EXISTS ground_truth (
+  history_id VARCHAR(36) PRIMARY KEY,
+  lat DECIMAL(10, 8) NOT NULL,
+  lng DECIMAL(11, 8) NOT NULL,
+  source ENUM('own_photo', 'street_view', 'photo_metadata', 'other') NOT NULL,
+  note VARCHAR(500),
+  confirmed_by VARCHAR(36) NOT NULL,
+  -- Evaluation of the prediction at the time it was confirmed (or last refined)
+  error_km DECIMAL(10, 3),
+  country_correct BOOLEAN,
+  city_correct BOOLEAN,
+  true_country_code CHAR(2),
+  true_city VARCHAR(200),
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (history_id) REFERENCES search_history(id) ON DELETE CASCADE,
+  FOREIGN KEY (confirmed_by) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB;
+
 -- Insert default settings
 INSERT INTO system_settings (setting_key, setting_value) VALUES
   ('search_cost', '10'),
   ('default_credits', '100'),
-  ('cloud_vision_cost', '5')
+  ('cloud_vision_cost', '5'),
+  ('cache_ttl_hours', '168'),
+  ('cache_hit_cost', '1'),
+  ('timeout_cloud_vision_seconds', '30'),
+  ('timeout_serp_api_seconds', '60'),
+  ('timeout_clue_expert_seconds', '120'),
+  ('timeout_final_search_seconds', '240'),
+  ('timeout_analysis_seconds', '900'),
+  ('refine_free_per_analysis', '3'),
+  ('refine_cost', '2'),
+  ('candidates_search_cost', '20'),
+  ('thorough_search_cost', '30')
 ON DUPLICATE KEY UPDATE setting_value = VALUES(setting_value);
 
 -- Create default admin user (password: admin123 - CHANGE IN PRODUCTION!)
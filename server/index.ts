@@ -9,6 +9,11 @@ import historyRoutes from './routes/history.js';
 import settingsRoutes from './routes/settings.js';
 import analyzeRoutes from './routes/analyze.js';
 import tempImagesRoutes from './routes/tempImages.js';
+import promptsRoutes from './routes/prompts.js';
+import usageRoutes from './routes/usage.js';
+import accuracyRoutes from './routes/accuracy.js';
+import { recoverAnalysisJobs } from './services/analysisJobService.js';
+import { seedPromptRegistry } from './services/promptRegistry.js';
 
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -39,6 +44,9 @@ app.use('/api/history', historyRoutes);
 app.use('/api/settings', settingsRoutes);
 app.use('/api/analyze', analyzeRoutes);
 app.use('/api/temp-images', tempImagesRoutes);
+app.use('/api/prompts', promptsRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/accuracy', accuracyRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -57,6 +65,20 @@ async function start() {
     process.exit(1);
   }
 
+  // Make sure every built-in prompt has a registry version
+  try {
+    await seedPromptRegistry();
+  } catch (error) {
+    console.error('Failed to seed prompt registry:', error);
+  }
+
+  // Resume analysis jobs interrupted by a restart
+  try {
+    await recoverAnalysisJobs();
+  } catch (error) {
+    console.error('Failed to recover analysis jobs:', error);
+  }
+
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
     console.log(`API available at http://localhost:${PORT}/api`);
@@ -1,287 +1,340 @@
-import { Router } from 'express';
-import { query, queryOne, execute } from '../db/connection.js';
-import { DbUser, DbSystemSetting, DbUserSetting, PREMIUM_SERVICES } from '../db/models.js';
+import { Router, Response } from 'express';
+import { query, queryOne } from '../db/connection.js';
+import { DbAnalysisJob, dbJobToSummary, dbJobToDetail } from '../db/models.js';
 import { createError } from '../middleware/errorHandler.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
-import { analyzeImageLocation, refineImageLocation } from '../services/geminiService.js';
 import {
-  extractExifFromMultiple,
-  validateGpsCoordinates,
-  formatGpsForPrompt,
-  ExifResult
-} from '../services/exifService.js';
+  runAnalysisPipeline,
+  validateAnalysisImages,
+  parseAnalysisMode
+} from '../services/analysisPipeline.js';
 import {
-  performWebDetection,
-  formatVisionResultForPrompt,
-  CloudVisionResult
-} from '../services/cloudVisionService.js';
-import {
-  saveTempImage,
-  deleteTempImage,
-  getTempImageUrl,
-  performGoogleLensSearch,
-  formatSerpApiResultForPrompt,
-  SerpApiResult
-} from '../services/serpApiService.js';
+  createAnalysisJob,
+  cancelAnalysisJob,
+  loadJobImages,
+  watchAnalysisJob,
+  AnalysisJobUpdate
+} from '../services/analysisJobService.js';
+import { AnalysisProgressEvent } from '../services/analysisProgress.js';
+import { getActivePromptSet } from '../services/promptRegistry.js';
+import { cancelledError } from '../services/analysisDeadlines.js';
+import { getRefinementThread, refineAnalysis, revertRefinement } from '../services/refinementService.js';
 
 const router = Router();
 
 router.use(authenticate);
 
+// ============ SERVER-SENT EVENTS ============
+
+// Clients opt in to live progress with "Accept: text/event-stream"
+const wantsEventStream = (req: AuthRequest): boolean =>
+  (req.headers.accept || '').includes('text/event-stream');
+
+const openEventStream = (res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'  // disable nginx buffering
+  });
+  res.flushHeaders();
+
+  // Keep idle proxies from closing the connection during long phases
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  return {
+    send(event: string, data: unknown) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      clearInterval(heartbeat);
+      res.end();
+    }
+  };
+};
+
+// Base URL SerpAPI uses to fetch temp images (from env or the request host)
+const getServerBaseUrl = (req: AuthRequest): string =>
+  process.env.SERVER_PUBLIC_URL || `http://${req.headers.host}`;
+
 // POST /api/analyze - Analyze image(s) for geolocation
+// Send "Accept: text/event-stream" to receive progress events followed by a
+// final "result" (or "error") event instead of a single JSON response.
+// Closing the connection before the result arrives cancels the analysis.
 router.post('/', async (req: AuthRequest, res, next) => {
+  const stream = wantsEventStream(req) ? openEventStream(res) : null;
+  const onProgress = stream
+    ? (event: AnalysisProgressEvent) => stream.send('progress', event)
+    : undefined;
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort(cancelledError());
+  });
+
   try {
-    const { images, hints } = req.body;
+    const { images, hints, mode, forceRefresh } = req.body;
 
-    if (!images || !Array.isArray(images) || images.length === 0) {
-      throw createError('At least one image is required', 400, 'NO_IMAGES');
-    }
+    const payload = {
+      success: true,
+      ...await runAnalysisPipeline({
+        userId: req.userId!,
+        images,
+        hints,
+        mode: parseAnalysisMode(mode),
+        forceRefresh: forceRefresh === true,
+        serverBaseUrl: getServerBaseUrl(req),
+        onProgress,
+        signal: controller.signal
+      })
+    };
 
-    if (images.length > 4) {
-      throw createError('Maximum 4 images allowed', 400, 'TOO_MANY_IMAGES');
+    if (stream) {
+      stream.send('result', payload);
+      stream.close();
+    } else {
+      res.json(payload);
     }
-
-    // === STEP 1: Extract EXIF data ===
-    let exifData: { index: number; result: ExifResult } | null = null;
-    let exifHint: string | null = null;
-
-    try {
-      exifData = await extractExifFromMultiple(images);
-      if (exifData?.result.hasGps && exifData.result.gps) {
-        const { latitude, longitude } = exifData.result.gps;
-        if (validateGpsCoordinates(latitude, longitude)) {
-          exifHint = formatGpsForPrompt(exifData.result.gps);
-        }
-      }
-    } catch {
-      // EXIF extraction is non-critical, continue without it
+  } catch (error: any) {
+    // Headers are already sent when streaming - report the error as an event
+    if (stream) {
+      console.error('Error:', error.message);
+      stream.send('error', {
+        success: false,
+        error: { message: error.message || 'Internal Server Error', code: error.code || 'INTERNAL_ERROR' }
+      });
+      stream.close();
+      return;
     }
+    next(error);
+  }
+});
 
-    // === STEP 1.5: Check user's premium service settings ===
-    const userSettings = await query<DbUserSetting[]>(
-      'SELECT * FROM user_settings WHERE user_id = ?',
-      [req.userId]
+// ============ ANALYSIS JOBS ============
+
+// Load a job owned by the requesting user or throw 404
+const getOwnedJob = async (req: AuthRequest): Promise<DbAnalysisJob> => {
+  const job = await queryOne<DbAnalysisJob>(
+    'SELECT * FROM analysis_jobs WHERE id = ? AND user_id = ?',
+    [req.params.id, req.userId]
+  );
+  if (!job) {
+    throw createError('Analysis job not found', 404, 'JOB_NOT_FOUND');
+  }
+  return job;
+};
+
+// POST /api/analyze/jobs - Queue an analysis and return its job id immediately
+router.post('/jobs', async (req: AuthRequest, res, next) => {
+  try {
+    const { images, hints, mode, forceRefresh } = req.body;
+    validateAnalysisImages(images);
+
+    const job = await createAnalysisJob(
+      req.userId!,
+      images,
+      hints,
+      parseAnalysisMode(mode),
+      forceRefresh === true,
+      getServerBaseUrl(req)
     );
-    const userSettingsMap: Record<string, string> = {};
-    userSettings.forEach(s => {
-      userSettingsMap[s.setting_key] = s.setting_value;
+
+    res.status(202).json({
+      success: true,
+      job: dbJobToSummary(job)
     });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    const cloudVisionEnabled = userSettingsMap[PREMIUM_SERVICES.CLOUD_VISION] === 'true';
-    const serpApiEnabled = userSettingsMap[PREMIUM_SERVICES.SERP_API] === 'true';
-
-    // === STEP 1.6: Perform Cloud Vision if enabled ===
-    let cloudVisionResult: CloudVisionResult | null = null;
-    let cloudVisionHint: string | null = null;
-
-    if (cloudVisionEnabled) {
-      console.log('[CloudVision] Cloud Vision enabled, performing web detection...');
-      try {
-        cloudVisionResult = await performWebDetection(images[0].base64);
-        cloudVisionHint = formatVisionResultForPrompt(cloudVisionResult);
-        console.log('[CloudVision] Success! Found:');
-        console.log(`  Best guess: ${cloudVisionResult.bestGuessLabels.join(', ') || '(none)'}`);
-        console.log(`  Location hints: ${cloudVisionResult.locationHints.join(', ') || '(none)'}`);
-        console.log(`  Pages with matches: ${cloudVisionResult.pagesWithMatchingImages.length}`);
-        console.log(`  Web entities: ${cloudVisionResult.webEntities.slice(0, 5).map(e => e.description).join(', ')}`);
-      } catch (err: any) {
-        console.error('Cloud Vision API error:', err.message || err);
-        // Cloud Vision is non-critical, continue without it
-      }
-    } else {
-      console.log('[CloudVision] Cloud Vision not enabled for this user');
-    }
+// GET /api/analyze/jobs - List the user's recent jobs
+router.get('/jobs', async (req: AuthRequest, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    // Note: LIMIT and OFFSET are interpolated directly (safe - they're validated integers)
+    const jobs = await query<DbAnalysisJob[]>(
+      `SELECT * FROM analysis_jobs
+       WHERE user_id = ?
+       ORDER BY created_at DESC
+       LIMIT ${limit} OFFSET ${offset}`,
+      [req.userId]
+    );
 
-    // === STEP 1.7: Perform SerpAPI Google Lens if enabled ===
-    let serpApiResult: SerpApiResult | null = null;
-    let serpApiHint: string | null = null;
-    let tempImageFilename: string | null = null;
-
-    if (serpApiEnabled) {
-      console.log('[SerpAPI] Google Lens enabled, performing reverse image search...');
-      try {
-        // Save image temporarily
-        tempImageFilename = saveTempImage(images[0].base64);
-
-        // Get server base URL (from env or construct from request)
-        const serverBaseUrl = process.env.SERVER_PUBLIC_URL || `http://${req.headers.host}`;
-        const imageUrl = getTempImageUrl(tempImageFilename, serverBaseUrl);
-
-        console.log('[SerpAPI] Temp image URL:', imageUrl);
-
-        // Perform Google Lens search
-        serpApiResult = await performGoogleLensSearch(imageUrl);
-        serpApiHint = formatSerpApiResultForPrompt(serpApiResult);
-
-        console.log('[SerpAPI] Success! Found:');
-        console.log(`  Visual matches: ${serpApiResult.visualMatches.length}`);
-        console.log(`  Knowledge graph: ${serpApiResult.knowledgeGraph?.title || '(none)'}`);
-        console.log(`  Location hints: ${serpApiResult.locationHints.slice(0, 5).join(', ') || '(none)'}`);
-
-        // Clean up temp image
-        if (tempImageFilename) {
-          deleteTempImage(tempImageFilename);
-          tempImageFilename = null;
-        }
-      } catch (err: any) {
-        console.error('[SerpAPI] Error:', err.message || err);
-        // Clean up on error
-        if (tempImageFilename) {
-          deleteTempImage(tempImageFilename);
-        }
-        // SerpAPI is non-critical, continue without it
-      }
-    } else {
-      console.log('[SerpAPI] Google Lens not enabled for this user');
-    }
+    res.json({
+      success: true,
+      jobs: jobs.map(dbJobToSummary)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Get search cost
-    const costSetting = await queryOne<DbSystemSetting>(
-      'SELECT setting_value FROM system_settings WHERE setting_key = ?',
-      ['search_cost']
-    );
-    const searchCost = costSetting ? parseInt(costSetting.setting_value) : 10;
-
-    // Get Cloud Vision cost if enabled
-    let cloudVisionCost = 0;
-    if (cloudVisionEnabled) {
-      const visionCostSetting = await queryOne<DbSystemSetting>(
-        'SELECT setting_value FROM system_settings WHERE setting_key = ?',
-        ['cloud_vision_cost']
-      );
-      cloudVisionCost = visionCostSetting ? parseInt(visionCostSetting.setting_value) : 5;
-    }
+// GET /api/analyze/jobs/:id - Job status, progress so far and result once completed
+router.get('/jobs/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const job = await getOwnedJob(req);
 
-    // Get SerpAPI cost if enabled
-    let serpApiCost = 0;
-    if (serpApiEnabled) {
-      const serpApiCostSetting = await queryOne<DbSystemSetting>(
-        'SELECT setting_value FROM system_settings WHERE setting_key = ?',
-        ['serp_api_cost']
-      );
-      serpApiCost = serpApiCostSetting ? parseInt(serpApiCostSetting.setting_value) : 10;
-    }
+    res.json({
+      success: true,
+      job: dbJobToDetail(job)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    const totalCost = searchCost + cloudVisionCost + serpApiCost;
+// POST /api/analyze/jobs/:id/cancel - Cancel a queued or running job. Responds
+// once the job has stopped, with its final state (including what was refunded)
+router.post('/jobs/:id/cancel', async (req: AuthRequest, res, next) => {
+  try {
+    const job = await getOwnedJob(req);
+    await cancelAnalysisJob(job);
 
-    // Check user credits
-    const user = await queryOne<DbUser>(
-      'SELECT * FROM users WHERE id = ?',
-      [req.userId]
-    );
+    res.json({
+      success: true,
+      job: dbJobToSummary(await getOwnedJob(req))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (!user) {
-      throw createError('User not found', 404, 'USER_NOT_FOUND');
-    }
+// GET /api/analyze/jobs/:id/images - Images submitted with the job (to restore previews)
+router.get('/jobs/:id/images', async (req: AuthRequest, res, next) => {
+  try {
+    const job = await getOwnedJob(req);
+    const images = loadJobImages(job.id);
 
-    if (user.credits < totalCost) {
-      throw createError(
-        `Insufficient credits. Need ${totalCost}, have ${user.credits}`,
-        402,
-        'INSUFFICIENT_CREDITS'
-      );
+    if (!images) {
+      throw createError('Job images are no longer available', 404, 'JOB_IMAGES_MISSING');
     }
 
-    // Deduct credits
-    await execute(
-      'UPDATE users SET credits = credits - ? WHERE id = ?',
-      [totalCost, req.userId]
-    );
+    res.json({
+      success: true,
+      images
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // === STEP 2: Perform AI analysis (with EXIF and reverse image search hints if available) ===
-    // Prefer SerpAPI (Google Lens) over Cloud Vision as it provides actual reverse image search
-    const reverseSearchHint = serpApiHint || cloudVisionHint;
+// GET /api/analyze/jobs/:id/events - Server-Sent Events for a job: replays the
+// progress so far, streams live events, then ends with "result" or "error"
+router.get('/jobs/:id/events', async (req: AuthRequest, res, next) => {
+  let job: DbAnalysisJob;
+  try {
+    job = await getOwnedJob(req);
+  } catch (error) {
+    return next(error);
+  }
 
-    // Extract confirmed locations from SerpAPI (high-confidence location hints)
-    const confirmedLocations = serpApiResult?.locationHints?.filter(
-      loc => loc.length > 2 && /^[A-Z]/.test(loc) // Only proper nouns (capitalized)
-    ) || [];
+  const stream = openEventStream(res);
+
+  const sendUpdate = (update: AnalysisJobUpdate) => {
+    switch (update.type) {
+      case 'progress':
+        stream.send('progress', update.event);
+        break;
+      case 'completed':
+        stream.send('result', { success: true, ...update.payload });
+        stream.close();
+        break;
+      case 'failed':
+        stream.send('error', { success: false, error: update.error });
+        stream.close();
+        break;
+    }
+  };
 
-    const enhancedHints = {
-      ...hints,
-      exifGps: exifHint, // Pass EXIF data to Gemini
-      reverseImageSearch: reverseSearchHint, // Pass reverse image search results to Gemini
-      confirmedLocations: confirmedLocations.length > 0 ? confirmedLocations : undefined
-    };
+  const unsubscribe = watchAnalysisJob(job.id, update => {
+    sendUpdate(update);
+    if (update.type !== 'progress') unsubscribe?.();
+  });
 
-    if (confirmedLocations.length > 0) {
-      console.log(`[Analyze] Confirmed locations from SerpAPI: ${confirmedLocations.join(', ')}`);
-    }
+  if (unsubscribe) {
+    req.on('close', unsubscribe);
+    return;
+  }
 
-    const result = await analyzeImageLocation(images, enhancedHints);
+  // Not active in this process - the job has finished, report its final state
+  try {
+    const finished = await getOwnedJob(req);
+    const detail = dbJobToDetail(finished);
+    detail.progress.forEach(event => stream.send('progress', event));
 
-    // If EXIF had coordinates but AI didn't use them, add them
-    if (exifData?.result.hasGps && exifData.result.gps && !result.coordinates) {
-      result.coordinates = {
-        lat: exifData.result.gps.latitude,
-        lng: exifData.result.gps.longitude
-      };
-      result.reasoning.unshift('Location coordinates extracted from image EXIF metadata.');
-      result.confidenceScore = Math.max(result.confidenceScore, 85);
+    if (finished.status === 'completed' && detail.result) {
+      sendUpdate({ type: 'completed', payload: detail.result });
+    } else {
+      sendUpdate({
+        type: 'failed',
+        error: detail.error || { message: 'Analysis job was interrupted', code: 'JOB_INTERRUPTED' }
+      });
     }
+  } catch (error: any) {
+    sendUpdate({
+      type: 'failed',
+      error: { message: error.message || 'Internal Server Error', code: error.code || 'INTERNAL_ERROR' }
+    });
+  }
+});
 
-    // Return result with updated credits
-    const updatedUser = await queryOne<DbUser>(
-      'SELECT credits FROM users WHERE id = ?',
-      [req.userId]
-    );
+// ============ REFINEMENT ============
+
+// GET /api/analyze/jobs/:id/refinements - Refinement thread of a completed analysis
+router.get('/jobs/:id/refinements', async (req: AuthRequest, res, next) => {
+  try {
+    const thread = await getRefinementThread(await getOwnedJob(req));
 
     res.json({
       success: true,
-      result,
-      exifData: exifData?.result || null,
-      cloudVisionData: cloudVisionResult,
-      serpApiData: serpApiResult,
-      creditsRemaining: updatedUser?.credits || 0,
-      cost: totalCost
+      thread
     });
-  } catch (error: any) {
-    // Refund credits on error (if already deducted)
-    // Note: We try to refund the total cost that was charged
-    if (error.code !== 'INSUFFICIENT_CREDITS' && req.userId) {
-      try {
-        // Get costs to calculate refund amount
-        const [searchCostSetting, visionCostSetting, serpApiCostSetting] = await Promise.all([
-          queryOne<DbSystemSetting>('SELECT setting_value FROM system_settings WHERE setting_key = ?', ['search_cost']),
-          queryOne<DbSystemSetting>('SELECT setting_value FROM system_settings WHERE setting_key = ?', ['cloud_vision_cost']),
-          queryOne<DbSystemSetting>('SELECT setting_value FROM system_settings WHERE setting_key = ?', ['serp_api_cost'])
-        ]);
-        const userSettings = await query<DbUserSetting[]>('SELECT * FROM user_settings WHERE user_id = ?', [req.userId]);
-        const visionEnabled = userSettings.some(s => s.setting_key === PREMIUM_SERVICES.CLOUD_VISION && s.setting_value === 'true');
-        const serpEnabled = userSettings.some(s => s.setting_key === PREMIUM_SERVICES.SERP_API && s.setting_value === 'true');
-
-        const searchCost = searchCostSetting ? parseInt(searchCostSetting.setting_value) : 10;
-        const visionCost = visionEnabled && visionCostSetting ? parseInt(visionCostSetting.setting_value) : 0;
-        const serpCost = serpEnabled && serpApiCostSetting ? parseInt(serpApiCostSetting.setting_value) : 0;
-        const refundAmount = searchCost + visionCost + serpCost;
-
-        await execute(
-          'UPDATE users SET credits = credits + ? WHERE id = ?',
-          [refundAmount, req.userId]
-        );
-      } catch (refundError) {
-        console.error('Failed to refund credits:', refundError);
-      }
-    }
+  } catch (error) {
     next(error);
   }
 });
 
-// POST /api/analyze/refine - Refine analysis with user feedback
-router.post('/refine', async (req: AuthRequest, res, next) => {
+// POST /api/analyze/jobs/:id/refinements - Refine the active version with user feedback
+// (402 INSUFFICIENT_CREDITS once the free refinements are used up and credits run out)
+router.post('/jobs/:id/refinements', async (req: AuthRequest, res, next) => {
   try {
-    const { images, previousResult, userFeedback, hints } = req.body;
+    const { feedback, hints } = req.body;
+    const job = await getOwnedJob(req);
 
-    if (!previousResult || !userFeedback) {
-      throw createError('Previous result and feedback required', 400, 'MISSING_DATA');
-    }
+    // Closing the connection before the answer arrives cancels the refinement
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort(cancelledError());
+    });
+
+    // Free up to the per-analysis allowance, then charged like an analysis
+    const { thread, version, creditsRemaining } = await refineAnalysis(job, feedback, hints, {
+      prompts: await getActivePromptSet(),
+      signal: controller.signal
+    });
 
-    // Refinement is free (credits already spent on initial analysis)
-    const result = await refineImageLocation(images, previousResult, userFeedback, hints);
+    res.json({
+      success: true,
+      thread,
+      version,
+      creditsRemaining
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/analyze/jobs/:id/refinements/revert - Make an earlier version active again
+router.post('/jobs/:id/refinements/revert', async (req: AuthRequest, res, next) => {
+  try {
+    const thread = await revertRefinement(await getOwnedJob(req), req.body.version);
 
     res.json({
       success: true,
-      result
+      thread
     });
   } catch (error) {
     next(error);
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { query, execute } from '../db/connection.js';
+import { query, queryOne, execute } from '../db/connection.js';
 import { DbSearchHistory, dbHistoryToItem } from '../db/models.js';
 import { createError } from '../middleware/errorHandler.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { deleteJobImages } from '../services/analysisJobService.js';
+import { loadGroundTruth, setGroundTruth, clearGroundTruth } from '../services/groundTruth.js';
 
 const router = Router();
 
@@ -24,9 +26,14 @@ router.get('/', async (req: AuthRequest, res, next) => {
       [req.userId]
     );
 
+    const groundTruth = await loadGroundTruth(history.map(item => item.id));
+
     res.json({
       success: true,
-      history: history.map(dbHistoryToItem)
+      history: history.map(item => ({
+        ...dbHistoryToItem(item),
+        groundTruth: groundTruth.get(item.id) || null
+      }))
     });
   } catch (error) {
     next(error);
@@ -49,6 +56,8 @@ router.delete('/:id', async (req: AuthRequest, res, next) => {
     }
 
     await execute('DELETE FROM search_history WHERE id = ?', [id]);
+    // Entries created by analysis jobs share the job id - drop the stored images too
+    deleteJobImages(id);
 
     res.json({ success: true });
   } catch (error) {
@@ -66,6 +75,7 @@ router.post('/', async (req: AuthRequest, res, next) => {
       reasoning,
       visualCues,
       sources,
+      promptVersions,
       cost
     } = req.body;
 
@@ -73,8 +83,8 @@ router.post('/', async (req: AuthRequest, res, next) => {
 
     await execute(
       `INSERT INTO search_history
-       (id, user_id, location_name, lat, lng, confidence_score, reasoning, visual_cues, sources, cost)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+       (id, user_id, location_name, lat, lng, confidence_score, reasoning, visual_cues, sources, prompt_versions, cost)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         req.userId,
@@ -85,6 +95,7 @@ router.post('/', async (req: AuthRequest, res, next) => {
         reasoning ? JSON.stringify(reasoning) : null,
         visualCues ? JSON.stringify(visualCues) : null,
         sources ? JSON.stringify(sources) : null,
+        promptVersions ? JSON.stringify(promptVersions) : null,
         cost || 10
       ]
     );
@@ -98,4 +109,46 @@ router.post('/', async (req: AuthRequest, res, next) => {
   }
 });
 
+// ============ GROUND TRUTH ============
+
+// Load a history item owned by the requesting user or throw 404
+const getOwnedHistory = async (req: AuthRequest): Promise<DbSearchHistory> => {
+  const item = await queryOne<DbSearchHistory>(
+    'SELECT * FROM search_history WHERE id = ? AND user_id = ?',
+    [req.params.id, req.userId]
+  );
+  if (!item) {
+    throw createError('History item not found', 404);
+  }
+  return item;
+};
+
+// PUT /api/history/:id/ground-truth - Record where the photo was really taken
+// ({ coordinates: { lat, lng }, source, note? }) and evaluate the prediction
+router.put('/:id/ground-truth', async (req: AuthRequest, res, next) => {
+  try {
+    const item = await getOwnedHistory(req);
+    const groundTruth = await setGroundTruth(item, req.userId!, req.body);
+
+    res.json({
+      success: true,
+      groundTruth
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/history/:id/ground-truth - Remove the recorded true location
+router.delete('/:id/ground-truth', async (req: AuthRequest, res, next) => {
+  try {
+    const item = await getOwnedHistory(req);
+    await clearGroundTruth(item.id);
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
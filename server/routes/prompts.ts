@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { dbPromptVersionToItem } from '../db/models.js';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import {
+  listPrompts,
+  listPromptVersions,
+  createPromptVersion,
+  activatePromptVersion,
+  rollbackPrompt
+} from '../services/promptRegistry.js';
+
+const router = Router();
+
+// All routes require admin
+router.use(authenticate, requireAdmin);
+
+// GET /api/prompts - List prompt keys with their active versions
+router.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const prompts = await listPrompts();
+
+    res.json({
+      success: true,
+      prompts
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/prompts/:key/versions - All versions of a prompt, newest first
+router.get('/:key/versions', async (req: AuthRequest, res, next) => {
+  try {
+    const versions = await listPromptVersions(req.params.key);
+
+    res.json({
+      success: true,
+      versions: versions.map(dbPromptVersionToItem)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/prompts/:key/versions - Create a new version (optionally activating it)
+router.post('/:key/versions', async (req: AuthRequest, res, next) => {
+  try {
+    const { content, note, activate } = req.body;
+
+    const version = await createPromptVersion(
+      req.params.key,
+      content,
+      typeof note === 'string' ? note : null,
+      req.userId || null,
+      activate === true
+    );
+
+    res.status(201).json({
+      success: true,
+      version: dbPromptVersionToItem(version)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/prompts/:key/versions/:id/activate - Activate any version
+router.post('/:key/versions/:id/activate', async (req: AuthRequest, res, next) => {
+  try {
+    const version = await activatePromptVersion(req.params.key, req.params.id);
+
+    res.json({
+      success: true,
+      version: dbPromptVersionToItem(version)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/prompts/:key/rollback - Re-activate the version before the active one
+router.post('/:key/rollback', async (req: AuthRequest, res, next) => {
+  try {
+    const version = await rollbackPrompt(req.params.key);
+
+    res.json({
+      success: true,
+      version: dbPromptVersionToItem(version)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
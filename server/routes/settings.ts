@@ -3,6 +3,7 @@ import { query, queryOne, execute } from '../db/connection.js';
 import { DbSystemSetting, DbUserSetting, PREMIUM_SERVICES, PremiumServiceInfo } from '../db/models.js';
 import { createError } from '../middleware/errorHandler.js';
 import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { getAnalysisTimeouts, TIMEOUT_SETTING_KEYS, AnalysisTimeouts } from '../services/analysisDeadlines.js';
 
 const router = Router();
 
@@ -38,7 +39,14 @@ const fetchSystemSettings = async () => {
   const obj = settingsToObject(settings);
   return {
     searchCost: parseInt(obj.search_cost || '10'),
+    candidatesSearchCost: parseInt(obj.candidates_search_cost || '20'),  // up to 3 final searches
+    thoroughSearchCost: parseInt(obj.thorough_search_cost || '30'),  // 5 final searches
     defaultCredits: parseInt(obj.default_credits || '100'),
+    cacheTtlHours: parseInt(obj.cache_ttl_hours || '168'),  // 0 disables the result cache
+    cacheHitCost: parseInt(obj.cache_hit_cost || '1'),
+    refineFreePerAnalysis: parseInt(obj.refine_free_per_analysis || '3'),
+    refineCost: parseInt(obj.refine_cost || '2'),  // per refinement once the free ones are used
+    timeouts: await getAnalysisTimeouts(),  // provider call and analysis deadlines, in seconds
     premiumServices: PREMIUM_SERVICE_DEFS.map(svc => ({
       key: svc.key,
       name: svc.name,
@@ -72,13 +80,27 @@ const upsertSetting = async (key: string, value: number) => {
 // PATCH /api/settings - Update system settings (admin only)
 router.patch('/', authenticate, requireAdmin, async (req: AuthRequest, res, next) => {
   try {
-    const { searchCost, defaultCredits, cloudVisionCost, serpApiCost } = req.body;
+    const {
+      searchCost, candidatesSearchCost, thoroughSearchCost, defaultCredits, cloudVisionCost, serpApiCost,
+      cacheTtlHours, cacheHitCost, refineFreePerAnalysis, refineCost
+    } = req.body;
+    const timeouts: Partial<AnalysisTimeouts> = req.body.timeouts && typeof req.body.timeouts === 'object'
+      ? req.body.timeouts
+      : {};
 
     await Promise.all([
       upsertSetting('search_cost', searchCost),
+      upsertSetting('candidates_search_cost', candidatesSearchCost),
+      upsertSetting('thorough_search_cost', thoroughSearchCost),
       upsertSetting('default_credits', defaultCredits),
       upsertSetting('cloud_vision_cost', cloudVisionCost),
       upsertSetting('serp_api_cost', serpApiCost),
+      upsertSetting('cache_ttl_hours', cacheTtlHours),
+      upsertSetting('cache_hit_cost', cacheHitCost),
+      upsertSetting('refine_free_per_analysis', refineFreePerAnalysis),
+      upsertSetting('refine_cost', refineCost),
+      ...(Object.keys(TIMEOUT_SETTING_KEYS) as Array<keyof AnalysisTimeouts>)
+        .map(field => upsertSetting(TIMEOUT_SETTING_KEYS[field], timeouts[field] as number)),
     ]);
 
     const settings = await fetchSystemSettings();
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { createError } from '../middleware/errorHandler.js';
+import { getUsageReport } from '../services/usageMeter.js';
+
+const router = Router();
+
+const MAX_REPORT_DAYS = 365;
+
+// All routes require admin
+router.use(authenticate, requireAdmin);
+
+// GET /api/usage/report?days=30 - Provider usage and estimated cost by user, day and service
+router.get('/report', async (req: AuthRequest, res, next) => {
+  try {
+    const days = req.query.days === undefined ? 30 : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+      throw createError(`days must be a whole number between 1 and ${MAX_REPORT_DAYS}`, 400, 'INVALID_DAYS');
+    }
+
+    const report = await getUsageReport(days);
+
+    res.json({
+      success: true,
+      report
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,334 @@
+/**
+ * Offline benchmark for the geolocation pipeline
+ * Runs analyzeImageLocation over a folder of labeled images and scores the
+ * results (median error, accuracy at 1/25/200/750/2500 km, country accuracy,
+ * confidence calibration). Optionally compares every case with an earlier run.
+ *
+ * Run: npx tsx scripts/benchmark.ts <folder> [options]
+ *   --provider gemini|fake   model provider (default: MODEL_PROVIDER or gemini)
+ *   --fixture <file>         fake provider fixture for cases without their own
+ *   --mode single|candidates|thorough
+ *   --prompts builtin|active built-in prompts (default) or the active registry
+ *                            versions (needs the database)
+ *   --only <id,id,...>       run only these cases
+ *   --compare <report.json>  per-case diff against a previous report
+ *   --out <report.json>      default: <folder>/reports/<timestamp>.json
+ *
+ * <folder>/manifest.json:
+ *   {
+ *     "name": "street-level-v1",
+ *     "cases": [
+ *       { "id": "paris-01", "images": ["paris-01.jpg"], "lat": 48.8584, "lng": 2.2945,
+ *         "hints": { "continent": "Europe" }, "fixture": "fixtures/paris-01.json" }
+ *     ]
+ *   }
+ * Image and fixture paths are relative to the folder; a fixture may also be a
+ * recording bundle (RECORD_ANALYSES_DIR). Only the model pipeline runs - EXIF
+ * GPS, Cloud Vision and SerpAPI hints are not used, so the score reflects the
+ * prompts and aggregation alone.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { analyzeImageLocation, ANALYSIS_MODES, AnalysisMode, LocationHints, GeoAnalysisResult } from '../services/geminiService.js';
+import { getModelProvider, ModelProvider } from '../services/modelProvider.js';
+import { createFakeProvider } from '../services/fakeModelProvider.js';
+import { createUsageMeter, meterModelProvider } from '../services/usageMeter.js';
+import { withResilience } from '../services/providerResilience.js';
+import { getActivePromptSet } from '../services/promptRegistry.js';
+import { evaluatePrediction } from '../services/groundTruth.js';
+import { summarizeAccuracy, AccuracySummary, ACCURACY_THRESHOLDS_KM } from '../services/accuracyMetrics.js';
+
+dotenv.config();
+
+interface BenchmarkCase {
+  id: string;
+  images: string[];
+  lat: number;
+  lng: number;
+  hints?: LocationHints;
+  fixture?: string;
+}
+
+interface BenchmarkManifest {
+  name?: string;
+  cases: BenchmarkCase[];
+}
+
+interface CaseResult {
+  id: string;
+  truth: { lat: number; lng: number };
+  locationName: string | null;
+  coordinates: { lat: number; lng: number } | null;
+  confidence: number | null;
+  errorKm: number | null;
+  countryCorrect: boolean | null;
+  cityCorrect: boolean | null;
+  trueCountryCode: string | null;
+  durationMs: number;
+  modelCalls: number;
+  costUsd: number;
+  error: string | null;
+}
+
+interface CaseDiff {
+  id: string;
+  change: 'improved' | 'regressed' | 'unchanged' | 'new';
+  previousErrorKm: number | null;
+  errorKm: number | null;
+  previousLocation: string | null;
+  location: string | null;
+}
+
+interface BenchmarkReport {
+  name: string;
+  createdAt: string;
+  provider: string;
+  mode: AnalysisMode;
+  prompts: 'builtin' | 'active';
+  summary: AccuracySummary;
+  totalCostUsd: number;
+  cases: CaseResult[];
+  comparison?: {
+    previousReport: string;
+    previousSummary: AccuracySummary;
+    diffs: CaseDiff[];
+  };
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif'
+};
+
+// ============ ARGUMENTS ============
+
+const parseArgs = (argv: string[]) => {
+  const [folder, ...rest] = argv;
+  const options: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i++) {
+    if (!rest[i].startsWith('--') || rest[i + 1] === undefined) {
+      throw new Error(`Unexpected argument "${rest[i]}"`);
+    }
+    options[rest[i].slice(2)] = rest[++i];
+  }
+  if (!folder) {
+    throw new Error('Usage: npx tsx scripts/benchmark.ts <folder> [--provider gemini|fake] [--compare report.json] ...');
+  }
+  return { folder: path.resolve(folder), options };
+};
+
+const loadManifest = (folder: string): BenchmarkManifest => {
+  const manifest = JSON.parse(fs.readFileSync(path.join(folder, 'manifest.json'), 'utf-8')) as BenchmarkManifest;
+  if (!Array.isArray(manifest.cases) || manifest.cases.length === 0) {
+    throw new Error('manifest.json has no cases');
+  }
+  for (const c of manifest.cases) {
+    if (!c.id || !Array.isArray(c.images) || c.images.length === 0 || !Number.isFinite(c.lat) || !Number.isFinite(c.lng)) {
+      throw new Error(`Case ${c.id || '(no id)'} needs an id, images and numeric lat/lng`);
+    }
+  }
+  return manifest;
+};
+
+const loadImages = (folder: string, files: string[]) =>
+  files.map(file => {
+    const mimeType = MIME_TYPES[path.extname(file).toLowerCase()];
+    if (!mimeType) throw new Error(`Unsupported image type: ${file}`);
+    return { base64: fs.readFileSync(path.join(folder, file)).toString('base64'), mimeType };
+  });
+
+// ============ RUN ============
+
+const runCase = async (
+  folder: string,
+  benchmarkCase: BenchmarkCase,
+  baseProvider: () => ModelProvider,
+  options: { mode: AnalysisMode; prompts?: Awaited<ReturnType<typeof getActivePromptSet>> }
+): Promise<CaseResult> => {
+  const meter = createUsageMeter();
+  const truth = { lat: benchmarkCase.lat, lng: benchmarkCase.lng };
+  const started = Date.now();
+
+  let result: GeoAnalysisResult | null = null;
+  let error: string | null = null;
+  try {
+    const provider = withResilience(meterModelProvider(baseProvider(), meter));
+    result = await analyzeImageLocation(loadImages(folder, benchmarkCase.images), benchmarkCase.hints, {
+      mode: options.mode,
+      prompts: options.prompts,
+      provider
+    });
+    // The final search failed and the experts' region guess stood in - a
+    // provider failure, not the model's answer
+    if (result.fallback) error = 'Final search failed (region guess fallback)';
+  } catch (err: any) {
+    error = err.message || String(err);
+  }
+
+  const coordinates = result?.coordinates || null;
+  const evaluation = result
+    ? await evaluatePrediction({ locationName: result.locationName, coordinates }, truth)
+    : null;
+
+  return {
+    id: benchmarkCase.id,
+    truth,
+    locationName: result?.locationName || null,
+    coordinates,
+    confidence: result?.confidenceScore ?? null,
+    errorKm: evaluation?.errorKm ?? null,
+    // A failed analysis is a miss, not an unjudged case
+    countryCorrect: evaluation ? evaluation.countryCorrect : false,
+    cityCorrect: evaluation ? evaluation.cityCorrect : false,
+    trueCountryCode: evaluation?.trueCountryCode ?? null,
+    durationMs: Date.now() - started,
+    modelCalls: meter.calls.length,
+    costUsd: Math.round(meter.calls.reduce((sum, c) => sum + c.costUsd, 0) * 10000) / 10000,
+    error
+  };
+};
+
+// ============ COMPARISON ============
+
+// Index of the tightest accuracy threshold a result meets (lower is better)
+const accuracyTier = (errorKm: number | null): number => {
+  if (errorKm === null) return ACCURACY_THRESHOLDS_KM.length;
+  const tier = ACCURACY_THRESHOLDS_KM.findIndex(km => errorKm <= km);
+  return tier === -1 ? ACCURACY_THRESHOLDS_KM.length : tier;
+};
+
+const compareCases = (previous: CaseResult[], current: CaseResult[]): CaseDiff[] => {
+  const byId = new Map(previous.map(c => [c.id, c]));
+  return current.map(c => {
+    const before = byId.get(c.id);
+    if (!before) {
+      return { id: c.id, change: 'new', previousErrorKm: null, errorKm: c.errorKm, previousLocation: null, location: c.locationName };
+    }
+    const tierChange = accuracyTier(c.errorKm) - accuracyTier(before.errorKm);
+    const countryChange = Number(!!c.countryCorrect) - Number(!!before.countryCorrect);
+    const change = tierChange < 0 || (tierChange === 0 && countryChange > 0)
+      ? 'improved'
+      : tierChange > 0 || (tierChange === 0 && countryChange < 0) ? 'regressed' : 'unchanged';
+    return {
+      id: c.id,
+      change,
+      previousErrorKm: before.errorKm,
+      errorKm: c.errorKm,
+      previousLocation: before.locationName,
+      location: c.locationName
+    };
+  });
+};
+
+// ============ OUTPUT ============
+
+const formatKm = (km: number | null): string => km === null ? '-' : `${km.toFixed(km < 10 ? 2 : 0)} km`;
+const formatPercent = (value: number | null): string => value === null ? '-' : `${value}%`;
+
+const printSummary = (label: string, summary: AccuracySummary, previous?: AccuracySummary) => {
+  const delta = (now: number | null, before: number | null | undefined, unit: string) =>
+    previous && now !== null && before !== null && before !== undefined
+      ? ` (${now - before >= 0 ? '+' : ''}${Math.round((now - before) * 10) / 10}${unit})`
+      : '';
+
+  console.log(`\n=== ${label} (${summary.count} cases, ${summary.withCoordinates} with coordinates) ===`);
+  console.log(`Median error:     ${formatKm(summary.medianErrorKm)}${delta(summary.medianErrorKm, previous?.medianErrorKm, ' km')}`);
+  console.log(`Mean error:       ${formatKm(summary.meanErrorKm)}`);
+  for (const km of ACCURACY_THRESHOLDS_KM) {
+    const key = String(km);
+    console.log(`Within ${key.padEnd(5)} km: ${formatPercent(summary.accuracyAtKm[key]).padStart(6)}${delta(summary.accuracyAtKm[key], previous?.accuracyAtKm[key], ' pts')}`);
+  }
+  console.log(`Country accuracy: ${formatPercent(summary.countryAccuracy)}${delta(summary.countryAccuracy, previous?.countryAccuracy, ' pts')}`);
+  console.log(`Calibration error: ${summary.calibrationError === null ? '-' : `${summary.calibrationError} pts`}`);
+  for (const bucket of summary.calibration) {
+    console.log(`  confidence ${bucket.range.padEnd(7)} n=${String(bucket.count).padEnd(4)} stated ${bucket.meanConfidence}% vs hit ${bucket.hitRate}%`);
+  }
+};
+
+const printDiffs = (diffs: CaseDiff[]) => {
+  const changed = diffs.filter(d => d.change !== 'unchanged');
+  const count = (change: CaseDiff['change']) => diffs.filter(d => d.change === change).length;
+  console.log(`\n=== Per-case changes: ${count('improved')} improved, ${count('regressed')} regressed, ${count('unchanged')} unchanged, ${count('new')} new ===`);
+  for (const diff of changed) {
+    console.log(`${diff.change.toUpperCase().padEnd(9)} ${diff.id}: ${formatKm(diff.previousErrorKm)} -> ${formatKm(diff.errorKm)}` +
+      ` ("${diff.previousLocation ?? '-'}" -> "${diff.location ?? '-'}")`);
+  }
+};
+
+// ============ MAIN ============
+
+async function benchmark() {
+  const { folder, options } = parseArgs(process.argv.slice(2));
+  const mode = (options.mode || 'single') as AnalysisMode;
+  if (!ANALYSIS_MODES.includes(mode)) {
+    throw new Error(`Unknown mode "${options.mode}" (expected ${ANALYSIS_MODES.join(', ')})`);
+  }
+  const manifest = loadManifest(folder);
+  const promptSource = options.prompts === 'active' ? 'active' : 'builtin';
+  const providerKind = (options.provider || process.env.MODEL_PROVIDER || 'gemini').toLowerCase();
+  const only = options.only ? new Set(options.only.split(',')) : null;
+  const cases = manifest.cases.filter(c => !only || only.has(c.id));
+
+  const prompts = promptSource === 'active' ? await getActivePromptSet() : undefined;
+  // Fake runs get a fresh provider per case so fixture sequences start over
+  const providerFor = (benchmarkCase: BenchmarkCase) => (): ModelProvider => {
+    if (providerKind !== 'fake') return getModelProvider();
+    const fixture = benchmarkCase.fixture ? path.join(folder, benchmarkCase.fixture) : options.fixture || process.env.FAKE_PROVIDER_FIXTURE;
+    return createFakeProvider(fixture);
+  };
+  if (providerKind !== 'fake') process.env.MODEL_PROVIDER = providerKind;
+
+  console.log(`[Benchmark] ${manifest.name || path.basename(folder)}: ${cases.length} cases, ${providerKind} provider, ${mode} mode, ${promptSource} prompts`);
+
+  const results: CaseResult[] = [];
+  for (const [index, benchmarkCase] of cases.entries()) {
+    const result = await runCase(folder, benchmarkCase, providerFor(benchmarkCase), { mode, prompts });
+    results.push(result);
+    console.log(`[Benchmark] ${index + 1}/${cases.length} ${result.id}: ` +
+      (result.error ? `FAILED (${result.error})` : `"${result.locationName}" ${formatKm(result.errorKm)} off, ${result.confidence}% confidence`));
+  }
+
+  const report: BenchmarkReport = {
+    name: manifest.name || path.basename(folder),
+    createdAt: new Date().toISOString(),
+    provider: providerKind,
+    mode,
+    prompts: promptSource,
+    summary: summarizeAccuracy(results.map(r => ({ errorKm: r.errorKm, countryCorrect: r.countryCorrect, confidence: r.confidence }))),
+    totalCostUsd: Math.round(results.reduce((sum, r) => sum + r.costUsd, 0) * 10000) / 10000,
+    cases: results
+  };
+
+  if (options.compare) {
+    const previous = JSON.parse(fs.readFileSync(path.resolve(options.compare), 'utf-8')) as BenchmarkReport;
+    report.comparison = {
+      previousReport: path.resolve(options.compare),
+      previousSummary: previous.summary,
+      diffs: compareCases(previous.cases, results)
+    };
+  }
+
+  printSummary(report.name, report.summary, report.comparison?.previousSummary);
+  console.log(`Estimated cost:   $${report.totalCostUsd}`);
+  if (report.comparison) printDiffs(report.comparison.diffs);
+
+  const outPath = options.out
+    ? path.resolve(options.out)
+    : path.join(folder, 'reports', `${report.createdAt.replace(/[:.]/g, '-')}.json`);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify(report, null, 2));
+  console.log(`\n[Benchmark] Report written to ${outPath}`);
+
+  process.exit(results.every(r => r.error) ? 1 : 0);
+}
+
+benchmark().catch(err => {
+  console.error('Error:', err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+/**
+ * Replay a recorded analysis offline
+ * Runs analyzeImageLocation with the inputs and provider responses captured in
+ * a recording bundle (RECORD_ANALYSES_DIR) and checks that it reaches the same
+ * result. No provider is called and nothing is charged.
+ *
+ * Run: npx tsx scripts/replay.ts <bundle.json> [--out <result.json>]
+ *
+ * Exits non-zero when the replay diverges from the recording: a model call the
+ * bundle does not have, recorded calls left unused, or a different result.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { analyzeImageLocation, GeoAnalysisResult } from '../services/geminiService.js';
+import { loadRecordingBundle, createReplayProvider } from '../services/providerRecording.js';
+
+// The parts of a result a replay must reproduce
+const resultKey = (result: GeoAnalysisResult) => JSON.stringify({
+  locationName: result.locationName,
+  coordinates: result.coordinates,
+  confidenceScore: result.confidenceScore,
+  candidates: result.candidates?.map(c => c.locationName)
+});
+
+async function replay() {
+  const args = process.argv.slice(2);
+  const bundlePath = args.find(arg => !arg.startsWith('--'));
+  const outIndex = args.indexOf('--out');
+  if (!bundlePath) {
+    console.error('Usage: npx tsx scripts/replay.ts <bundle.json> [--out <result.json>]');
+    process.exit(1);
+  }
+
+  const bundle = loadRecordingBundle(bundlePath);
+  const analysis = bundle.analysis;
+  if (!analysis) {
+    throw new Error('The bundle has no analysis inputs (recorded before the model was called)');
+  }
+
+  const provider = createReplayProvider(bundle);
+  console.log(`[Replay] ${path.basename(bundlePath)}: recorded ${bundle.recordedAt}, ${analysis.mode} mode, ` +
+    `${analysis.images.length} image(s), model ${bundle.model || 'unknown'}`);
+
+  let result: GeoAnalysisResult | null = null;
+  let error: string | null = null;
+  try {
+    result = await analyzeImageLocation(analysis.images, analysis.hints, {
+      mode: analysis.mode,
+      prompts: analysis.prompts,
+      captureTime: analysis.captureTime,
+      provider
+    });
+  } catch (err: any) {
+    error = err.message || String(err);
+  }
+
+  const problems: string[] = [];
+  if (error?.startsWith('Replay diverged')) {
+    problems.push(error);
+  } else if (analysis.error !== null || error !== null) {
+    if (error !== analysis.error) problems.push(`Expected error "${analysis.error}", got "${error}"`);
+  } else if (analysis.result && result && resultKey(analysis.result) !== resultKey(result)) {
+    problems.push(`Result differs: recorded "${analysis.result.locationName}" (${analysis.result.confidenceScore}%), ` +
+      `replayed "${result.locationName}" (${result.confidenceScore}%)`);
+  }
+  const unused = provider.unusedCalls();
+  if (Object.keys(unused).length > 0) {
+    problems.push(`Recorded calls not replayed: ${Object.entries(unused).map(([phase, count]) => `${phase} x${count}`).join(', ')}`);
+  }
+
+  if (result) {
+    console.log(`[Replay] "${result.locationName}" (${result.coordinates?.lat}, ${result.coordinates?.lng}), ${result.confidenceScore}% confidence`);
+  } else {
+    console.log(`[Replay] Failed: ${error}`);
+  }
+
+  if (outIndex >= 0 && args[outIndex + 1]) {
+    fs.writeFileSync(path.resolve(args[outIndex + 1]), JSON.stringify({ result, error }, null, 2));
+  }
+
+  if (problems.length > 0) {
+    for (const problem of problems) console.error(`[Replay] DIVERGED: ${problem}`);
+    process.exit(1);
+  }
+  console.log('[Replay] Matches the recording');
+  process.exit(0);
+}
+
+replay().catch(err => {
+  console.error('Error:', err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+/**
+ * Accuracy Metrics
+ * Aggregates graded predictions (error distance, country correctness,
+ * confidence) into the standard geolocation scores: median error, accuracy
+ * within 1 / 25 / 200 / 750 / 2500 km (street / city / region / country /
+ * continent), country accuracy and how well the stated confidence matches the
+ * hit rate.
+ */
+
+export const ACCURACY_THRESHOLDS_KM = [1, 25, 200, 750, 2500];
+
+// A prediction within this distance counts as correct for calibration
+// (the city-level threshold)
+export const CALIBRATION_HIT_KM = 25;
+
+const CALIBRATION_BUCKET_SIZE = 20;  // confidence points per bucket
+
+export interface GradedPrediction {
+  errorKm: number | null;  // null when the prediction had no coordinates
+  countryCorrect: boolean | null;  // null when it could not be judged
+  confidence: number | null;  // 0-100 as stated by the model
+}
+
+export interface CalibrationBucket {
+  range: string;  // "60-79"
+  count: number;
+  meanConfidence: number;  // 0-100
+  hitRate: number;  // 0-100, share within CALIBRATION_HIT_KM
+}
+
+export interface AccuracySummary {
+  count: number;
+  withCoordinates: number;
+  medianErrorKm: number | null;
+  meanErrorKm: number | null;
+  accuracyAtKm: Record<string, number>;  // threshold -> % of all predictions within it
+  countryAccuracy: number | null;  // % of judged predictions with the right country
+  calibration: CalibrationBucket[];
+  calibrationError: number | null;  // expected calibration error in percentage points
+}
+
+export interface ErrorDistanceBin {
+  range: string;  // "25-200 km", "> 2500 km", "no coordinates"
+  count: number;
+}
+
+const round = (value: number, digits: number = 1): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Confidence buckets with their hit rates; predictions without coordinates
+ * count as misses
+ */
+export function calibrationBuckets(predictions: GradedPrediction[]): CalibrationBucket[] {
+  const buckets = new Map<number, GradedPrediction[]>();
+  for (const prediction of predictions) {
+    if (prediction.confidence === null) continue;
+    const start = Math.min(100 - CALIBRATION_BUCKET_SIZE,
+      Math.floor(prediction.confidence / CALIBRATION_BUCKET_SIZE) * CALIBRATION_BUCKET_SIZE);
+    if (!buckets.has(start)) buckets.set(start, []);
+    buckets.get(start)!.push(prediction);
+  }
+
+  return [...buckets.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([start, members]) => ({
+      range: `${start}-${start + CALIBRATION_BUCKET_SIZE === 100 ? 100 : start + CALIBRATION_BUCKET_SIZE - 1}`,
+      count: members.length,
+      meanConfidence: round(members.reduce((sum, p) => sum + p.confidence!, 0) / members.length),
+      hitRate: round(100 * members.filter(p => p.errorKm !== null && p.errorKm <= CALIBRATION_HIT_KM).length / members.length)
+    }));
+}
+
+/**
+ * Summarize a set of graded predictions
+ */
+export function summarizeAccuracy(predictions: GradedPrediction[]): AccuracySummary {
+  const errors = predictions.filter(p => p.errorKm !== null).map(p => p.errorKm!);
+  const judged = predictions.filter(p => p.countryCorrect !== null);
+  const calibration = calibrationBuckets(predictions);
+  const calibrated = calibration.reduce((sum, b) => sum + b.count, 0);
+  const percent = (part: number, whole: number) => whole > 0 ? round(100 * part / whole) : 0;
+
+  const medianErrorKm = median(errors);
+
+  return {
+    count: predictions.length,
+    withCoordinates: errors.length,
+    medianErrorKm: medianErrorKm === null ? null : round(medianErrorKm, 2),
+    meanErrorKm: errors.length > 0 ? round(errors.reduce((sum, e) => sum + e, 0) / errors.length, 2) : null,
+    accuracyAtKm: Object.fromEntries(ACCURACY_THRESHOLDS_KM.map(km =>
+      [String(km), percent(errors.filter(e => e <= km).length, predictions.length)]
+    )),
+    countryAccuracy: judged.length > 0 ? percent(judged.filter(p => p.countryCorrect).length, judged.length) : null,
+    calibration,
+    calibrationError: calibrated > 0
+      ? round(calibration.reduce((sum, b) => sum + b.count * Math.abs(b.meanConfidence - b.hitRate), 0) / calibrated)
+      : null
+  };
+}
+
+/**
+ * How many predictions fall between consecutive accuracy thresholds
+ */
+export function errorDistribution(predictions: GradedPrediction[]): ErrorDistanceBin[] {
+  const bins: ErrorDistanceBin[] = ACCURACY_THRESHOLDS_KM.map((km, i) => ({
+    range: i === 0 ? `0-${km} km` : `${ACCURACY_THRESHOLDS_KM[i - 1]}-${km} km`,
+    count: 0
+  }));
+  bins.push({ range: `> ${ACCURACY_THRESHOLDS_KM[ACCURACY_THRESHOLDS_KM.length - 1]} km`, count: 0 });
+  const missing: ErrorDistanceBin = { range: 'no coordinates', count: 0 };
+
+  for (const { errorKm } of predictions) {
+    if (errorKm === null) {
+      missing.count++;
+      continue;
+    }
+    const index = ACCURACY_THRESHOLDS_KM.findIndex(km => errorKm <= km);
+    bins[index === -1 ? bins.length - 1 : index].count++;
+  }
+
+  return missing.count > 0 ? [...bins, missing] : bins;
+}
@@ -0,0 +1,233 @@
+/**
+ * Analysis Result Cache
+ * Remembers each user's analysis results by image content so re-uploading the
+ * same screenshot returns the previous result at a reduced cost instead of
+ * re-running (and re-charging) every provider. Images match on an exact
+ * SHA-256 of their bytes or, for re-encoded/resized copies, on a perceptual
+ * difference hash (dHash).
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { query, queryOne, execute } from '../db/connection.js';
+import { DbAnalysisCache, DbSystemSetting } from '../db/models.js';
+import { AnalysisMode, GeoAnalysisResult, LocationHints } from './geminiService.js';
+import { CloudVisionResult } from './cloudVisionService.js';
+import { SerpApiResult } from './serpApiService.js';
+import { PromptVersionRef } from './defaultPrompts.js';
+
+const DEFAULT_TTL_HOURS = 168;  // one week
+const DEFAULT_HIT_COST = 1;
+const PERCEPTUAL_MATCH_MAX_DISTANCE = 6;  // differing bits (of 64) still treated as the same image
+const PERCEPTUAL_CANDIDATE_LIMIT = 100;
+
+export interface CacheSettings {
+  ttlHours: number;  // 0 disables the cache
+  hitCost: number;  // credits charged when a cached result is returned
+}
+
+export interface ImageFingerprint {
+  contentHash: string;
+  perceptualHashes: string[] | null;  // null when an image could not be decoded
+}
+
+// What is stored per entry - provider responses and the final result
+export interface CachedAnalysis {
+  result: GeoAnalysisResult;
+  cloudVisionData: CloudVisionResult | null;
+  serpApiData: SerpApiResult | null;
+}
+
+/**
+ * Read the cache settings (admin-configurable system settings)
+ */
+export async function getCacheSettings(): Promise<CacheSettings> {
+  const settings = await query<DbSystemSetting[]>(
+    `SELECT setting_key, setting_value FROM system_settings
+     WHERE setting_key IN ('cache_ttl_hours', 'cache_hit_cost')`
+  );
+  const byKey = Object.fromEntries(settings.map(s => [s.setting_key, parseInt(s.setting_value)]));
+
+  return {
+    ttlHours: Math.max(0, byKey.cache_ttl_hours ?? DEFAULT_TTL_HOURS),
+    hitCost: Math.max(0, byKey.cache_hit_cost ?? DEFAULT_HIT_COST)
+  };
+}
+
+// ============ HASHING ============
+
+/**
+ * 64-bit difference hash: shrink to 9x8 greyscale and compare neighbouring pixels
+ */
+export async function differenceHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hex = '';
+  for (let nibble = 0; nibble < 16; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      const index = nibble * 4 + bit;  // 0..63
+      const row = Math.floor(index / 8);
+      const col = index % 8;
+      value = (value << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+    }
+    hex += value.toString(16);
+  }
+  return hex;
+}
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Exact and perceptual hashes of a set of images (order matters)
+ */
+export async function fingerprintImages(images: Array<{ base64: string }>): Promise<ImageFingerprint> {
+  const buffers = images.map(img => Buffer.from(img.base64, 'base64'));
+
+  const content = crypto.createHash('sha256');
+  for (const buffer of buffers) {
+    content.update(crypto.createHash('sha256').update(buffer).digest());
+  }
+
+  let perceptualHashes: string[] | null = null;
+  try {
+    perceptualHashes = await Promise.all(buffers.map(differenceHash));
+  } catch (err: any) {
+    // Unsupported or corrupt image data - exact matching still works
+    console.log(`[Cache] Perceptual hash unavailable: ${err.message}`);
+  }
+
+  return { contentHash: content.digest('hex'), perceptualHashes };
+}
+
+/**
+ * Everything besides the images that changes the analysis outcome
+ */
+export function cacheVariantHash(
+  mode: AnalysisMode,
+  hints: LocationHints | undefined,
+  services: { cloudVision: boolean; serpApi: boolean },
+  promptVersions: Record<string, PromptVersionRef>
+): string {
+  const normalize = (value?: string) => value?.trim().toLowerCase() || null;
+  const variant = {
+    mode,
+    // Activating or rolling back a prompt invalidates results of the old one
+    prompts: Object.keys(promptVersions).sort().map(key => `${key}:${promptVersions[key].id}`),
+    continent: normalize(hints?.continent),
+    country: normalize(hints?.country),
+    city: normalize(hints?.city),
+    additionalInfo: normalize(hints?.additionalInfo),
+    cloudVision: services.cloudVision,
+    serpApi: services.serpApi
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(variant)).digest('hex');
+}
+
+// ============ LOOKUP / STORE ============
+
+/**
+ * Find an unexpired cache entry for these images: exact content match first,
+ * then the closest perceptual match within PERCEPTUAL_MATCH_MAX_DISTANCE per image
+ */
+export async function findCachedAnalysis(
+  userId: string,
+  fingerprint: ImageFingerprint,
+  variantHash: string
+): Promise<DbAnalysisCache | null> {
+  const exact = await queryOne<DbAnalysisCache>(
+    `SELECT * FROM analysis_cache
+     WHERE user_id = ? AND content_hash = ? AND variant_hash = ? AND expires_at > NOW()
+     ORDER BY created_at DESC LIMIT 1`,
+    [userId, fingerprint.contentHash, variantHash]
+  );
+  if (exact) return exact;
+
+  const hashes = fingerprint.perceptualHashes;
+  if (!hashes) return null;
+
+  const candidates = await query<Array<Pick<DbAnalysisCache, 'id' | 'perceptual_hashes'>>>(
+    `SELECT id, perceptual_hashes FROM analysis_cache
+     WHERE user_id = ? AND variant_hash = ? AND image_count = ? AND expires_at > NOW()
+       AND perceptual_hashes IS NOT NULL
+     ORDER BY created_at DESC LIMIT ${PERCEPTUAL_CANDIDATE_LIMIT}`,
+    [userId, variantHash, hashes.length]
+  );
+
+  let best: { id: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const candidateHashes = candidate.perceptual_hashes!.split(',');
+    const distances = hashes.map((hash, idx) => hammingDistance(hash, candidateHashes[idx] || ''));
+    if (distances.some(d => d > PERCEPTUAL_MATCH_MAX_DISTANCE)) continue;
+
+    const distance = Math.max(...distances);
+    if (!best || distance < best.distance) {
+      best = { id: candidate.id, distance };
+    }
+  }
+
+  if (!best) return null;
+  console.log(`[Cache] Perceptual match ${best.id} (distance ${best.distance})`);
+  return queryOne<DbAnalysisCache>('SELECT * FROM analysis_cache WHERE id = ?', [best.id]);
+}
+
+/**
+ * Count a cache hit
+ */
+export async function recordCacheHit(entryId: string): Promise<void> {
+  await execute(
+    'UPDATE analysis_cache SET hit_count = hit_count + 1, last_hit_at = NOW() WHERE id = ?',
+    [entryId]
+  );
+}
+
+/**
+ * Store a fresh analysis, replacing any previous entry for the same images,
+ * and drop the user's expired entries
+ */
+export async function storeCachedAnalysis(
+  userId: string,
+  fingerprint: ImageFingerprint,
+  variantHash: string,
+  imageCount: number,
+  analysis: CachedAnalysis,
+  fullCost: number,
+  ttlHours: number
+): Promise<void> {
+  await execute(
+    `DELETE FROM analysis_cache
+     WHERE user_id = ? AND ((content_hash = ? AND variant_hash = ?) OR expires_at <= NOW())`,
+    [userId, fingerprint.contentHash, variantHash]
+  );
+  await execute(
+    `INSERT INTO analysis_cache
+     (id, user_id, content_hash, perceptual_hashes, variant_hash, image_count, payload, full_cost, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? HOUR))`,
+    [
+      uuidv4(),
+      userId,
+      fingerprint.contentHash,
+      fingerprint.perceptualHashes ? fingerprint.perceptualHashes.join(',') : null,
+      variantHash,
+      imageCount,
+      JSON.stringify(analysis),
+      fullCost,
+      ttlHours
+    ]
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * Analysis Cancellation and Deadlines
+ * A running analysis carries one AbortSignal that fires when the user cancels
+ * or the whole analysis runs out of time. Every provider call additionally
+ * gets its own per-phase deadline, so a hung Gemini, Cloud Vision or SerpAPI
+ * request fails that call instead of holding the analysis forever.
+ */
+
+import { query } from '../db/connection.js';
+import { DbSystemSetting } from '../db/models.js';
+import { createError } from '../middleware/errorHandler.js';
+import type { ModelProvider, ModelRequest } from './modelProvider.js';
+
+// Deadlines in seconds, admin-configurable in system_settings
+export interface AnalysisTimeouts {
+  cloudVision: number;
+  serpApi: number;
+  clueExpert: number;  // each clue expert call
+  finalSearch: number;  // each grounded final search call
+  analysis: number;  // the whole analysis, from start to result
+}
+
+export const DEFAULT_TIMEOUTS: AnalysisTimeouts = {
+  cloudVision: 30,
+  serpApi: 60,
+  clueExpert: 120,
+  finalSearch: 240,
+  analysis: 900
+};
+
+export const TIMEOUT_SETTING_KEYS: Record<keyof AnalysisTimeouts, string> = {
+  cloudVision: 'timeout_cloud_vision_seconds',
+  serpApi: 'timeout_serp_api_seconds',
+  clueExpert: 'timeout_clue_expert_seconds',
+  finalSearch: 'timeout_final_search_seconds',
+  analysis: 'timeout_analysis_seconds'
+};
+
+const MIN_TIMEOUT_SECONDS = 5;
+
+/**
+ * Current deadlines (system settings over the defaults)
+ */
+export async function getAnalysisTimeouts(): Promise<AnalysisTimeouts> {
+  const keys = Object.values(TIMEOUT_SETTING_KEYS);
+  const settings = await query<DbSystemSetting[]>(
+    `SELECT setting_key, setting_value FROM system_settings
+     WHERE setting_key IN (${keys.map(() => '?').join(', ')})`,
+    keys
+  );
+  const byKey = Object.fromEntries(settings.map(s => [s.setting_key, parseInt(s.setting_value)]));
+
+  const timeouts = { ...DEFAULT_TIMEOUTS };
+  for (const field of Object.keys(TIMEOUT_SETTING_KEYS) as Array<keyof AnalysisTimeouts>) {
+    const value = byKey[TIMEOUT_SETTING_KEYS[field]];
+    if (Number.isFinite(value)) {
+      timeouts[field] = Math.max(MIN_TIMEOUT_SECONDS, value);
+    }
+  }
+  return timeouts;
+}
+
+// ============ ERRORS ============
+
+/**
+ * The error a cancelled analysis rejects with (also used as the abort reason)
+ */
+export const cancelledError = () =>
+  createError('Analysis cancelled', 499, 'ANALYSIS_CANCELLED');
+
+export const isCancellation = (err: any): boolean => err?.code === 'ANALYSIS_CANCELLED';
+
+const timeoutError = (label: string, seconds: number, code: string) =>
+  createError(`${label} timed out after ${seconds}s`, 504, code);
+
+// ============ DEADLINES ============
+
+/**
+ * Signal that aborts when the parent aborts (same reason) or after the
+ * analysis deadline (ANALYSIS_TIMEOUT). Call dispose() once the run ends.
+ */
+export function createAnalysisSignal(
+  parent: AbortSignal | undefined,
+  seconds: number
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+  const timer = setTimeout(
+    () => controller.abort(timeoutError('Analysis', seconds, 'ANALYSIS_TIMEOUT')),
+    seconds * 1000
+  );
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    dispose() {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+}
+
+/**
+ * Run one provider call with its own deadline. The call receives a signal that
+ * aborts on the deadline (PHASE_TIMEOUT) or when the analysis is aborted; the
+ * returned promise settles at that moment even if the call ignores the signal.
+ */
+export async function withDeadline<T>(
+  signal: AbortSignal | undefined,
+  label: string,
+  seconds: number,
+  fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(signal!.reason);
+  const timer = setTimeout(
+    () => controller.abort(timeoutError(label, seconds, 'PHASE_TIMEOUT')),
+    seconds * 1000
+  );
+  signal?.addEventListener('abort', onParentAbort, { once: true });
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onParentAbort);
+  }
+}
+
+// Model phases map onto the clue expert or final search deadline
+const modelCallTimeout = (phase: string, timeouts: AnalysisTimeouts): number => {
+  const family = phase.split(':')[0];
+  return family === 'clue_expert' || family === 'expert' || family === 'phase1'
+    ? timeouts.clueExpert
+    : timeouts.finalSearch;
+};
+
+/**
+ * Wrap a model provider so every generate() call honours the analysis signal
+ * and its phase deadline
+ */
+export function withModelDeadlines(
+  provider: ModelProvider,
+  signal: AbortSignal,
+  timeouts: AnalysisTimeouts
+): ModelProvider {
+  return {
+    name: provider.name,
+    generate(request: ModelRequest) {
+      return withDeadline(signal, `Model call ${request.phase}`, modelCallTimeout(request.phase, timeouts),
+        callSignal => provider.generate({ ...request, signal: callSignal }));
+    }
+  };
+}
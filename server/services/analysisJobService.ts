@@ -0,0 +1,393 @@
+/**
+ * Analysis Job Queue
+ * Runs analyses in the background with bounded concurrency. Job state,
+ * progress and results are persisted in MySQL so clients can poll a job or
+ * resume watching it after a dropped connection or page reload.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { fileURLToPath } from 'url';
+import { v4 as uuidv4 } from 'uuid';
+import { query, queryOne, execute } from '../db/connection.js';
+import { DbAnalysisJob } from '../db/models.js';
+import { AnalysisMode, LocationHints } from './geminiService.js';
+import { AnalysisProgressEvent } from './analysisProgress.js';
+import { cancelledError, isCancellation } from './analysisDeadlines.js';
+import { markJobUsageRefunded } from './usageMeter.js';
+import { createError } from '../middleware/errorHandler.js';
+import {
+  runAnalysisPipeline,
+  refundCredits,
+  AnalysisImage,
+  AnalysisPayload
+} from './analysisPipeline.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Submitted images are kept on disk so queued jobs survive a restart
+const JOB_IMAGES_DIR = path.join(__dirname, '..', 'job-images');
+
+if (!fs.existsSync(JOB_IMAGES_DIR)) {
+  fs.mkdirSync(JOB_IMAGES_DIR, { recursive: true });
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+// Live updates delivered to job watchers
+export type AnalysisJobUpdate =
+  | { type: 'progress'; event: AnalysisProgressEvent }
+  | { type: 'completed'; payload: AnalysisPayload }
+  | { type: 'failed'; error: { message: string; code: string } };
+
+interface ActiveJob {
+  progress: AnalysisProgressEvent[];
+  controller: AbortController;  // aborted when the user cancels
+  settled?: Promise<void>;  // set once the job starts running
+}
+
+const pendingJobs: string[] = [];  // FIFO of queued job ids
+const activeJobs = new Map<string, ActiveJob>();  // queued or running in this process
+let runningCount = 0;
+
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Read lazily - dotenv is loaded after module imports are evaluated
+const getConcurrency = (): number =>
+  Math.max(1, parseInt(process.env.ANALYSIS_CONCURRENCY || '') || DEFAULT_CONCURRENCY);
+
+// mysql2 returns JSON columns parsed, but tolerate raw strings
+const parseJsonColumn = <T>(value: unknown): T | undefined => {
+  if (value === null || value === undefined) return undefined;
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+};
+
+// ============ IMAGE STORAGE ============
+
+const jobImagesPath = (jobId: string): string =>
+  path.join(JOB_IMAGES_DIR, `${jobId}.json`);
+
+/**
+ * Load the images submitted with a job (null if they were removed)
+ */
+export function loadJobImages(jobId: string): AnalysisImage[] | null {
+  const filepath = jobImagesPath(jobId);
+  if (!fs.existsSync(filepath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filepath, 'utf-8'));
+  } catch (err) {
+    console.error(`[Jobs] Could not read images for job ${jobId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Delete the stored images of a job
+ */
+export function deleteJobImages(jobId: string): void {
+  const filepath = jobImagesPath(jobId);
+  try {
+    if (fs.existsSync(filepath)) {
+      fs.unlinkSync(filepath);
+    }
+  } catch (err) {
+    console.error(`[Jobs] Could not delete images for job ${jobId}:`, err);
+  }
+}
+
+// ============ QUEUE ============
+
+const enqueue = (jobId: string): void => {
+  activeJobs.set(jobId, { progress: [], controller: new AbortController() });
+  pendingJobs.push(jobId);
+  drainQueue();
+};
+
+const drainQueue = (): void => {
+  while (runningCount < getConcurrency() && pendingJobs.length > 0) {
+    const jobId = pendingJobs.shift()!;
+    runningCount++;
+    const settled = runJob(jobId)
+      .catch(err => console.error(`[Jobs] Job ${jobId} crashed:`, err))
+      .finally(() => {
+        runningCount--;
+        activeJobs.delete(jobId);
+        drainQueue();
+      });
+    const active = activeJobs.get(jobId);
+    if (active) active.settled = settled;
+  }
+};
+
+const emitUpdate = (jobId: string, update: AnalysisJobUpdate): void => {
+  jobEvents.emit(jobId, update);
+};
+
+// A completed job is also the user's search history entry (same id). Upserted,
+// so a job re-run after recovery replaces the row an interrupted run left behind.
+const saveJobHistory = async (jobId: string, userId: string, payload: AnalysisPayload): Promise<void> => {
+  const { result, cost } = payload;
+  await execute(
+    `INSERT INTO search_history
+     (id, user_id, location_name, lat, lng, confidence_score, reasoning, visual_cues, sources, prompt_versions, cost)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+      location_name = VALUES(location_name), lat = VALUES(lat), lng = VALUES(lng),
+      confidence_score = VALUES(confidence_score), reasoning = VALUES(reasoning),
+      visual_cues = VALUES(visual_cues), sources = VALUES(sources),
+      prompt_versions = VALUES(prompt_versions), cost = VALUES(cost)`,
+    [
+      jobId,
+      userId,
+      result.locationName || null,
+      result.coordinates?.lat || null,
+      result.coordinates?.lng || null,
+      result.confidenceScore || null,
+      JSON.stringify(result.reasoning || []),
+      JSON.stringify(result.visualCues || null),
+      JSON.stringify(result.sources || []),
+      result.promptVersions ? JSON.stringify(result.promptVersions) : null,
+      cost
+    ]
+  );
+};
+
+const runJob = async (jobId: string): Promise<void> => {
+  const job = await queryOne<DbAnalysisJob>('SELECT * FROM analysis_jobs WHERE id = ?', [jobId]);
+  if (!job || job.status !== 'queued') return;
+
+  const active = activeJobs.get(jobId) || { progress: [], controller: new AbortController() };
+  const images = loadJobImages(jobId);
+
+  if (!images) {
+    const error = { message: 'Job images are no longer available', code: 'JOB_IMAGES_MISSING' };
+    await execute(
+      `UPDATE analysis_jobs SET status = 'failed', error_message = ?, error_code = ?, finished_at = NOW()
+       WHERE id = ?`,
+      [error.message, error.code, jobId]
+    );
+    emitUpdate(jobId, { type: 'failed', error });
+    return;
+  }
+
+  await execute(
+    `UPDATE analysis_jobs SET status = 'running', started_at = NOW() WHERE id = ?`,
+    [jobId]
+  );
+  console.log(`[Jobs] Running job ${jobId} (${runningCount}/${getConcurrency()} slots in use)`);
+
+  // Progress is persisted as it arrives; writes are chained to keep them ordered
+  let progressWrite: Promise<unknown> = Promise.resolve();
+  const onProgress = (event: AnalysisProgressEvent) => {
+    active.progress.push(event);
+    emitUpdate(jobId, { type: 'progress', event });
+    const snapshot = JSON.stringify(active.progress);
+    progressWrite = progressWrite
+      .then(() => execute('UPDATE analysis_jobs SET progress = ? WHERE id = ?', [snapshot, jobId]))
+      .catch(err => console.error(`[Jobs] Could not persist progress for ${jobId}:`, err));
+  };
+
+  let payload: AnalysisPayload;
+  let chargedCredits = 0;
+  try {
+    payload = await runAnalysisPipeline({
+      userId: job.user_id,
+      images,
+      hints: parseJsonColumn<LocationHints>(job.hints),
+      mode: job.mode,
+      forceRefresh: !!job.force_refresh,
+      serverBaseUrl: job.server_base_url,
+      jobId,
+      onProgress,
+      signal: active.controller.signal,
+      onCharged: async amount => {
+        chargedCredits = amount;
+        await execute('UPDATE analysis_jobs SET charged_credits = ? WHERE id = ?', [amount, jobId]);
+      }
+    });
+  } catch (err: any) {
+    // The pipeline already refunded anything it charged (a cancelled run may keep part of it)
+    const cancelled = isCancellation(err);
+    const error = cancelled
+      ? {
+          message: chargedCredits > 0
+            ? `Analysis cancelled - ${chargedCredits} credits kept for premium lookups that had already completed`
+            : 'Analysis cancelled - all credits refunded',
+          code: err.code
+        }
+      : { message: err.message || 'Analysis failed', code: err.code || 'INTERNAL_ERROR' };
+    console.error(`[Jobs] Job ${jobId} ${cancelled ? 'cancelled' : 'failed'}:`, error.message);
+
+    await progressWrite;
+    await execute(
+      `UPDATE analysis_jobs SET status = ?, error_message = ?, error_code = ?, progress = ?,
+       charged_credits = ?, finished_at = NOW()
+       WHERE id = ?`,
+      [
+        cancelled ? 'cancelled' : 'failed',
+        error.message.substring(0, 1000),
+        error.code,
+        JSON.stringify(active.progress),
+        cancelled ? chargedCredits : 0,
+        jobId
+      ]
+    );
+    deleteJobImages(jobId);
+    emitUpdate(jobId, { type: 'failed', error });
+    return;
+  }
+
+  try {
+    await progressWrite;
+    await saveJobHistory(jobId, job.user_id, payload);
+    await execute(
+      `UPDATE analysis_jobs SET status = 'completed', result = ?, progress = ?, finished_at = NOW()
+       WHERE id = ?`,
+      [JSON.stringify(payload), JSON.stringify(active.progress), jobId]
+    );
+  } catch (err: any) {
+    // The result could not be stored - fail the job and refund it rather than
+    // leaving it 'running' for recovery to charge and run again
+    const error = { message: 'Analysis finished but its result could not be saved - credits refunded', code: 'JOB_SAVE_FAILED' };
+    console.error(`[Jobs] Could not store result of job ${jobId}:`, err);
+
+    try {
+      await execute(
+        `UPDATE analysis_jobs SET status = 'failed', error_message = ?, error_code = ?, charged_credits = 0,
+         finished_at = NOW()
+         WHERE id = ?`,
+        [error.message, error.code, jobId]
+      );
+      await execute('DELETE FROM search_history WHERE id = ?', [jobId]).catch(deleteError =>
+        console.error(`[Jobs] Could not remove history of failed job ${jobId}:`, deleteError));
+      await markJobUsageRefunded(jobId).catch(usageError =>
+        console.error(`[Jobs] Could not mark usage of failed job ${jobId} as refunded:`, usageError));
+      // Refunded only once the job is marked failed, so recovery cannot refund it again
+      await refundCredits(job.user_id, chargedCredits);
+    } catch (failError) {
+      console.error(`[Jobs] Could not fail job ${jobId} - left for recovery:`, failError);
+    }
+    deleteJobImages(jobId);
+    emitUpdate(jobId, { type: 'failed', error });
+    return;
+  }
+  console.log(`[Jobs] Job ${jobId} completed: ${payload.result.locationName}`);
+  emitUpdate(jobId, { type: 'completed', payload });
+};
+
+// ============ PUBLIC API ============
+
+/**
+ * Persist a new job and queue it for processing
+ */
+export async function createAnalysisJob(
+  userId: string,
+  images: AnalysisImage[],
+  hints: LocationHints | undefined,
+  mode: AnalysisMode,
+  forceRefresh: boolean,
+  serverBaseUrl: string
+): Promise<DbAnalysisJob> {
+  const id = uuidv4();
+
+  fs.writeFileSync(jobImagesPath(id), JSON.stringify(images));
+
+  await execute(
+    `INSERT INTO analysis_jobs (id, user_id, status, hints, mode, force_refresh, image_count, server_base_url)
+     VALUES (?, ?, 'queued', ?, ?, ?, ?, ?)`,
+    [id, userId, hints ? JSON.stringify(hints) : null, mode, forceRefresh, images.length, serverBaseUrl]
+  );
+
+  const job = await queryOne<DbAnalysisJob>('SELECT * FROM analysis_jobs WHERE id = ?', [id]);
+  enqueue(id);
+  return job!;
+}
+
+/**
+ * Subscribe to live updates of a job queued or running in this process.
+ * Progress emitted so far is replayed first. Returns null when the job is
+ * not active (already finished) - read its final state from the database.
+ */
+export function watchAnalysisJob(
+  jobId: string,
+  listener: (update: AnalysisJobUpdate) => void
+): (() => void) | null {
+  const active = activeJobs.get(jobId);
+  if (!active) return null;
+
+  active.progress.forEach(event => listener({ type: 'progress', event }));
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+/**
+ * Cancel a queued or running job of this process. A queued job is dropped
+ * without any charge; a running job is aborted and refunded by the pipeline
+ * (see runAnalysisPipeline for what a cancelled run keeps). Resolves once the
+ * job has stopped.
+ */
+export async function cancelAnalysisJob(job: DbAnalysisJob): Promise<void> {
+  const active = activeJobs.get(job.id);
+
+  if (!active) {
+    throw job.status === 'queued' || job.status === 'running'
+      ? createError('Analysis job is not running on this server', 409, 'JOB_NOT_ACTIVE')
+      : createError('Analysis job has already finished', 409, 'JOB_FINISHED');
+  }
+
+  const queuedIndex = pendingJobs.indexOf(job.id);
+  if (queuedIndex >= 0) {
+    pendingJobs.splice(queuedIndex, 1);
+    activeJobs.delete(job.id);
+
+    const error = { message: 'Analysis cancelled before it started', code: 'ANALYSIS_CANCELLED' };
+    await execute(
+      `UPDATE analysis_jobs SET status = 'cancelled', error_message = ?, error_code = ?, finished_at = NOW()
+       WHERE id = ?`,
+      [error.message, error.code, job.id]
+    );
+    deleteJobImages(job.id);
+    console.log(`[Jobs] Job ${job.id} cancelled while queued`);
+    emitUpdate(job.id, { type: 'failed', error });
+    return;
+  }
+
+  active.controller.abort(cancelledError());
+  await active.settled;
+}
+
+/**
+ * Re-queue jobs left unfinished by a previous server process. Jobs that were
+ * mid-run are refunded and started over.
+ */
+export async function recoverAnalysisJobs(): Promise<void> {
+  const jobs = await query<DbAnalysisJob[]>(
+    `SELECT * FROM analysis_jobs WHERE status IN ('queued', 'running') ORDER BY created_at ASC`
+  );
+
+  for (const job of jobs) {
+    if (job.status === 'running') {
+      try {
+        await refundCredits(job.user_id, job.charged_credits);
+        await execute(
+          `UPDATE analysis_jobs SET status = 'queued', progress = NULL, charged_credits = 0, started_at = NULL
+           WHERE id = ?`,
+          [job.id]
+        );
+      } catch (err) {
+        console.error(`[Jobs] Could not reset interrupted job ${job.id}:`, err);
+        continue;
+      }
+    }
+    enqueue(job.id);
+  }
+
+  if (jobs.length > 0) {
+    console.log(`[Jobs] Recovered ${jobs.length} unfinished analysis job(s)`);
+  }
+}
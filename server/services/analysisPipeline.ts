@@ -0,0 +1,627 @@
+/**
+ * Analysis Pipeline
+ * The full paid analysis of a set of images: EXIF, premium reverse image
+ * search services, credit charging and the AI location analysis. Shared by
+ * the synchronous /api/analyze route and the background job worker.
+ */
+
+import { query, queryOne, execute } from '../db/connection.js';
+import { DbUser, DbSystemSetting, DbUserSetting, PREMIUM_SERVICES } from '../db/models.js';
+import { createError } from '../middleware/errorHandler.js';
+import { analyzeImageLocation, ANALYSIS_MODES, AnalysisMode, GeoAnalysisResult, LocationHints } from './geminiService.js';
+import {
+  extractExifFromMultiple,
+  formatExifComparisonForPrompt,
+  formatCameraViewForPrompt,
+  validateGpsCoordinates,
+  formatGpsForPrompt,
+  ExifResult,
+  ExifCaptureTime,
+  ExifComparison
+} from './exifService.js';
+import {
+  analyzeMetadataForensics,
+  formatForensicsForPrompt,
+  MetadataForensicsReport
+} from './metadataForensics.js';
+import {
+  performWebDetection,
+  formatVisionResultForPrompt,
+  CloudVisionResult
+} from './cloudVisionService.js';
+import {
+  saveTempImage,
+  deleteTempImage,
+  getTempImageUrl,
+  performGoogleLensSearch,
+  formatSerpApiResultForPrompt,
+  SerpApiResult
+} from './serpApiService.js';
+import { createProgressReporter, ProgressListener, AnalysisPhase } from './analysisProgress.js';
+import { getActivePromptSet } from './promptRegistry.js';
+import { getModelProvider } from './modelProvider.js';
+import {
+  createUsageMeter,
+  meterModelProvider,
+  saveAnalysisUsage,
+  UsageStatus
+} from './usageMeter.js';
+import {
+  getAnalysisTimeouts,
+  createAnalysisSignal,
+  withDeadline,
+  withModelDeadlines,
+  isCancellation
+} from './analysisDeadlines.js';
+import { callWithResilience, withResilience, isCircuitOpen, RetryInfo } from './providerResilience.js';
+import {
+  getCacheSettings,
+  fingerprintImages,
+  cacheVariantHash,
+  findCachedAnalysis,
+  recordCacheHit,
+  storeCachedAnalysis,
+  CachedAnalysis
+} from './analysisCache.js';
+import { createAnalysisRecorder, getRecordingDir } from './providerRecording.js';
+
+export const MAX_ANALYSIS_IMAGES = 4;
+
+// Base cost of each mode. Candidates mode runs up to three grounded final
+// searches and thorough mode five, against one in single mode, so they are
+// priced separately (premium services are added on top either way).
+const MODE_COST_SETTINGS: Record<AnalysisMode, { key: string; defaultCost: number }> = {
+  single: { key: 'search_cost', defaultCost: 10 },
+  candidates: { key: 'candidates_search_cost', defaultCost: 20 },
+  thorough: { key: 'thorough_search_cost', defaultCost: 30 }
+};
+
+export interface AnalysisImage {
+  base64: string;
+  mimeType: string;
+}
+
+export interface AnalysisRequest {
+  userId: string;
+  images: AnalysisImage[];
+  hints?: LocationHints;
+  mode?: AnalysisMode;
+  forceRefresh?: boolean;  // skip the result cache and re-run every provider
+  jobId?: string;  // background job this run belongs to (recorded with the usage)
+  serverBaseUrl: string;  // public base URL used to expose temp images to SerpAPI
+  onProgress?: ProgressListener;
+  onCharged?: (amount: number) => void | Promise<void>;  // credits held by the run (after deduction and partial refunds)
+  signal?: AbortSignal;  // cancels the run (abort with cancelledError())
+}
+
+export interface AnalysisPayload {
+  result: GeoAnalysisResult;
+  exifData: ExifResult | null;
+  exifComparison: ExifComparison | null;  // every image's GPS, time and camera, and conflicts between them
+  metadataForensics: MetadataForensicsReport[] | null;
+  cloudVisionData: CloudVisionResult | null;
+  serpApiData: SerpApiResult | null;
+  creditsRemaining: number;
+  cost: number;
+}
+
+/**
+ * Validate the submitted images before any work (or charge) happens
+ */
+export function validateAnalysisImages(images: unknown): asserts images is AnalysisImage[] {
+  if (!images || !Array.isArray(images) || images.length === 0) {
+    throw createError('At least one image is required', 400, 'NO_IMAGES');
+  }
+
+  if (images.length > MAX_ANALYSIS_IMAGES) {
+    throw createError(`Maximum ${MAX_ANALYSIS_IMAGES} images allowed`, 400, 'TOO_MANY_IMAGES');
+  }
+}
+
+/**
+ * Validate the requested analysis mode (defaults to "single")
+ */
+export function parseAnalysisMode(mode: unknown): AnalysisMode {
+  if (mode === undefined || mode === null || mode === '') return 'single';
+  if (!ANALYSIS_MODES.includes(mode as AnalysisMode)) {
+    throw createError(`Unknown analysis mode "${mode}"`, 400, 'INVALID_MODE');
+  }
+  return mode as AnalysisMode;
+}
+
+/**
+ * Read an integer system setting, falling back to a default
+ */
+export async function getCostSetting(key: string, defaultValue: number): Promise<number> {
+  const setting = await queryOne<DbSystemSetting>(
+    'SELECT setting_value FROM system_settings WHERE setting_key = ?',
+    [key]
+  );
+  return setting ? parseInt(setting.setting_value) : defaultValue;
+}
+
+/**
+ * Check the user's balance and deduct the cost of a run
+ */
+export async function chargeCredits(userId: string, amount: number): Promise<void> {
+  const user = await queryOne<DbUser>(
+    'SELECT * FROM users WHERE id = ?',
+    [userId]
+  );
+
+  if (!user) {
+    throw createError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  if (user.credits < amount) {
+    throw createError(
+      `Insufficient credits. Need ${amount}, have ${user.credits}`,
+      402,
+      'INSUFFICIENT_CREDITS'
+    );
+  }
+
+  await execute(
+    'UPDATE users SET credits = credits - ? WHERE id = ?',
+    [amount, userId]
+  );
+}
+
+/**
+ * Return credits to a user (e.g. after a failed analysis)
+ */
+export async function refundCredits(userId: string, amount: number): Promise<void> {
+  if (amount <= 0) return;
+  await execute(
+    'UPDATE users SET credits = credits + ? WHERE id = ?',
+    [amount, userId]
+  );
+}
+
+/**
+ * Run the full analysis pipeline. Credits are deducted before the AI
+ * analysis and refunded if anything fails afterwards. A duplicate of a
+ * previously analyzed image set returns the cached result at the cache hit
+ * cost unless forceRefresh is set. Every provider call is metered and the
+ * usage is stored per analysis once the run ends.
+ *
+ * Each provider call has its own deadline and the whole run an overall one;
+ * timeouts fail the run like any other error. Refund policy on cancellation:
+ * the run is refunded in full except for premium lookups (Cloud Vision,
+ * Google Lens) that had already returned - those were paid for and their
+ * cost is kept.
+ *
+ * Provider calls go through the resilience layer (retries, circuit breakers,
+ * concurrency caps). A premium service whose breaker is open is skipped, not
+ * charged, and noted in the result.
+ *
+ * With RECORD_ANALYSES_DIR set, every provider call and the model inputs are
+ * written to a replayable recording bundle (see providerRecording.ts).
+ */
+export async function runAnalysisPipeline(request: AnalysisRequest): Promise<AnalysisPayload> {
+  const { userId, images, hints, mode, serverBaseUrl, onProgress } = request;
+  const report = createProgressReporter(onProgress);
+  const meter = createUsageMeter();
+  let charged = 0;
+  let keptOnCancel = 0;
+  let usageStatus: UsageStatus = 'failed';
+
+  const timeouts = await getAnalysisTimeouts();
+  const { signal, dispose } = createAnalysisSignal(request.signal, timeouts.analysis);
+
+  const recorder = getRecordingDir() ? createAnalysisRecorder() : null;
+  const recordService = <T>(service: string, operation: string, fn: () => Promise<T>): Promise<T> =>
+    recorder ? recorder.recordService(service, operation, fn) : fn();
+
+  const reportRetry = (phase: AnalysisPhase, label: string) => (info: RetryInfo) =>
+    report('retry', phase, `${label} did not respond (${info.error}) - retrying in ${(info.delayMs / 1000).toFixed(1)}s`, {
+      reason: 'transient_error',
+      service: info.service,
+      operation: info.operation,
+      attempt: info.attempt
+    });
+
+  try {
+    validateAnalysisImages(images);
+
+    // === STEP 1: Extract EXIF data ===
+    let exifData: { index: number; result: ExifResult } | null = null;
+    let exifComparison: ExifComparison | null = null;
+    let exifHint: string | null = null;
+    let consistencyHint: string | null = null;
+    let cameraViewHint: string | null = null;
+    let captureTime: ExifCaptureTime | null = null;
+
+    report('phase_started', 'exif', 'Reading image metadata');
+    try {
+      const { primary, ...comparison } = await extractExifFromMultiple(images);
+      exifData = primary;
+      exifComparison = comparison;
+      if (exifData?.result.hasGps && exifData.result.gps) {
+        const { latitude, longitude } = exifData.result.gps;
+        if (validateGpsCoordinates(latitude, longitude)) {
+          exifHint = (images.length > 1 ? `Image ${exifData.index + 1}: ` : '') + formatGpsForPrompt(exifData.result.gps);
+        }
+      }
+      consistencyHint = formatExifComparisonForPrompt(comparison);
+      // The located image's heading, else the first one that recorded a heading
+      const viewed = comparison.images.filter(image => image.view?.heading != null);
+      const cameraImage = viewed.find(image => image.index === primary?.index) || viewed[0];
+      cameraViewHint = cameraImage ? formatCameraViewForPrompt(cameraImage, images.length) : null;
+      // Used later to check the result against the sun position
+      captureTime = exifData?.result.captureTime || comparison.images.find(image => image.captureTime)?.captureTime || null;
+      report('phase_finished', 'exif', exifHint ? 'GPS coordinates found in EXIF' : 'No usable GPS metadata', {
+        hasGps: !!exifHint,
+        hasCaptureTime: !!captureTime,
+        conflicts: comparison.conflicts.map(c => c.type)
+      });
+      if (comparison.conflicts.length > 0) {
+        console.log(`[EXIF] Image conflicts: ${comparison.conflicts.map(c => c.message).join('; ')}`);
+      }
+    } catch {
+      // EXIF extraction is non-critical, continue without it
+      report('phase_failed', 'exif', 'Could not read image metadata');
+    }
+
+    // Full metadata (IPTC, XMP, thumbnail) for the forensics report and the experts
+    let metadataForensics: MetadataForensicsReport[] | null = null;
+    let forensicsHint: string | null = null;
+    try {
+      metadataForensics = await analyzeMetadataForensics(images);
+      forensicsHint = formatForensicsForPrompt(metadataForensics);
+      const warnings = metadataForensics.flatMap(r => r.warnings).filter(w => w.severity === 'warning');
+      if (warnings.length > 0) {
+        console.log(`[Forensics] ${warnings.map(w => w.code).join(', ')}`);
+      }
+    } catch (err) {
+      console.error('[Forensics] Could not analyze metadata:', err);
+    }
+
+    // === STEP 1.5: Check user's premium service settings ===
+    const userSettings = await query<DbUserSetting[]>(
+      'SELECT * FROM user_settings WHERE user_id = ?',
+      [userId]
+    );
+    const userSettingsMap: Record<string, string> = {};
+    userSettings.forEach(s => {
+      userSettingsMap[s.setting_key] = s.setting_value;
+    });
+
+    const cloudVisionEnabled = userSettingsMap[PREMIUM_SERVICES.CLOUD_VISION] === 'true';
+    const serpApiEnabled = userSettingsMap[PREMIUM_SERVICES.SERP_API] === 'true';
+    // Enabled but currently failing everywhere - skip instead of waiting on retries
+    const cloudVisionSkipped = cloudVisionEnabled && isCircuitOpen('cloud_vision');
+    const serpApiSkipped = serpApiEnabled && isCircuitOpen('serp_api');
+
+    // === STEP 1.55: Reuse a cached result for duplicate images ===
+    const cacheSettings = await getCacheSettings();
+    const prompts = await getActivePromptSet();
+    const cacheKey = cacheSettings.ttlHours > 0
+      ? {
+          fingerprint: await fingerprintImages(images),
+          variantHash: cacheVariantHash(
+            mode || 'single',
+            hints,
+            { cloudVision: cloudVisionEnabled, serpApi: serpApiEnabled },
+            prompts.versions
+          )
+        }
+      : null;
+
+    if (!cacheKey) {
+      report('phase_skipped', 'cache', 'Result cache disabled');
+    } else if (request.forceRefresh) {
+      report('phase_skipped', 'cache', 'Fresh analysis requested');
+    } else {
+      report('phase_started', 'cache', 'Checking for a previous analysis of these images');
+      const entry = await findCachedAnalysis(userId, cacheKey.fingerprint, cacheKey.variantHash);
+
+      if (entry) {
+        const cached: CachedAnalysis = typeof entry.payload === 'string' ? JSON.parse(entry.payload) : entry.payload;
+        const cachedAt = new Date(entry.created_at).getTime();
+
+        await chargeCredits(userId, cacheSettings.hitCost);
+        charged = cacheSettings.hitCost;
+        await request.onCharged?.(cacheSettings.hitCost);
+        await recordCacheHit(entry.id);
+        usageStatus = 'cached';
+
+        console.log(`[Cache] Hit ${entry.id} for user ${userId} - charged ${cacheSettings.hitCost} instead of ${entry.full_cost}`);
+        report('phase_finished', 'cache', `Reused the analysis from ${new Date(cachedAt).toISOString().slice(0, 16).replace('T', ' ')} UTC`, {
+          hit: true,
+          cachedAt,
+          cost: cacheSettings.hitCost,
+          fullCost: entry.full_cost
+        });
+        for (const phase of ['cloud_vision', 'serp_api', 'clue_experts', 'aggregate', 'final_search'] as const) {
+          report('phase_skipped', phase, 'Served from cache');
+        }
+
+        const updatedUser = await queryOne<DbUser>(
+          'SELECT credits FROM users WHERE id = ?',
+          [userId]
+        );
+
+        return {
+          result: { ...cached.result, cachedAt },
+          exifData: exifData?.result || null,
+          exifComparison,
+          metadataForensics,
+          cloudVisionData: cached.cloudVisionData,
+          serpApiData: cached.serpApiData,
+          creditsRemaining: updatedUser?.credits || 0,
+          cost: cacheSettings.hitCost
+        };
+      }
+
+      report('phase_finished', 'cache', 'No previous analysis of these images', { hit: false });
+    }
+
+    // === STEP 1.6: Perform Cloud Vision if enabled ===
+    let cloudVisionResult: CloudVisionResult | null = null;
+    let cloudVisionHint: string | null = null;
+
+    if (cloudVisionSkipped) {
+      console.log('[CloudVision] Circuit open - skipping Cloud Vision');
+      report('phase_skipped', 'cloud_vision', 'Cloud Vision is temporarily unavailable - skipped and not charged');
+    } else if (cloudVisionEnabled) {
+      console.log('[CloudVision] Cloud Vision enabled, performing web detection...');
+      report('phase_started', 'cloud_vision', 'Running Cloud Vision web detection');
+      try {
+        cloudVisionResult = await recordService('cloud_vision', 'web_detection', () =>
+          withDeadline(signal, 'Cloud Vision', timeouts.cloudVision, callSignal =>
+            callWithResilience('cloud_vision', 'web_detection', callSignal, attempt =>
+              meter.track('cloud_vision', 'web_detection', () =>
+                performWebDetection(images[0].base64, undefined, callSignal), attempt),
+            reportRetry('cloud_vision', 'Cloud Vision'))));
+        cloudVisionHint = formatVisionResultForPrompt(cloudVisionResult);
+        report('phase_finished', 'cloud_vision', `Found ${cloudVisionResult.pagesWithMatchingImages.length} pages with matching images`, {
+          hits: cloudVisionResult.pagesWithMatchingImages.length,
+          entities: cloudVisionResult.webEntities.length,
+          locationHints: cloudVisionResult.locationHints.slice(0, 5)
+        });
+        console.log('[CloudVision] Success! Found:');
+        console.log(`  Best guess: ${cloudVisionResult.bestGuessLabels.join(', ') || '(none)'}`);
+        console.log(`  Location hints: ${cloudVisionResult.locationHints.join(', ') || '(none)'}`);
+        console.log(`  Pages with matches: ${cloudVisionResult.pagesWithMatchingImages.length}`);
+        console.log(`  Web entities: ${cloudVisionResult.webEntities.slice(0, 5).map(e => e.description).join(', ')}`);
+      } catch (err: any) {
+        signal.throwIfAborted();
+        console.error('Cloud Vision API error:', err.message || err);
+        report('phase_failed', 'cloud_vision', 'Cloud Vision failed - continuing without it');
+        // Cloud Vision is non-critical, continue without it
+      }
+    } else {
+      console.log('[CloudVision] Cloud Vision not enabled for this user');
+      report('phase_skipped', 'cloud_vision', 'Cloud Vision not enabled');
+    }
+
+    // === STEP 1.7: Perform SerpAPI Google Lens if enabled ===
+    let serpApiResult: SerpApiResult | null = null;
+    let serpApiHint: string | null = null;
+    let tempImageFilename: string | null = null;
+
+    if (serpApiSkipped) {
+      console.log('[SerpAPI] Circuit open - skipping Google Lens');
+      report('phase_skipped', 'serp_api', 'Google Lens is temporarily unavailable - skipped and not charged');
+    } else if (serpApiEnabled) {
+      console.log('[SerpAPI] Google Lens enabled, performing reverse image search...');
+      report('phase_started', 'serp_api', 'Running Google Lens reverse image search');
+      try {
+        // Save image temporarily
+        tempImageFilename = saveTempImage(images[0].base64);
+        const imageUrl = getTempImageUrl(tempImageFilename, serverBaseUrl);
+
+        console.log('[SerpAPI] Temp image URL:', imageUrl);
+
+        // Perform Google Lens search
+        serpApiResult = await recordService('serp_api', 'google_lens', () =>
+          withDeadline(signal, 'Google Lens', timeouts.serpApi, callSignal =>
+            callWithResilience('serp_api', 'google_lens', callSignal, attempt =>
+              meter.track('serp_api', 'google_lens', () =>
+                performGoogleLensSearch(imageUrl, undefined, callSignal), attempt),
+            reportRetry('serp_api', 'Google Lens'))));
+        serpApiHint = formatSerpApiResultForPrompt(serpApiResult);
+        report('phase_finished', 'serp_api', `Found ${serpApiResult.visualMatches.length} visual matches`, {
+          hits: serpApiResult.visualMatches.length,
+          knowledgeGraph: serpApiResult.knowledgeGraph?.title || null,
+          locationHints: serpApiResult.locationHints.slice(0, 5)
+        });
+
+        console.log('[SerpAPI] Success! Found:');
+        console.log(`  Visual matches: ${serpApiResult.visualMatches.length}`);
+        console.log(`  Knowledge graph: ${serpApiResult.knowledgeGraph?.title || '(none)'}`);
+        console.log(`  Location hints: ${serpApiResult.locationHints.slice(0, 5).join(', ') || '(none)'}`);
+
+        // Clean up temp image
+        if (tempImageFilename) {
+          deleteTempImage(tempImageFilename);
+          tempImageFilename = null;
+        }
+      } catch (err: any) {
+        console.error('[SerpAPI] Error:', err.message || err);
+        report('phase_failed', 'serp_api', 'Google Lens search failed - continuing without it');
+        // Clean up on error
+        if (tempImageFilename) {
+          deleteTempImage(tempImageFilename);
+        }
+        signal.throwIfAborted();
+        // SerpAPI is non-critical, continue without it
+      }
+    } else {
+      console.log('[SerpAPI] Google Lens not enabled for this user');
+      report('phase_skipped', 'serp_api', 'Google Lens not enabled');
+    }
+
+    // Get the mode's search cost plus enabled premium service costs
+    const modeCost = MODE_COST_SETTINGS[mode || 'single'];
+    const searchCost = await getCostSetting(modeCost.key, modeCost.defaultCost);
+    const cloudVisionCost = cloudVisionEnabled && !cloudVisionSkipped ? await getCostSetting('cloud_vision_cost', 5) : 0;
+    const serpApiCost = serpApiEnabled && !serpApiSkipped ? await getCostSetting('serp_api_cost', 10) : 0;
+
+    const totalCost = searchCost + cloudVisionCost + serpApiCost;
+
+    signal.throwIfAborted();
+    await chargeCredits(userId, totalCost);
+    charged = totalCost;
+    keptOnCancel = (cloudVisionResult ? cloudVisionCost : 0) + (serpApiResult ? serpApiCost : 0);
+    await request.onCharged?.(totalCost);
+
+    // === STEP 2: Perform AI analysis (with EXIF and reverse image search hints if available) ===
+    // Prefer SerpAPI (Google Lens) over Cloud Vision as it provides actual reverse image search
+    const reverseSearchHint = serpApiHint || cloudVisionHint;
+
+    // Extract confirmed locations from SerpAPI (high-confidence location hints)
+    const confirmedLocations = serpApiResult?.locationHints?.filter(
+      loc => loc.length > 2 && /^[A-Z]/.test(loc) // Only proper nouns (capitalized)
+    ) || [];
+
+    const enhancedHints: LocationHints = {
+      ...hints,
+      exifGps: exifHint || undefined, // Pass EXIF data to Gemini
+      reverseImageSearch: reverseSearchHint || undefined, // Pass reverse image search results to Gemini
+      confirmedLocations: confirmedLocations.length > 0 ? confirmedLocations : undefined,
+      metadataForensics: forensicsHint || undefined,
+      imageConsistency: consistencyHint || undefined,
+      cameraView: cameraViewHint || undefined
+    };
+
+    if (confirmedLocations.length > 0) {
+      console.log(`[Analyze] Confirmed locations from SerpAPI: ${confirmedLocations.join(', ')}`);
+    }
+
+    const provider = withModelDeadlines(
+      withResilience(meterModelProvider(getModelProvider(), meter), info =>
+        reportRetry(info.operation.startsWith('clue_expert') ? 'clue_experts' : 'final_search', 'The model')(info)),
+      signal,
+      timeouts
+    );
+    recorder?.recordAnalysis({
+      images,
+      hints: enhancedHints,
+      mode: mode || 'single',
+      captureTime,
+      prompts,
+      result: null,
+      error: null
+    });
+    const result = await analyzeImageLocation(images, enhancedHints, {
+      mode,
+      prompts,
+      captureTime,
+      onProgress,
+      signal,
+      provider: recorder ? recorder.wrapProvider(provider) : provider
+    });
+    // A cancel or deadline that lands as the model answers still fails the run
+    signal.throwIfAborted();
+    // The model's answer, before the notes and EXIF fallback below
+    if (recorder?.bundle.analysis) recorder.bundle.analysis.result = structuredClone(result);
+
+    const skippedServices = [
+      ...(cloudVisionSkipped ? ['Cloud Vision'] : []),
+      ...(serpApiSkipped ? ['Google Lens'] : [])
+    ];
+    for (const service of skippedServices) {
+      result.reasoning.unshift(`⚠️ Note: ${service} was skipped because it is temporarily unavailable (and was not charged). This result is based on the remaining evidence.`);
+    }
+    if (exifComparison?.samePlace === 'no') {
+      result.reasoning.unshift(`⚠️ Note: the images' GPS metadata places them far apart - they may not show the same place. This result locates image ${(exifComparison.images.find(image => image.gps)?.index ?? 0) + 1}.`);
+    }
+
+    // If EXIF had coordinates but AI didn't use them, add them
+    if (exifData?.result.hasGps && exifData.result.gps && !result.coordinates) {
+      result.coordinates = {
+        lat: exifData.result.gps.latitude,
+        lng: exifData.result.gps.longitude
+      };
+      result.reasoning.unshift('Location coordinates extracted from image EXIF metadata.');
+      result.confidenceScore = Math.max(result.confidenceScore, 85);
+    }
+
+    // A failed cache write never fails the (already paid) analysis. Results
+    // missing a skipped premium service or the final search (region guess
+    // fallback) are not cached for later hits.
+    if (cacheKey && skippedServices.length === 0 && !result.fallback) {
+      try {
+        await storeCachedAnalysis(
+          userId,
+          cacheKey.fingerprint,
+          cacheKey.variantHash,
+          images.length,
+          { result, cloudVisionData: cloudVisionResult, serpApiData: serpApiResult },
+          totalCost,
+          cacheSettings.ttlHours
+        );
+      } catch (err) {
+        console.error('[Cache] Could not store analysis:', err);
+      }
+    }
+
+    usageStatus = 'completed';
+
+    // Return result with updated credits
+    const updatedUser = await queryOne<DbUser>(
+      'SELECT credits FROM users WHERE id = ?',
+      [userId]
+    );
+
+    return {
+      result,
+      exifData: exifData?.result || null,
+      exifComparison,
+      metadataForensics,
+      cloudVisionData: cloudVisionResult,
+      serpApiData: serpApiResult,
+      creditsRemaining: updatedUser?.credits || 0,
+      cost: totalCost
+    };
+  } catch (error: any) {
+    if (recorder?.bundle.analysis && !recorder.bundle.analysis.result) {
+      recorder.bundle.analysis.error = error?.message || String(error);
+    }
+
+    // Refund what was charged for this run (see the cancellation policy above)
+    const cancelled = isCancellation(error);
+    const refund = cancelled ? charged - keptOnCancel : charged;
+    if (refund > 0) {
+      try {
+        await refundCredits(userId, refund);
+        charged -= refund;
+      } catch (refundError) {
+        console.error('Failed to refund credits:', refundError);
+      }
+    }
+    if (cancelled) {
+      usageStatus = 'cancelled';
+      console.log(`[Analyze] Cancelled by user ${userId} - refunded ${refund}, kept ${charged}`);
+      try {
+        await request.onCharged?.(charged);
+      } catch (err) {
+        console.error('[Analyze] Could not record kept credits:', err);
+      }
+    }
+    throw error;
+  } finally {
+    dispose();
+    try {
+      recorder?.save(request.jobId);
+    } catch (err) {
+      console.error('[Recording] Could not save recording:', err);
+    }
+    // Runs rejected before any provider call (validation, no credits) cost nothing
+    if (usageStatus !== 'failed' || meter.calls.length > 0) {
+      try {
+        await saveAnalysisUsage(meter, {
+          userId,
+          jobId: request.jobId,
+          mode: mode || 'single',
+          status: usageStatus,
+          creditsCharged: charged
+        });
+      } catch (err) {
+        console.error('[Usage] Could not store analysis usage:', err);
+      }
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Analysis Progress Events
+ * Real phase events emitted while the analysis pipeline runs, streamed to
+ * the client so it can render an actual progress timeline.
+ */
+
+export type AnalysisPhase =
+  | 'exif'
+  | 'cache'
+  | 'cloud_vision'
+  | 'serp_api'
+  | 'clue_experts'
+  | 'aggregate'
+  | 'final_search';
+
+export type AnalysisProgressType =
+  | 'phase_started'
+  | 'phase_finished'
+  | 'phase_skipped'
+  | 'phase_failed'
+  | 'expert_result'  // one clue expert finished (data.failed when it errored)
+  | 'candidate_result'  // one candidate region was verified (data.failed when it errored)
+  | 'ensemble_result'  // one thorough-mode search finished (data.failed when it errored)
+  | 'retry'  // a phase is retried with different settings
+  | 'fallback';  // a phase fell back to a degraded mode (e.g. safety filter)
+
+export interface AnalysisProgressEvent {
+  type: AnalysisProgressType;
+  phase: AnalysisPhase;
+  message: string;
+  data?: Record<string, any>;
+  timestamp: number;
+}
+
+export type ProgressListener = (event: AnalysisProgressEvent) => void;
+
+export type ProgressReporter = (
+  type: AnalysisProgressType,
+  phase: AnalysisPhase,
+  message: string,
+  data?: Record<string, any>
+) => void;
+
+/**
+ * Wrap an optional listener into a reporter that never throws into the pipeline
+ */
+export function createProgressReporter(listener?: ProgressListener): ProgressReporter {
+  return (type, phase, message, data) => {
+    if (!listener) return;
+    try {
+      listener({ type, phase, message, data, timestamp: Date.now() });
+    } catch (err) {
+      console.error('[Progress] Listener error:', err);
+    }
+  };
+}
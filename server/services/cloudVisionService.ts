@@ -35,7 +35,8 @@ const VISION_API_URL = 'https://vision.googleapis.com/v1/images:annotate';
  */
 export async function performWebDetection(
   base64Image: string,
-  apiKey?: string
+  apiKey?: string,
+  signal?: AbortSignal
 ): Promise<CloudVisionResult> {
   const key = apiKey || process.env.GOOGLE_CLOUD_VISION_API_KEY || process.env.GEMINI_API_KEY;
 
@@ -64,13 +65,15 @@ export async function performWebDetection(
     headers: {
       'Content-Type': 'application/json'
     },
-    body: JSON.stringify(requestBody)
+    body: JSON.stringify(requestBody),
+    signal
   });
 
   if (!response.ok) {
     const error = await response.text();
     console.error('Cloud Vision API error:', error);
-    throw new Error(`Cloud Vision API error: ${response.status}`);
+    // status lets the resilience layer retry rate limits and outages
+    throw Object.assign(new Error(`Cloud Vision API error: ${response.status}`), { status: response.status });
   }
 
   const data = await response.json();
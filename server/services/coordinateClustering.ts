@@ -0,0 +1,72 @@
+/**
+ * Coordinate Clustering
+ * Groups the coordinates returned by repeated final searches so that runs
+ * agreeing on the same place end up together. Points closer than the link
+ * distance to any member of a cluster join it (single linkage); each cluster
+ * reports its centroid and how far its members spread around it.
+ */
+
+import { haversineKm } from './reverseGeocoder.js';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface CoordinateCluster {
+  members: number[];  // indices into the input points
+  centroid: LatLng;
+  spreadKm: number;  // distance from the centroid to the farthest member
+}
+
+/**
+ * Mean position on the sphere (averaging unit vectors, so clusters across the
+ * antimeridian work)
+ */
+export function sphericalCentroid(points: LatLng[]): LatLng {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  for (const p of points) {
+    x += Math.cos(toRad(p.lat)) * Math.cos(toRad(p.lng));
+    y += Math.cos(toRad(p.lat)) * Math.sin(toRad(p.lng));
+    z += Math.sin(toRad(p.lat));
+  }
+  const lng = Math.atan2(y, x);
+  const lat = Math.atan2(z, Math.sqrt(x * x + y * y));
+  return {
+    lat: Math.round(lat * 180 / Math.PI * 1e6) / 1e6,
+    lng: Math.round(lng * 180 / Math.PI * 1e6) / 1e6
+  };
+}
+
+/**
+ * Single-linkage clusters of the points, largest first (ties: tighter first)
+ */
+export function clusterCoordinates(points: LatLng[], linkKm: number): CoordinateCluster[] {
+  const clusterOf = points.map((_, i) => i);
+  const find = (i: number): number => (clusterOf[i] === i ? i : (clusterOf[i] = find(clusterOf[i])));
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      if (haversineKm(points[i], points[j]) <= linkKm) {
+        clusterOf[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  points.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  return [...groups.values()]
+    .map(members => {
+      const centroid = sphericalCentroid(members.map(i => points[i]));
+      const spreadKm = Math.max(...members.map(i => haversineKm(centroid, points[i])));
+      return { members, centroid, spreadKm: Math.round(spreadKm * 10) / 10 };
+    })
+    .sort((a, b) => b.members.length - a.members.length || a.spreadKm - b.spreadKm);
+}
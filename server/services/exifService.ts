@@ -1,22 +1,185 @@
 import exifr from 'exifr';
+import { haversineKm } from './reverseGeocoder.js';
+
+// Beyond these, two images of one analysis are unlikely to show the same scene
+const CONFLICT_DISTANCE_KM = 5;
+const CONFLICT_TIME_GAP_HOURS = 24;
+
+const FULL_FRAME_DIAGONAL_MM = 43.27;  // 36 x 24 mm, the reference of 35 mm-equivalent focal lengths
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
 
 export interface ExifGpsData {
   latitude: number;
   longitude: number;
   altitude?: number;
+  horizontalAccuracy?: number;  // metres (GPSHPositioningError)
   timestamp?: Date;
   make?: string;      // Camera manufacturer
   model?: string;     // Camera model
   software?: string;  // Software used
 }
 
+// When the photo was taken. Camera clocks are local wall-clock time; the
+// exact instant is only known from GPS time or a recorded UTC offset.
+export interface ExifCaptureTime {
+  localTime: string;  // "YYYY-MM-DDTHH:mm:ss" as recorded by the camera
+  utc: Date | null;
+  source: 'gps' | 'offset' | 'local';
+}
+
+// Which way the camera pointed and how much it saw
+export interface CameraView {
+  heading: number | null;  // degrees clockwise from north (GPSImgDirection)
+  headingRef: 'true' | 'magnetic' | null;
+  fieldOfView: number | null;  // horizontal, degrees, from the focal length and sensor size
+  focalLength35mm: number | null;
+}
+
 export interface ExifResult {
   hasGps: boolean;
   gps: ExifGpsData | null;
+  captureTime: ExifCaptureTime | null;
+  view: CameraView | null;
   allMetadata: Record<string, any> | null;
   warning?: string;
 }
 
+// What each uploaded image's EXIF says, for comparing the images with each other
+export interface ImageExifSummary {
+  index: number;
+  gps: { latitude: number; longitude: number; altitude?: number; horizontalAccuracy?: number } | null;  // only plausible coordinates
+  captureTime: ExifCaptureTime | null;
+  view: CameraView | null;
+  camera: string | null;  // "Apple iPhone 13"
+  software: string | null;
+  warning?: string;
+}
+
+export type ExifConflictType = 'gps_far_apart' | 'time_far_apart' | 'different_cameras';
+
+export interface ExifConflict {
+  type: ExifConflictType;
+  images: number[];  // indexes of the images involved
+  message: string;
+}
+
+export interface ExifComparison {
+  images: ImageExifSummary[];
+  conflicts: ExifConflict[];
+  // "yes" when the GPS positions agree, "no" when they are far apart,
+  // "unknown" when fewer than two images have GPS
+  samePlace: 'yes' | 'no' | 'unknown';
+}
+
+export interface MultiImageExif extends ExifComparison {
+  primary: { index: number; result: ExifResult } | null;  // first image with GPS
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "+02:00" / "-0530" -> minutes east of UTC
+const parseUtcOffset = (value: unknown): number | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return null;
+  const minutes = parseInt(match[2]) * 60 + parseInt(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+// GPSDateStamp "2024:06:01" + GPSTimeStamp [h, m, s] (or "h:m:s") are UTC
+const parseGpsInstant = (dateStamp: unknown, timeStamp: unknown): Date | null => {
+  if (typeof dateStamp !== 'string') return null;
+  const time = Array.isArray(timeStamp)
+    ? timeStamp.map(Number)
+    : typeof timeStamp === 'string' ? timeStamp.split(':').map(Number) : null;
+  if (!time || time.length < 3 || time.some(isNaN)) return null;
+
+  const [year, month, day] = dateStamp.split(':').map(Number);
+  const instant = new Date(Date.UTC(year, month - 1, day, time[0], time[1], Math.floor(time[2])));
+  return isNaN(instant.getTime()) ? null : instant;
+};
+
+/**
+ * Read the capture time from parsed EXIF tags. exifr revives DateTimeOriginal
+ * as a Date in the server's time zone, so its local fields are the camera's
+ * wall-clock time.
+ */
+export function extractCaptureTime(exif: Record<string, any>): ExifCaptureTime | null {
+  const taken = exif.DateTimeOriginal || exif.CreateDate || exif.ModifyDate;
+  if (!(taken instanceof Date) || isNaN(taken.getTime())) return null;
+
+  const localTime = `${taken.getFullYear()}-${pad(taken.getMonth() + 1)}-${pad(taken.getDate())}` +
+    `T${pad(taken.getHours())}:${pad(taken.getMinutes())}:${pad(taken.getSeconds())}`;
+
+  const gpsInstant = parseGpsInstant(exif.GPSDateStamp, exif.GPSTimeStamp);
+  if (gpsInstant) {
+    return { localTime, utc: gpsInstant, source: 'gps' };
+  }
+
+  const offset = parseUtcOffset(exif.OffsetTimeOriginal ?? exif.OffsetTime);
+  if (offset !== null) {
+    return { localTime, utc: new Date(new Date(`${localTime}Z`).getTime() - offset * 60000), source: 'offset' };
+  }
+
+  return { localTime, utc: null, source: 'local' };
+}
+
+const positiveNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+// Orientations 5-8 store the image rotated by 90°, so its width is the sensor's height
+const isRotated = (orientation: unknown): boolean =>
+  typeof orientation === 'number' ? orientation >= 5 && orientation <= 8 : /90|270/.test(String(orientation ?? ''));
+
+/**
+ * Horizontal field of view from the 35 mm-equivalent focal length, or from the
+ * real focal length and the sensor size implied by the focal plane resolution
+ */
+function estimateFieldOfView(exif: Record<string, any>): { fieldOfView: number | null; focalLength35mm: number | null } {
+  const rotated = isRotated(exif.Orientation);
+  const pixelWidth = positiveNumber(exif.ExifImageWidth ?? exif.ImageWidth);
+  const pixelHeight = positiveNumber(exif.ExifImageHeight ?? exif.ImageHeight);
+  const toDegrees = (radians: number) => Math.round(radians * 180 / Math.PI * 10) / 10;
+
+  const focalLength35mm = positiveNumber(exif.FocalLengthIn35mmFormat);
+  if (focalLength35mm) {
+    // Equivalence is defined on the diagonal; split it by the aspect ratio as displayed
+    const [w, h] = pixelWidth && pixelHeight
+      ? (rotated ? [pixelHeight, pixelWidth] : [pixelWidth, pixelHeight])
+      : [3, 2];
+    const widthMm = FULL_FRAME_DIAGONAL_MM * w / Math.hypot(w, h);
+    return { fieldOfView: toDegrees(2 * Math.atan(widthMm / (2 * focalLength35mm))), focalLength35mm };
+  }
+
+  const focalLength = positiveNumber(exif.FocalLength);
+  const unitMm = /cm|centimet/i.test(String(exif.FocalPlaneResolutionUnit)) || exif.FocalPlaneResolutionUnit === 3 ? 10
+    : /mm|millimet/i.test(String(exif.FocalPlaneResolutionUnit)) || exif.FocalPlaneResolutionUnit === 4 ? 1
+    : 25.4;  // inches, the default
+  const xResolution = positiveNumber(exif.FocalPlaneXResolution);
+  const yResolution = positiveNumber(exif.FocalPlaneYResolution) ?? xResolution;
+  if (focalLength && pixelWidth && pixelHeight && xResolution && yResolution) {
+    const widthMm = rotated ? pixelHeight / yResolution * unitMm : pixelWidth / xResolution * unitMm;
+    return { fieldOfView: toDegrees(2 * Math.atan(widthMm / (2 * focalLength))), focalLength35mm: null };
+  }
+
+  return { fieldOfView: null, focalLength35mm: null };
+}
+
+function extractCameraView(exif: Record<string, any>): CameraView | null {
+  const direction = typeof exif.GPSImgDirection === 'number' && Number.isFinite(exif.GPSImgDirection)
+    ? ((exif.GPSImgDirection % 360) + 360) % 360
+    : null;
+  const { fieldOfView, focalLength35mm } = estimateFieldOfView(exif);
+  if (direction === null && fieldOfView === null) return null;
+
+  return {
+    heading: direction === null ? null : Math.round(direction * 10) / 10,
+    headingRef: direction === null ? null : /^m/i.test(String(exif.GPSImgDirectionRef ?? '')) ? 'magnetic' : 'true',
+    fieldOfView,
+    focalLength35mm
+  };
+}
+
 /**
  * Extract EXIF data from base64-encoded image
  * Returns GPS coordinates if available
@@ -42,6 +205,8 @@ export async function extractExifData(base64Data: string, mimeType: string): Pro
       return {
         hasGps: false,
         gps: null,
+        captureTime: null,
+        view: null,
         allMetadata: null,
         warning: 'No EXIF metadata found in image'
       };
@@ -51,6 +216,8 @@ export async function extractExifData(base64Data: string, mimeType: string): Pro
     const lat = exif.latitude ?? exif.GPSLatitude;
     const lng = exif.longitude ?? exif.GPSLongitude;
     const hasGps = lat !== undefined && lng !== undefined;
+    const captureTime = extractCaptureTime(exif);
+    const view = extractCameraView(exif);
 
     if (hasGps) {
       return {
@@ -59,11 +226,14 @@ export async function extractExifData(base64Data: string, mimeType: string): Pro
           latitude: lat,
           longitude: lng,
           altitude: exif.GPSAltitude ?? exif.altitude,
+          horizontalAccuracy: positiveNumber(exif.GPSHPositioningError) ?? undefined,
           timestamp: exif.DateTimeOriginal || exif.CreateDate || exif.ModifyDate,
           make: exif.Make,
           model: exif.Model,
           software: exif.Software
         },
+        captureTime,
+        view,
         allMetadata: exif
       };
     }
@@ -71,6 +241,8 @@ export async function extractExifData(base64Data: string, mimeType: string): Pro
     return {
       hasGps: false,
       gps: null,
+      captureTime,
+      view,
       allMetadata: exif,
       warning: 'Image has EXIF data but no GPS coordinates'
     };
@@ -80,28 +252,146 @@ export async function extractExifData(base64Data: string, mimeType: string): Pro
     return {
       hasGps: false,
       gps: null,
+      captureTime: null,
+      view: null,
       allMetadata: null,
       warning: `Failed to extract EXIF: ${(error as Error).message}`
     };
   }
 }
 
+const summarizeExif = (index: number, result: ExifResult): ImageExifSummary => {
+  const metadata = result.allMetadata || {};
+  const gps = result.gps && validateGpsCoordinates(result.gps.latitude, result.gps.longitude)
+    ? {
+        latitude: result.gps.latitude,
+        longitude: result.gps.longitude,
+        altitude: result.gps.altitude,
+        horizontalAccuracy: result.gps.horizontalAccuracy
+      }
+    : null;
+  const camera = [metadata.Make, metadata.Model]
+    .filter((part: unknown) => typeof part === 'string' && part.trim())
+    .map((part: string) => part.trim())
+    .join(' ');
+
+  return {
+    index,
+    gps,
+    captureTime: result.captureTime,
+    view: result.view,
+    camera: camera || null,
+    software: typeof metadata.Software === 'string' ? metadata.Software.trim() || null : null,
+    ...(result.warning ? { warning: result.warning } : {})
+  };
+};
+
+// Best-known instant of a capture; local times are compared as if in one zone
+const captureInstant = (time: ExifCaptureTime): number =>
+  time.utc ? time.utc.getTime() : new Date(`${time.localTime}Z`).getTime();
+
+/**
+ * Flag image pairs whose metadata says they were not taken at one place and
+ * visit: GPS positions far apart, capture times days apart, different cameras
+ */
+export function compareImageExif(images: ImageExifSummary[]): Pick<ExifComparison, 'conflicts' | 'samePlace'> {
+  const conflicts: ExifConflict[] = [];
+  const label = (i: number) => `image ${i + 1}`;
+
+  const located = images.filter(image => image.gps);
+  let farApart = false;
+  for (let a = 0; a < located.length; a++) {
+    for (let b = a + 1; b < located.length; b++) {
+      const km = haversineKm(
+        { lat: located[a].gps!.latitude, lng: located[a].gps!.longitude },
+        { lat: located[b].gps!.latitude, lng: located[b].gps!.longitude }
+      );
+      if (km > CONFLICT_DISTANCE_KM) {
+        farApart = true;
+        conflicts.push({
+          type: 'gps_far_apart',
+          images: [located[a].index, located[b].index],
+          message: `GPS positions of images ${located[a].index + 1} and ${located[b].index + 1} are ${Math.round(km)} km apart`
+        });
+      }
+    }
+  }
+
+  const timed = images.filter(image => image.captureTime);
+  for (let a = 0; a < timed.length; a++) {
+    for (let b = a + 1; b < timed.length; b++) {
+      const hours = Math.abs(captureInstant(timed[a].captureTime!) - captureInstant(timed[b].captureTime!)) / 3600000;
+      if (hours > CONFLICT_TIME_GAP_HOURS) {
+        conflicts.push({
+          type: 'time_far_apart',
+          images: [timed[a].index, timed[b].index],
+          message: `Images ${timed[a].index + 1} and ${timed[b].index + 1} were taken ${Math.round(hours / 24)} days apart`
+        });
+      }
+    }
+  }
+
+  const cameras = new Map<string, number[]>();
+  for (const image of images) {
+    if (!image.camera) continue;
+    cameras.set(image.camera, [...(cameras.get(image.camera) || []), image.index]);
+  }
+  if (cameras.size > 1) {
+    conflicts.push({
+      type: 'different_cameras',
+      images: [...cameras.values()].flat().sort((a, b) => a - b),
+      message: `Taken with different cameras: ${[...cameras.entries()].map(([camera, idx]) => `${camera} (${idx.map(label).join(', ')})`).join('; ')}`
+    });
+  }
+
+  return {
+    conflicts,
+    samePlace: farApart ? 'no' : located.length >= 2 ? 'yes' : 'unknown'
+  };
+}
+
 /**
- * Extract EXIF from multiple images
- * Returns the first image that has GPS data, or null
+ * Extract EXIF from every image and compare them. The primary image (the
+ first with GPS) is the one whose coordinates are used.
  */
 export async function extractExifFromMultiple(
   images: { base64: string; mimeType: string }[]
-): Promise<{ index: number; result: ExifResult } | null> {
+): Promise<MultiImageExif> {
+  const results: ExifResult[] = [];
+  for (const image of images) {
+    results.push(await extractExifData(image.base64, image.mimeType));
+  }
 
-  for (let i = 0; i < images.length; i++) {
-    const result = await extractExifData(images[i].base64, images[i].mimeType);
-    if (result.hasGps) {
-      return { index: i, result };
-    }
+  const primaryIndex = results.findIndex(result => result.hasGps);
+  const summaries = results.map((result, index) => summarizeExif(index, result));
+
+  return {
+    primary: primaryIndex >= 0 ? { index: primaryIndex, result: results[primaryIndex] } : null,
+    images: summaries,
+    ...compareImageExif(summaries)
+  };
+}
+
+/**
+ * What the comparison means for the analysis, or null for a single image or
+ * when there is nothing to say
+ */
+export function formatExifComparisonForPrompt(comparison: ExifComparison): string | null {
+  if (comparison.images.length < 2) return null;
+
+  if (comparison.conflicts.length === 0) {
+    return comparison.samePlace === 'yes'
+      ? 'The GPS positions of all images agree - they show the same place; combine their clues.'
+      : null;
   }
 
-  return null;
+  const lines = comparison.conflicts.map(conflict => `- ${conflict.message}`);
+  // GPS conflicts need two located images, so there is one to anchor on
+  const anchor = (comparison.images.find(image => image.gps)?.index ?? 0) + 1;
+  const advice = comparison.samePlace === 'no'
+    ? `The images were NOT taken at one place. Do not merge clues from different images as if they showed one scene; locate image ${anchor} and mention where the others disagree.`
+    : 'The images may not show one place or one visit. Only combine clues across images when they are visibly consistent.';
+  return `${lines.join('\n')}\n${advice}`;
 }
 
 /**
@@ -124,6 +414,10 @@ export function validateGpsCoordinates(lat: number, lng: number): boolean {
 export function formatGpsForPrompt(gps: ExifGpsData): string {
   let info = `EXIF GPS found: ${gps.latitude.toFixed(6)}, ${gps.longitude.toFixed(6)}`;
 
+  if (gps.horizontalAccuracy) {
+    info += ` (±${gps.horizontalAccuracy.toFixed(0)}m)`;
+  }
+
   if (gps.altitude) {
     info += ` at ${gps.altitude.toFixed(0)}m altitude`;
   }
@@ -138,3 +432,26 @@ export function formatGpsForPrompt(gps: ExifGpsData): string {
 
   return info;
 }
+
+const compassPoint = (degrees: number): string => COMPASS_POINTS[Math.round(degrees / 22.5) % 16];
+
+/**
+ * Describe the camera's view cone for the final search, or null when the
+ * image recorded no heading
+ */
+export function formatCameraViewForPrompt(image: ImageExifSummary, imageCount: number): string | null {
+  const view = image.view;
+  if (!view || view.heading === null) return null;
+
+  let info = `${imageCount > 1 ? `Image ${image.index + 1}: ` : ''}The camera was facing ${view.heading.toFixed(0)}° (${compassPoint(view.heading)}` +
+    `${view.headingRef === 'magnetic' ? ', magnetic north - may be off by the local declination' : ', true north'})`;
+  if (view.fieldOfView) {
+    info += ` with a horizontal field of view of about ${view.fieldOfView.toFixed(0)}°` +
+      ` (${((view.heading - view.fieldOfView / 2 + 360) % 360).toFixed(0)}° to ${((view.heading + view.fieldOfView / 2) % 360).toFixed(0)}°)`;
+  }
+  if (image.gps) {
+    info += `, standing at ${image.gps.latitude.toFixed(6)}, ${image.gps.longitude.toFixed(6)}` +
+      `${image.gps.horizontalAccuracy ? ` (±${image.gps.horizontalAccuracy.toFixed(0)}m)` : ''}`;
+  }
+  return `${info}.`;
+}
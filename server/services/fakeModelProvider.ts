@@ -0,0 +1,117 @@
+/**
+ * Fixture-backed Fake Model Provider
+ * Returns canned responses per pipeline phase so the analysis pipeline can be
+ * exercised deterministically without calling Google.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { ModelProvider, ModelRequest, ModelResponse, ModelUsage } from './modelProvider.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_FIXTURE_PATH = path.join(__dirname, '..', 'fixtures', 'fake-provider.json');
+
+export interface FakeResponseFixture {
+  text?: string;  // raw model text
+  json?: any;  // convenience: serialized as the model text
+  sources?: Array<{ title: string; uri: string }>;
+  groundingMetadata?: unknown;
+  usage?: ModelUsage;
+  error?: string;  // simulate a provider failure with this message
+  status?: number;  // upstream HTTP status of the simulated failure (e.g. 429, 503)
+  code?: string;  // error code of the simulated failure (e.g. PHASE_TIMEOUT)
+  delayMs?: number;  // simulate a slow provider (aborted by the request signal)
+}
+
+export interface FakeProviderFixture {
+  description?: string;
+  model?: string;
+  // Keyed by phase ("final_search"), phase family ("clue_expert") or "*".
+  // An array is served in order, repeating its last entry.
+  responses: Record<string, FakeResponseFixture | FakeResponseFixture[]>;
+}
+
+/**
+ * Load a fixture file from disk
+ */
+export function loadFakeFixture(fixturePath: string = DEFAULT_FIXTURE_PATH): FakeProviderFixture {
+  const raw = fs.readFileSync(path.resolve(fixturePath), 'utf-8');
+  const fixture = JSON.parse(raw) as FakeProviderFixture;
+
+  if (!fixture.responses || typeof fixture.responses !== 'object') {
+    throw new Error(`Fake provider fixture ${fixturePath} has no "responses" map`);
+  }
+
+  return fixture;
+}
+
+/**
+ * Create a fake provider from a fixture object or a fixture file path
+ */
+export function createFakeProvider(source?: string | FakeProviderFixture): ModelProvider {
+  const fixture = typeof source === 'object' ? source : loadFakeFixture(source || DEFAULT_FIXTURE_PATH);
+  const callCounts = new Map<string, number>();
+
+  const findEntry = (phase: string): { key: string; entry: FakeResponseFixture | FakeResponseFixture[] } | null => {
+    const family = phase.split(':')[0];
+    for (const key of [phase, family, '*']) {
+      if (fixture.responses[key]) {
+        return { key, entry: fixture.responses[key] };
+      }
+    }
+    return null;
+  };
+
+  return {
+    name: 'fake',
+    async generate(request: ModelRequest): Promise<ModelResponse> {
+      const found = findEntry(request.phase);
+      if (!found) {
+        throw new Error(`Fake provider has no fixture for phase "${request.phase}"`);
+      }
+
+      let response: FakeResponseFixture;
+      if (Array.isArray(found.entry)) {
+        const count = callCounts.get(found.key) || 0;
+        callCounts.set(found.key, count + 1);
+        response = found.entry[Math.min(count, found.entry.length - 1)];
+      } else {
+        response = found.entry;
+      }
+
+      if (response.delayMs) {
+        await new Promise<void>((resolve, reject) => {
+          const onAbort = () => {
+            clearTimeout(timer);
+            reject(request.signal!.reason);
+          };
+          const timer = setTimeout(() => {
+            request.signal?.removeEventListener('abort', onAbort);
+            resolve();
+          }, response.delayMs);
+          request.signal?.addEventListener('abort', onAbort, { once: true });
+        });
+      }
+      request.signal?.throwIfAborted();
+
+      if (response.error) {
+        throw Object.assign(
+          new Error(response.error),
+          response.status ? { status: response.status } : {},
+          response.code ? { code: response.code } : {}
+        );
+      }
+
+      return {
+        text: response.json !== undefined ? JSON.stringify(response.json) : response.text,
+        sources: response.sources || [],
+        groundingMetadata: response.groundingMetadata,
+        usage: response.usage || null,
+        model: request.model || fixture.model || 'fake-model'
+      };
+    }
+  };
+}
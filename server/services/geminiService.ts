@@ -1,18 +1,31 @@
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
-
-// Lazy initialization - create client on first use (after dotenv loads)
-let _ai: GoogleGenAI | null = null;
-
-const getAI = () => {
-  if (!_ai) {
-    const key = process.env.GEMINI_API_KEY;
-    if (!key) {
-      throw new Error('GEMINI_API_KEY is not set in environment!');
-    }
-    _ai = new GoogleGenAI({ apiKey: key });
-  }
-  return _ai;
-};
+import { getModelProvider, ModelProvider, ModelRequest, ModelResponse } from './modelProvider.js';
+import { createProgressReporter, AnalysisPhase, ProgressListener, ProgressReporter } from './analysisProgress.js';
+import { createError } from '../middleware/errorHandler.js';
+import {
+  parseModelOutput,
+  formatSchemaErrors,
+  SchemaNode,
+  SchemaError,
+  CLUE_EXPERT_OUTPUT_SCHEMA,
+  GEO_RESULT_SCHEMA
+} from './outputSchema.js';
+import { checkSolarConsistency, ShadowEstimate, SolarCheck } from './solarPosition.js';
+import { ExifCaptureTime } from './exifService.js';
+import { checkLocationConsistency, countryCodeForName, ReverseGeocode } from './reverseGeocoder.js';
+import { buildMetaClueInstructions, rankCountries, MetaClueObservation, MetaClueRanking } from './metaClueRules.js';
+import { extractTextPatterns, TextPatternResult } from './textPatterns.js';
+import { identifyLanguages, LanguageIdentification } from './languageIdentifier.js';
+import { clusterCoordinates } from './coordinateClustering.js';
+import { isCancellation } from './analysisDeadlines.js';
+import {
+  CLUE_EXPERT_TEXT,
+  CLUE_EXPERT_BUILT,
+  CLUE_EXPERT_NATURAL,
+  DEFAULT_PROMPT_SET,
+  PROMPT_KEYS,
+  PromptSet,
+  PromptVersionRef
+} from './defaultPrompts.js';
 
 // Types
 export interface LocationHints {
@@ -23,6 +36,9 @@ export interface LocationHints {
   exifGps?: string; // GPS coordinates extracted from EXIF metadata
   reverseImageSearch?: string; // Results from Cloud Vision reverse image search
   confirmedLocations?: string[]; // High-confidence locations from SerpAPI (to be used in search queries)
+  metadataForensics?: string; // IPTC/XMP location fields, time zone and editing findings (metadataForensics.ts)
+  imageConsistency?: string; // Whether the images' EXIF says they show one place (exifService.ts)
+  cameraView?: string; // Heading and field of view from EXIF (final search only)
 }
 
 export interface EvidenceItem {
@@ -65,6 +81,56 @@ export interface GeoAnalysisResult {
   };
   searchQueriesUsed: string[];
   sources: Array<{ title: string; uri: string }>;
+  promptVersions?: Record<string, PromptVersionRef>;  // registry versions that produced this result
+  cachedAt?: number;  // set when the result was served from the analysis cache (original run time)
+  solarCheck?: SolarCheck;  // sun position vs. observed shadows at the EXIF capture time
+  reverseGeocode?: ReverseGeocode;  // where the returned coordinates actually are (offline gazetteer)
+  metaClueRanking?: MetaClueRanking;  // country ranking from the meta-clue rule tables (top countries only)
+  languageIdentification?: LanguageIdentification;  // language/script of each transcribed string
+  ensemble?: EnsembleSummary;  // thorough mode: how the repeated final searches agreed
+  fallback?: boolean;  // the final search failed - this is the experts' region guess
+}
+
+// One group of agreeing final-search answers (thorough mode)
+export interface EnsembleCluster {
+  centroid: { lat: number; lng: number };
+  spreadKm: number;  // farthest member from the centroid
+  runs: number;  // searches that landed in this cluster
+  locationNames: string[];
+}
+
+export interface EnsembleSummary {
+  runs: number;  // searches started
+  succeeded: number;  // searches that returned a result
+  withCoordinates: number;  // results that had coordinates (only these are clustered)
+  agreement: number;  // 0-100, share of located runs in the dominant cluster
+  uncertaintyRadiusKm: number | null;  // dominant cluster spread, null without coordinates
+  clusters: EnsembleCluster[];  // largest first
+}
+
+// "single" commits to one location; "candidates" verifies the top competing
+// regions with separate grounded searches and returns them as candidates;
+// "thorough" repeats the final search and keeps the answer most runs agree on
+export type AnalysisMode = 'single' | 'candidates' | 'thorough';
+
+export const ANALYSIS_MODES: AnalysisMode[] = ['single', 'candidates', 'thorough'];
+
+// Options for a single analysis run
+export interface AnalysisOptions {
+  mode?: AnalysisMode;  // defaults to "single"
+  prompts?: PromptSet;  // active registry prompts; defaults to the built-in prompts
+  captureTime?: ExifCaptureTime | null;  // EXIF capture time, enables the solar consistency check
+  provider?: ModelProvider;  // defaults to the configured provider (MODEL_PROVIDER)
+  onProgress?: ProgressListener;  // receives live phase events
+  signal?: AbortSignal;  // cancels the analysis; the abort reason is rethrown
+}
+
+// Per-analysis state threaded through every phase
+interface AnalysisContext {
+  provider: ModelProvider;
+  report: ProgressReporter;
+  prompts: PromptSet;
+  signal?: AbortSignal;
 }
 
 // Phase 1 output: Evidence + Multiple Hypotheses (no search yet)
@@ -109,105 +175,6 @@ interface ExpertConsensus {
   conflicts: string[];  // conflicting evidence
 }
 
-// ============ CLUE-FOCUSED EXPERT PROMPTS ============
-// Experts focus on finding SEARCHABLE clues, not just regions
-
-const CLUE_EXPERT_TEXT = `You are an OSINT text analyst specializing in extracting searchable information from images.
-
-## YOUR MISSION
-Find ALL text, signs, and written elements that could help identify the EXACT location. Focus on things that can be SEARCHED online.
-
-## PRIORITY CLUES (most valuable):
-1. **Business names** - exact names of shops, restaurants, hotels
-2. **Street names** - any visible street or road names
-3. **Phone numbers** - with country/area codes
-4. **Addresses** - any visible address fragments
-5. **Domain names** - websites, emails (.fr, .de, .ru, etc.)
-6. **License plates** - format and visible characters
-7. **Brand names** - local brands, store chains
-8. **Landmarks** - named monuments, stations, squares
-
-## OUTPUT FORMAT (JSON only):
-{
-  "expertType": "text",
-  "searchableClues": [
-    {"clue": "Restaurant 'Le Petit Marseillais'", "type": "business_name", "searchQuery": "Le Petit Marseillais restaurant"},
-    {"clue": "Street sign 'Rue de la République'", "type": "street_name", "searchQuery": "Rue de la République"},
-    {"clue": "Phone +33 4 91 XX XX XX", "type": "phone", "searchQuery": null}
-  ],
-  "languageClues": ["French text", "PHARMACIE sign"],
-  "transcribedText": ["PHARMACIE", "Le Petit", "Rue de la..."],
-  "suggestedRegions": [
-    {"region": "France", "confidence": 85, "reasoning": "French language text, French phone format +33"}
-  ]
-}`;
-
-const CLUE_EXPERT_BUILT = `You are an OSINT analyst specializing in architecture, infrastructure, and man-made environment analysis.
-
-## YOUR MISSION
-Find architectural and infrastructure elements that help narrow down the SPECIFIC location. Focus on UNIQUE identifiers.
-
-## PRIORITY CLUES:
-1. **Unique buildings** - distinctive towers, monuments, recognizable structures
-2. **Building styles** - specific architectural periods/styles (Art Deco, Brutalist, etc.)
-3. **Road infrastructure** - specific road markings, sign styles, pole types
-4. **Transport** - metro stations, tram lines, bus stops with names
-5. **Landmarks** - churches, stadiums, bridges, squares
-6. **Street furniture** - country-specific benches, bollards, trash cans
-
-## KEY COUNTRY INDICATORS:
-- Yellow center lines = Americas, China
-- White center lines = Europe, Japan, Australia
-- Driving on left = UK, Japan, Australia, India
-- Blue street signs = France, Germany
-- Green street signs = USA, UK
-
-## OUTPUT FORMAT (JSON only):
-{
-  "expertType": "built_environment",
-  "searchableClues": [
-    {"clue": "Gothic cathedral with twin spires", "type": "landmark", "searchQuery": "gothic cathedral twin spires"},
-    {"clue": "Metro station entrance 'M' logo", "type": "transport", "searchQuery": null}
-  ],
-  "infrastructureClues": ["White road markings", "Concrete utility poles", "Right-hand traffic"],
-  "architectureStyle": "Mediterranean modernist, 1970s apartment blocks",
-  "suggestedRegions": [
-    {"region": "Western Europe", "confidence": 70, "reasoning": "White road markings, right-hand traffic, European architecture"}
-  ]
-}`;
-
-const CLUE_EXPERT_NATURAL = `You are an OSINT analyst specializing in natural environment, geography, and climate indicators.
-
-## YOUR MISSION
-Analyze natural elements to help narrow down the location. Focus on DISTINCTIVE features.
-
-## PRIORITY CLUES:
-1. **Mountains/Hills** - recognizable peaks, mountain ranges
-2. **Water bodies** - coastline shape, rivers, lakes
-3. **Vegetation** - specific tree species, unique plants
-4. **Climate indicators** - sun angle, shadows, weather
-5. **Terrain** - soil color, rock formations, landscape type
-
-## OUTPUT FORMAT (JSON only):
-{
-  "expertType": "natural_environment",
-  "searchableClues": [
-    {"clue": "Volcanic mountain with snow cap in background", "type": "landmark", "searchQuery": "snow capped volcano"},
-    {"clue": "Mediterranean coastline with rocky coves", "type": "geography", "searchQuery": null}
-  ],
-  "vegetationClues": ["Mediterranean pine trees", "Palm trees (Phoenix species)", "Dry summer grass"],
-  "climateIndicators": ["Strong sunlight", "Low humidity", "Summer season"],
-  "suggestedRegions": [
-    {"region": "Mediterranean", "confidence": 75, "reasoning": "Mediterranean vegetation, dry climate, coastal geography"}
-  ]
-}`;
-
-const CLUE_EXPERTS = [
-  { name: 'text', prompt: CLUE_EXPERT_TEXT },
-  { name: 'built_environment', prompt: CLUE_EXPERT_BUILT },
-  { name: 'natural_environment', prompt: CLUE_EXPERT_NATURAL },
-];
-
 // ============ CLUE EXPERT OUTPUT TYPES ============
 
 interface SearchableClue {
@@ -232,6 +199,8 @@ interface ClueExpertOutput {
   architectureStyle?: string;  // For built expert
   vegetationClues?: string[];  // For natural expert
   climateIndicators?: string[];  // For natural expert
+  shadows?: ShadowEstimate | null;  // For built expert
+  metaClues?: MetaClueObservation[];  // Structured observations for the rule engine
   suggestedRegions?: RegionGuess[];  // Region guesses from expert
 }
 
@@ -242,65 +211,12 @@ interface AggregatedClues {
   allNature: string[];  // Nature/vegetation observations
   suggestedSearchQueries: string[];  // Pre-built search queries
   regionGuesses: RegionGuess[];  // Aggregated region guesses from all experts
+  shadows: ShadowEstimate | null;  // Best shadow observation (measured length preferred)
+  metaClueRanking: MetaClueRanking | null;  // Rule engine ranking of all countries
+  textPatterns: TextPatternResult;  // Phones, postcodes, domains etc. parsed from allText
+  languages: LanguageIdentification | null;  // Language/script of each transcribed string
 }
 
-// ============ FINAL SEARCH PROMPT ============
-// This prompt gets ALL clues from experts and must find the SPECIFIC location
-
-const FINAL_SEARCH_PROMPT = `You are an expert OSINT geolocation analyst. Your mission is to find the EXACT, SPECIFIC location shown in the image(s).
-
-## CRITICAL: FOCUS ON SPECIFIC LOCATION
-Your goal is NOT to identify a country or city. Your goal is to find the SPECIFIC place:
-- A specific street corner, address, or intersection
-- A specific business, landmark, or building
-- Exact coordinates that can be verified on Google Maps
-
-## YOU HAVE RECEIVED CLUES FROM 3 EXPERT ANALYSTS:
-These experts have already analyzed the image and extracted searchable clues. USE THEM!
-
-## YOUR TASK:
-1. Take the searchable clues and SEARCH FOR THEM using Google Search
-2. Cross-reference findings to narrow down to ONE specific location
-3. Verify by searching for Street View or photos of the candidate location
-4. If you find the exact location, provide precise coordinates
-
-## SEARCH STRATEGY:
-1. Start with the MOST specific clues (business names, addresses, phone numbers)
-2. Combine clues: "Restaurant ABC near X landmark" or "Street Y in city Z"
-3. Look for photo matches or Street View that shows the same scene
-4. If first search doesn't work, try variations
-
-## CONFIDENCE SCORING:
-- 90-100%: Found EXACT match (Street View confirms, same buildings visible)
-- 70-89%: Found the specific area, high certainty about general location
-- 50-69%: Found likely location but couldn't verify visually
-- 30-49%: Best educated guess based on clues
-- 0-29%: Speculation only
-
-## OUTPUT FORMAT (JSON only):
-{
-  "locationName": "Specific address or landmark name",
-  "coordinates": { "lat": number, "lng": number } or null,
-  "confidenceScore": number (0-100),
-  "confidence": {
-    "region": number,
-    "local": number
-  },
-  "reasoning": ["Step-by-step what you searched and found"],
-  "evidence": [
-    { "clue": "what you found", "strength": "hard|medium|soft", "supports": "location" }
-  ],
-  "alternativeLocations": ["Other possible locations if uncertain"],
-  "uncertainties": ["What you couldn't verify"],
-  "visualCues": {
-    "signs": "All text found",
-    "architecture": "Building styles",
-    "environment": "Nature/climate",
-    "demographics": "People/vehicles if visible"
-  },
-  "searchQueriesUsed": ["actual queries you used"]
-}`;
-
 // Legacy experts (kept for backward compatibility, but not used in new flow)
 const EXPERT_VEGETATION = CLUE_EXPERT_NATURAL;
 const EXPERT_ARCHITECTURE = CLUE_EXPERT_BUILT;
@@ -420,118 +336,11 @@ You received evidence and 3 hypotheses from Phase 1. Now you must:
 }
 `;
 
-// ============ LEGACY: Single-phase instruction (kept for refine) ============
-const SYSTEM_INSTRUCTION = `
-You are an expert Open Source Intelligence (OSINT) geolocation analyst. Your goal is to determine the precise location of the provided photograph(s). If multiple images are provided, they are from the same location or immediate vicinity.
-
-## MANDATORY 4-STEP METHODOLOGY
-
-### STEP 1: EXTRACT (List ALL visual clues)
-Systematically scan and document:
-- **Text/Signs**: Every readable text, language, script, phone formats, domain extensions (.pl, .de, .ru)
-- **License plates**: Format, colors, country codes
-- **Business names**: Search each one!
-- **Street furniture**: Bollards, benches, trash bins, mailboxes (each country has unique designs)
-
-### STEP 2: NARROW REGION (Use infrastructure fingerprints)
-**Country-Specific Signatures:**
-- 🇮🇩 Indonesia: Red-white painted poles, ojek motorbikes
-- 🇲🇾 Malaysia: Black rectangles with numbers on poles, palm oil trucks
-- 🇯🇵 Japan: Yellow tactile blocks, K-barriers, vending machines everywhere
-- 🇷🇺 Russia: Blue street signs with white text, yellow curbs, marshrutkas
-- 🇺🇦 Ukraine: Yellow-blue elements, Cyrillic with "і" and "ї"
-- 🇵🇱 Poland: White/red poles, "Żabka" stores, ".pl" domains
-- 🇩🇪 Germany: Yellow post boxes, Ampelmännchen signals
-- 🇫🇷 France: Green pharmacy crosses, blue street signs
-- 🇬🇧 UK: Red phone boxes, left-hand traffic, "Way Out" signs
-- 🇺🇸 USA: Yellow school buses, wide roads, mph speed signs
-- 🇦🇺 Australia: Kangaroo signs, left-hand traffic, "servo" stations
-- 🇧🇷 Brazil: Portuguese text, favela architecture, "lanchonete" signs
-
-**Road Markings:**
-- Yellow center lines: Americas, China
-- White center lines: Europe, Japan, Australia
-- Dashed patterns vary by country
-
-**Utility Poles:**
-- Wood: USA, Canada, Australia
-- Concrete: Europe, Japan, South America
-- Metal lattice: Russia, Eastern Europe
-
-### STEP 3: PINPOINT (Search & Locate)
-- Use googleSearch for business names, addresses, landmarks, street names
-- Use googleMaps to find and verify locations by NAME (not coordinates!)
-- Search for specific text you found (e.g., "ABC Restaurant Tokyo")
-- **IMPORTANT**: NEVER pass raw coordinates (lat/lng numbers) to search tools - they will fail!
-  - WRONG: searching "48.8584, 2.2945"
-  - CORRECT: searching "Eiffel Tower Paris"
-- Cross-reference multiple sources to verify
-
-### STEP 4: VERIFY (Check consistency)
-Before finalizing, verify:
-- Does sun/shadow match the latitude?
-- Is vegetation consistent with climate?
-- Do all visual elements match the proposed location?
-- Search for Street View of candidate location
-
-## CONFIDENCE SCORING GUIDE
-Use SEPARATE scores for region vs local precision:
-- **Region confidence** (country/area): How sure are you about the country/region?
-- **Local confidence** (specific spot): How sure are you about the exact coordinates?
-
-Example: You might be 95% sure it's Japan but only 40% sure it's this specific street in Tokyo.
-
-Score meanings:
-- **90-100%**: Verified with hard evidence (readable text confirmed via search)
-- **70-89%**: Strong indicators verified (landmark/business found)
-- **50-69%**: Multiple consistent soft clues
-- **30-49%**: Educated guess based on patterns
-- **0-29%**: Speculation only
-
-## EVIDENCE CATEGORIZATION
-Categorize each clue by strength:
-- **hard**: Readable text, signs, license plates, verified business names
-- **medium**: Infrastructure patterns, road markings, architectural style
-- **soft**: Vegetation, weather, general "vibe", unverified assumptions
-
-## SELF-CRITIQUE (Important!)
-Before finalizing, ask yourself:
-- What OTHER locations could match these clues?
-- What evidence would DISPROVE my conclusion?
-- Am I being overconfident without hard evidence?
-
-Be honest about uncertainty. "Possibly Tokyo" is better than a wrong confident answer.
-
-## OUTPUT FORMAT
-Return ONLY a valid JSON object (no markdown):
-{
-  "locationName": "Specific address or location name",
-  "coordinates": { "lat": number, "lng": number } or null,
-  "confidenceScore": number (0-100, overall for backward compatibility),
-  "confidence": {
-    "region": number (0-100, country/area certainty),
-    "local": number (0-100, specific location certainty)
-  },
-  "reasoning": ["Step 1: Found X...", "Step 2: Y suggests...", "Step 3: Search confirmed...", "Step 4: Verified..."],
-  "evidence": [
-    { "clue": "Sign reads 'ABC Store'", "strength": "hard", "supports": "Tokyo, Japan" },
-    { "clue": "Yellow tactile blocks on sidewalk", "strength": "medium", "supports": "Japan" }
-  ],
-  "alternativeLocations": ["Other possible location 1", "Could also be..."],
-  "uncertainties": ["Could not verify X", "Sign partially obscured"],
-  "visualCues": {
-    "signs": "All text and signs found",
-    "architecture": "Building style analysis",
-    "environment": "Nature, weather, terrain",
-    "demographics": "People, vehicles, clothing"
-  },
-  "searchQueriesUsed": ["query1", "query2"]
-}
-`;
+const NO_RESPONSE_MESSAGE = "The AI provided no response. This often happens if the image triggers safety filters (e.g., identifiable people, license plates, or potential privacy concerns). Try cropping the image or using a different angle.";
 
 const parseResponse = (text: string | undefined): any => {
   if (!text) {
-    throw new Error("The AI provided no response. This often happens if the image triggers safety filters (e.g., identifiable people, license plates, or potential privacy concerns). Try cropping the image or using a different angle.");
+    throw new Error(NO_RESPONSE_MESSAGE);
   }
   try {
     const firstBrace = text.indexOf('{');
@@ -559,7 +368,7 @@ const normalizeEvidence = (evidence: any[]): EvidenceItem[] => {
   }));
 };
 
-// Normalize response to ensure all fields exist (backward compatibility)
+// Normalize response to ensure all fields exist (optional fields get defaults)
 const normalizeResult = (data: any): GeoAnalysisResult => {
   const score = data.confidenceScore ?? 50;
 
@@ -588,6 +397,77 @@ const normalizeResult = (data: any): GeoAnalysisResult => {
   };
 };
 
+// ============ STRUCTURED OUTPUT ============
+
+const MAX_REPAIR_ATTEMPTS = 2;  // re-prompts after the first malformed response
+const MAX_ECHOED_RESPONSE_LENGTH = 4000;
+
+// Ask the model to fix its own output, quoting the validation errors
+const buildRepairPrompt = (originalPrompt: string, previousText: string, errors: SchemaError[]): string => {
+  const echoed = previousText.length > MAX_ECHOED_RESPONSE_LENGTH
+    ? `${previousText.substring(0, MAX_ECHOED_RESPONSE_LENGTH)}\n...(truncated)`
+    : previousText;
+
+  return `${originalPrompt}
+
+## YOUR PREVIOUS RESPONSE WAS REJECTED
+It did not match the required JSON format:
+${formatSchemaErrors(errors)}
+
+Previous response:
+${echoed}
+
+Return the corrected response as ONLY a valid JSON object in the format specified. Keep your findings; fix only the listed problems.`;
+};
+
+// Generate and validate structured output. Malformed responses are sent back to the
+// model with the validation errors up to MAX_REPAIR_ATTEMPTS times before failing
+// with PARSE_FAILED. Empty responses (safety filter) throw NO_RESPONSE_MESSAGE as before.
+const generateStructured = async (
+  ctx: AnalysisContext,
+  request: ModelRequest,
+  schema: SchemaNode,
+  progressPhase: AnalysisPhase
+): Promise<{ data: any; response: ModelResponse }> => {
+  const sources: Array<{ title: string; uri: string }> = [];
+  let current = request;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await ctx.provider.generate(current);
+    if (!response.text) {
+      throw new Error(NO_RESPONSE_MESSAGE);
+    }
+    sources.push(...response.sources);
+
+    const parsed = parseModelOutput(response.text, schema);
+    if (parsed.errors.length === 0) {
+      const uniqueSources = sources.filter((source, idx) => sources.findIndex(s => s.uri === source.uri) === idx);
+      return { data: parsed.data, response: { ...response, sources: uniqueSources } };
+    }
+
+    console.log(`[Schema] ${request.phase} output invalid (attempt ${attempt + 1}):\n${formatSchemaErrors(parsed.errors)}`);
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw createError(
+        `The model returned malformed ${request.phase} output after ${attempt + 1} attempts (${parsed.errors.slice(0, 3).map(e => `${e.path}: ${e.message}`).join('; ')})`,
+        502,
+        'PARSE_FAILED'
+      );
+    }
+
+    ctx.report('retry', progressPhase, `Repairing malformed ${request.phase} output (attempt ${attempt + 2}/${MAX_REPAIR_ATTEMPTS + 1})`, {
+      reason: 'schema_validation',
+      errors: parsed.errors.slice(0, 5).map(e => `${e.path}: ${e.message}`)
+    });
+    current = {
+      ...request,
+      phase: `${request.phase}:repair`,
+      prompt: buildRepairPrompt(request.prompt, response.text, parsed.errors),
+      attempt: (request.attempt || 0) + attempt + 1
+    };
+  }
+};
+
 // Constants for multi-result logic
 const DEFINITIVE_THRESHOLD = 75;  // If top candidate has >75%, it's definitive
 const MIN_CANDIDATE_THRESHOLD = 15;  // Candidate must have >15% to be shown
@@ -595,8 +475,7 @@ const GAP_THRESHOLD = 40;  // If top > second by 40+ points, it's definitive
 
 // Build location candidates from expert consensus
 const buildCandidatesFromConsensus = (
-  consensus: ExpertConsensus,
-  expertResults: ExpertAnalysis[]
+  consensus: ExpertConsensus
 ): { isDefinitive: boolean; candidates: LocationCandidate[] } => {
   const topRegions = consensus.topRegions.slice(0, 5);
 
@@ -657,50 +536,25 @@ const buildCandidatesFromConsensus = (
   };
 };
 
-const extractSources = (response: any) => {
-  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-  return groundingChunks
-    .filter((chunk: any) => chunk.web?.uri || chunk.maps?.uri)
-    .map((chunk: any) => ({
-      title: chunk.web?.title || chunk.maps?.title || "Source Link",
-      uri: chunk.web?.uri || chunk.maps?.uri
-    }));
-};
-
-const SAFETY_SETTINGS = [
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-];
-
-// Helper: Call Gemini API with automatic retry on googleMaps coordinate errors
+// Helper: Call the model with automatic retry on googleMaps coordinate errors
 const callGeminiWithRetry = async (
+  ctx: AnalysisContext,
   imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
   promptText: string
-) => {
+): Promise<{ data: any; response: ModelResponse }> => {
+  const request: ModelRequest = {
+    phase: 'refine',
+    systemInstruction: ctx.prompts.refine,
+    prompt: promptText,
+    images: imageParts,
+  };
+
   try {
-    return await getAI().models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [...imageParts, { text: promptText }] },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        tools: [{ googleSearch: {} }, { googleMaps: {} }],
-        safetySettings: SAFETY_SETTINGS,
-      }
-    });
+    return await generateStructured(ctx, { ...request, tools: ['googleSearch', 'googleMaps'] }, GEO_RESULT_SCHEMA, 'final_search');
   } catch (err: any) {
     // googleMaps tool fails when model passes raw coordinates - retry without it
     if (err.message?.includes('Coordinates are not a valid input')) {
-      return await getAI().models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [...imageParts, { text: promptText }] },
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          tools: [{ googleSearch: {} }],
-          safetySettings: SAFETY_SETTINGS,
-        }
-      });
+      return await generateStructured(ctx, { ...request, tools: ['googleSearch'] }, GEO_RESULT_SCHEMA, 'final_search');
     }
     throw err;
   }
@@ -729,12 +583,10 @@ const buildPromptWithHints = (basePrompt: string, hints?: LocationHints): string
   return prompt;
 };
 
-// Helper: Process Gemini response into result
-const processGeminiResponse = (response: any): GeoAnalysisResult => {
-  const parsedData = parseResponse(response.text);
-  const sources = extractSources(response);
-  const result = normalizeResult(parsedData);
-  result.sources = sources;
+// Helper: Turn validated model output into a result
+const processGeminiResponse = ({ data, response }: { data: any; response: ModelResponse }): GeoAnalysisResult => {
+  const result = normalizeResult(data);
+  result.sources = response.sources;
   return result;
 };
 
@@ -742,88 +594,134 @@ const processGeminiResponse = (response: any): GeoAnalysisResult => {
 
 // Run a single clue expert (no search tools - just observation)
 const runClueExpert = async (
+  ctx: AnalysisContext,
   expertPrompt: string,
   expertName: string,
   imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
   hints?: LocationHints
-): Promise<ClueExpertOutput | null> => {
-  try {
-    let promptText = 'Analyze this image from your expert perspective. Extract ALL searchable clues.\n';
-
-    // Add hints context
-    if (hints?.continent || hints?.country || hints?.city || hints?.additionalInfo) {
-      promptText += '\n**USER HINTS (focus your search):**\n';
-      if (hints.continent) promptText += `- Continent: ${hints.continent}\n`;
-      if (hints.country) promptText += `- Country: ${hints.country}\n`;
-      if (hints.city) promptText += `- City/Region: ${hints.city}\n`;
-      if (hints.additionalInfo) promptText += `- Additional context: ${hints.additionalInfo}\n`;
-    }
+): Promise<ClueExpertOutput> => {
+  let promptText = 'Analyze this image from your expert perspective. Extract ALL searchable clues.\n';
+
+  // Add hints context
+  if (hints?.continent || hints?.country || hints?.city || hints?.additionalInfo) {
+    promptText += '\n**USER HINTS (focus your search):**\n';
+    if (hints.continent) promptText += `- Continent: ${hints.continent}\n`;
+    if (hints.country) promptText += `- Country: ${hints.country}\n`;
+    if (hints.city) promptText += `- City/Region: ${hints.city}\n`;
+    if (hints.additionalInfo) promptText += `- Additional context: ${hints.additionalInfo}\n`;
+  }
+  if (hints?.metadataForensics) {
+    promptText += `\n**PHOTO METADATA (claims to verify against what you see):**\n${hints.metadataForensics}\n`;
+  }
+  if (hints?.imageConsistency) {
+    promptText += `\n**ARE THESE IMAGES ONE PLACE? (from their metadata):**\n${hints.imageConsistency}\n`;
+  }
 
-    promptText += '\nReturn ONLY valid JSON in the format specified.';
+  promptText += buildMetaClueInstructions();
+  promptText += '\nReturn ONLY valid JSON in the format specified.';
+
+  const { data: parsed } = await generateStructured(ctx, {
+    phase: `clue_expert:${expertName}`,
+    systemInstruction: expertPrompt,
+    prompt: promptText,
+    images: imageParts,
+  }, CLUE_EXPERT_OUTPUT_SCHEMA, 'clue_experts');
+  const searchableClues: SearchableClue[] = parsed.searchableClues.map((c: any) => ({
+    clue: c.clue,
+    type: c.type,
+    searchQuery: c.searchQuery ?? null
+  }));
 
-    const response = await getAI().models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [...imageParts, { text: promptText }] },
-      config: {
-        systemInstruction: expertPrompt,
-        safetySettings: SAFETY_SETTINGS,
-      }
-    });
+  // Tag region guesses with expert source
+  const suggestedRegions: RegionGuess[] = (parsed.suggestedRegions || []).map((r: any) => ({
+    region: r.region,
+    confidence: r.confidence,
+    reasoning: r.reasoning || '',
+    expertSource: expertName
+  }));
 
-    const parsed = parseResponse(response.text);
+  ctx.report('expert_result', 'clue_experts', `${expertName} expert found ${searchableClues.length} searchable clues`, {
+    expert: expertName,
+    clueCount: searchableClues.length,
+    regionCount: suggestedRegions.length
+  });
 
-    // Parse and tag region guesses with expert source
-    const suggestedRegions: RegionGuess[] = (parsed.suggestedRegions || []).map((r: any) => ({
-      region: r.region || 'Unknown',
-      confidence: r.confidence || 50,
-      reasoning: r.reasoning || '',
+  return {
+    expertType: expertName,
+    searchableClues,
+    languageClues: parsed.languageClues || [],
+    transcribedText: parsed.transcribedText || [],
+    infrastructureClues: parsed.infrastructureClues || [],
+    architectureStyle: parsed.architectureStyle || '',
+    vegetationClues: parsed.vegetationClues || [],
+    climateIndicators: parsed.climateIndicators || [],
+    shadows: parsed.shadows
+      ? {
+          visible: parsed.shadows.visible,
+          lengthRatio: parsed.shadows.lengthRatio ?? null,
+          direction: parsed.shadows.direction ?? null,
+          reasoning: parsed.shadows.reasoning
+        }
+      : null,
+    metaClues: (parsed.metaClues || []).map((m: any) => ({
+      category: m.category,
+      value: m.value,
       expertSource: expertName
-    }));
-
-    return {
-      expertType: expertName,
-      searchableClues: parsed.searchableClues || [],
-      languageClues: parsed.languageClues || [],
-      transcribedText: parsed.transcribedText || [],
-      infrastructureClues: parsed.infrastructureClues || [],
-      architectureStyle: parsed.architectureStyle || '',
-      vegetationClues: parsed.vegetationClues || [],
-      climateIndicators: parsed.climateIndicators || [],
-      suggestedRegions
-    };
-  } catch (err: any) {
-    console.log(`[ClueExpert:${expertName}] Error: ${err.message}`);
-    return null;
-  }
+    })),
+    suggestedRegions
+  };
 };
 
-// Run all 3 clue experts in parallel
+// Run all clue experts in parallel. Failed experts are skipped; their errors are
+// returned so the caller can tell malformed output apart from other failures.
 const runAllClueExperts = async (
+  ctx: AnalysisContext,
   imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
   hints?: LocationHints
-): Promise<ClueExpertOutput[]> => {
-  console.log('[ClueExperts] Running 3 clue experts in parallel...');
-
-  const expertPromises = CLUE_EXPERTS.map(expert =>
-    runClueExpert(expert.prompt, expert.name, imageParts, hints)
-  );
-
-  const results = await Promise.all(expertPromises);
-  const validResults = results.filter((r): r is ClueExpertOutput => r !== null);
+): Promise<{ results: ClueExpertOutput[]; failures: any[] }> => {
+  const experts = ctx.prompts.clueExperts;
+  console.log(`[ClueExperts] Running ${experts.length} clue experts in parallel...`);
+
+  const settled = await Promise.allSettled(experts.map(expert =>
+    runClueExpert(ctx, expert.prompt, expert.name, imageParts, hints)
+  ));
+  // A cancelled analysis is not a set of failed experts
+  ctx.signal?.throwIfAborted();
+
+  const results: ClueExpertOutput[] = [];
+  const failures: any[] = [];
+  settled.forEach((outcome, idx) => {
+    if (outcome.status === 'fulfilled') {
+      results.push(outcome.value);
+      return;
+    }
+    const expertName = experts[idx].name;
+    const err = outcome.reason;
+    console.log(`[ClueExpert:${expertName}] Error: ${err?.message}`);
+    ctx.report('expert_result', 'clue_experts', `${expertName} expert failed`, {
+      expert: expertName,
+      failed: true,
+      error: err?.message,
+      code: err?.code
+    });
+    failures.push(err);
+  });
 
-  console.log(`[ClueExperts] ${validResults.length}/${CLUE_EXPERTS.length} experts returned results`);
+  console.log(`[ClueExperts] ${results.length}/${experts.length} experts returned results`);
 
-  return validResults;
+  return { results, failures };
 };
 
 // Aggregate all clues from experts into a single structure
 const aggregateClues = (expertResults: ClueExpertOutput[]): AggregatedClues => {
   const allSearchable: SearchableClue[] = [];
   const allText: string[] = [];
+  const allTranscribed: string[] = [];
   const allInfra: string[] = [];
   const allNature: string[] = [];
   const queries: string[] = [];
   const allRegions: RegionGuess[] = [];
+  const allMetaClues: MetaClueObservation[] = [];
 
   for (const expert of expertResults) {
     // Collect searchable clues
@@ -837,6 +735,7 @@ const aggregateClues = (expertResults: ClueExpertOutput[]): AggregatedClues => {
     // Collect text clues
     if (expert.transcribedText) {
       allText.push(...expert.transcribedText);
+      allTranscribed.push(...expert.transcribedText);
     }
     if (expert.languageClues) {
       allText.push(...expert.languageClues);
@@ -862,6 +761,11 @@ const aggregateClues = (expertResults: ClueExpertOutput[]): AggregatedClues => {
     if (expert.suggestedRegions) {
       allRegions.push(...expert.suggestedRegions);
     }
+
+    // Collect structured meta clues
+    if (expert.metaClues) {
+      allMetaClues.push(...expert.metaClues);
+    }
   }
 
   // Remove duplicates and empty strings
@@ -888,14 +792,40 @@ const aggregateClues = (expertResults: ClueExpertOutput[]): AggregatedClues => {
   }
 
   // Convert to sorted array
-  const aggregatedRegions: RegionGuess[] = Array.from(regionMap.entries())
+  const expertRegions: RegionGuess[] = Array.from(regionMap.entries())
     .map(([region, data]) => ({
       region: region.charAt(0).toUpperCase() + region.slice(1),  // Capitalize
       confidence: Math.round(data.totalConf / data.count),
       reasoning: data.reasons.join('; '),
       expertSource: data.sources.join(', ')
-    }))
-    .sort((a, b) => b.confidence - a.confidence);
+    }));
+
+  // Score the structured observations against the rule tables
+  const metaClueRanking = rankCountries(allMetaClues);
+  if (metaClueRanking) {
+    console.log(`[ClueAggregator] Meta-clue rules: ${metaClueRanking.countries.slice(0, 3).map(c => `${c.countryName}(${c.probability}%)`).join(', ')}`);
+    if (metaClueRanking.ignored.length > 0) {
+      console.log(`[ClueAggregator] Unknown meta clues ignored: ${metaClueRanking.ignored.map(o => `${o.category}=${o.value}`).join(', ')}`);
+    }
+  }
+
+  // Parse phone numbers, postcodes, domains etc. out of the transcribed text
+  const uniqueText = [...new Set(allText.filter(t => t))];
+  const textPatterns = extractTextPatterns(uniqueText);
+  if (textPatterns.matches.length > 0) {
+    console.log(`[ClueAggregator] Text patterns: ${textPatterns.matches.map(m => `"${m.match}" (${m.description})`).join(', ')}`);
+  }
+
+  // Identify the language of the sign text itself (languageClues are the experts' own descriptions)
+  const languages = identifyLanguages(allTranscribed);
+  if (languages && languages.languages.length > 0) {
+    console.log(`[ClueAggregator] Languages: ${languages.languages.map(l => `${l.languageName}(${l.share}%)`).join(', ')}`);
+  }
+
+  let aggregatedRegions = mergeMetaClueRanking(expertRegions, metaClueRanking);
+  aggregatedRegions = mergeTextPatternCountries(aggregatedRegions, textPatterns);
+  aggregatedRegions = mergeLanguageCountries(aggregatedRegions, languages);
+  aggregatedRegions.sort((a, b) => b.confidence - a.confidence);
 
   console.log(`[ClueAggregator] Collected ${allSearchable.length} searchable clues`);
   console.log(`[ClueAggregator] Suggested queries: ${uniqueQueries.slice(0, 5).join(', ')}`);
@@ -905,20 +835,250 @@ const aggregateClues = (expertResults: ClueExpertOutput[]): AggregatedClues => {
 
   return {
     searchableClues: allSearchable,
-    allText: [...new Set(allText.filter(t => t))],
+    allText: uniqueText,
     allInfrastructure: [...new Set(allInfra.filter(i => i))],
     allNature: [...new Set(allNature.filter(n => n))],
     suggestedSearchQueries: uniqueQueries,
-    regionGuesses: aggregatedRegions
+    regionGuesses: aggregatedRegions,
+    shadows: pickShadowEstimate(expertResults),
+    metaClueRanking,
+    textPatterns,
+    languages
   };
 };
 
+// ============ COUNTRY GUESSES ============
+
+interface CountryGuess {
+  countryCode: string;
+  countryName: string;
+  confidence: number;
+  reasoning: string;
+}
+
+// Add country-level guesses from a deterministic source, merging each into the
+// guess that already names that country (if any)
+const addCountryGuesses = (regions: RegionGuess[], guesses: CountryGuess[], source: string): RegionGuess[] => {
+  const merged = regions.map(region => ({ ...region }));
+  for (const guess of guesses) {
+    const existing = merged.find(r => countryCodeForName(r.region) === guess.countryCode);
+    if (existing) {
+      existing.confidence = Math.max(existing.confidence, guess.confidence);
+      existing.reasoning = existing.reasoning ? `${existing.reasoning}; ${guess.reasoning}` : guess.reasoning;
+      existing.expertSource = existing.expertSource ? `${existing.expertSource}, ${source}` : source;
+    } else {
+      merged.push({
+        region: guess.countryName,
+        confidence: guess.confidence,
+        reasoning: guess.reasoning,
+        expertSource: source
+      });
+    }
+  }
+  return merged;
+};
+
+// ============ META-CLUE RULES ============
+
+const META_RULES_SOURCE = 'meta_rules';
+const META_RULES_MIN_PROBABILITY = 10;  // rule-ranked countries added as region guesses
+const META_RULES_MAX_GUESSES = 3;
+const META_RULES_DISPLAYED_COUNTRIES = 10;
+
+// Weigh each expert guess that names a country by how plausible the rules find
+// it (relative to the best-ranked country), then add the rules' top countries
+const mergeMetaClueRanking = (regions: RegionGuess[], ranking: MetaClueRanking | null): RegionGuess[] => {
+  if (!ranking) return regions;
+
+  const probabilities = new Map(ranking.countries.map(c => [c.countryCode, c.probability]));
+  const topProbability = ranking.countries[0].probability || 1;
+  const merged = regions.map(region => {
+    const code = countryCodeForName(region.region);
+    if (!code || !probabilities.has(code)) return { ...region };
+    const relative = probabilities.get(code)! / topProbability;
+    return { ...region, confidence: Math.round(region.confidence * (0.5 + 0.5 * relative)) };
+  });
+
+  const topCountries = ranking.countries
+    .filter(c => c.probability >= META_RULES_MIN_PROBABILITY)
+    .slice(0, META_RULES_MAX_GUESSES);
+  return addCountryGuesses(merged, topCountries.map(country => ({
+    countryCode: country.countryCode,
+    countryName: country.countryName,
+    confidence: Math.round(country.probability),
+    reasoning: `Meta-clue rules: ${country.supportingClues.join(', ') || 'combined observations'}`
+  })), META_RULES_SOURCE);
+};
+
+const formatMetaClueRanking = (ranking: MetaClueRanking, count: number): string =>
+  ranking.countries.slice(0, count).map(c => `${c.countryName} ${c.probability}%`).join(', ');
+
+// Record the rule ranking on the result as its own evidence item
+const applyMetaClueRanking = (result: GeoAnalysisResult, ranking: MetaClueRanking | null): void => {
+  if (!ranking) return;
+
+  result.metaClueRanking = {
+    ...ranking,
+    countries: ranking.countries.slice(0, META_RULES_DISPLAYED_COUNTRIES)
+  };
+  const top = ranking.countries[0];
+  const tied = ranking.countries.filter(c => c.probability >= top.probability * 0.9).length;
+  const conclusive = top.probability >= META_RULES_MIN_PROBABILITY && tied === 1;
+  result.evidence.push({
+    clue: `Meta-clue rules (${ranking.observations.map(o => o.label).join(', ')}): ${formatMetaClueRanking(ranking, 3)}`,
+    strength: conclusive ? 'medium' : 'soft',
+    supports: conclusive ? top.countryName : `Inconclusive - ${tied} countries fit equally well`
+  });
+};
+
+// ============ TEXT PATTERNS ============
+
+const TEXT_PATTERNS_SOURCE = 'text_patterns';
+const TEXT_PATTERNS_MIN_CONFIDENCE = 20;  // pattern countries added as region guesses
+const TEXT_PATTERNS_MAX_GUESSES = 3;
+const TEXT_PATTERNS_MAX_EVIDENCE = 8;
+
+// Add the countries the text patterns point to, raising matching expert guesses
+const mergeTextPatternCountries = (regions: RegionGuess[], patterns: TextPatternResult): RegionGuess[] => {
+  const topCountries = patterns.countries
+    .filter(c => c.confidence >= TEXT_PATTERNS_MIN_CONFIDENCE)
+    .slice(0, TEXT_PATTERNS_MAX_GUESSES);
+  return addCountryGuesses(regions, topCountries.map(country => ({
+    countryCode: country.countryCode,
+    countryName: country.countryName,
+    confidence: country.confidence,
+    reasoning: `Text patterns: ${country.matches.join(', ')}`
+  })), TEXT_PATTERNS_SOURCE);
+};
+
+// Country names for a match's codes, shortened when a pattern fits many countries
+const formatPatternCountries = (patterns: TextPatternResult, codes: string[]): string => {
+  const names = codes.map(code => patterns.countries.find(c => c.countryCode === code)?.countryName || code);
+  return names.length <= 3 ? names.join(', ') : `${names.length} countries (${names.slice(0, 3).join(', ')}, ...)`;
+};
+
+// Record each matched substring as hard evidence for the countries it implies
+const applyTextPatternEvidence = (result: GeoAnalysisResult, patterns: TextPatternResult): void => {
+  for (const match of patterns.matches.slice(0, TEXT_PATTERNS_MAX_EVIDENCE)) {
+    result.evidence.push({
+      clue: `"${match.match}" (${match.description})`,
+      strength: match.weak ? 'medium' : 'hard',
+      supports: formatPatternCountries(patterns, match.countries)
+    });
+  }
+};
+
+// ============ LANGUAGE IDENTIFICATION ============
+
+const LANGUAGE_SOURCE = 'language_id';
+const LANGUAGE_MIN_CONFIDENCE = 20;  // language countries added as region guesses
+const LANGUAGE_MIN_RELATIVE = 0.75;  // ...when this close to the most likely country
+const LANGUAGE_MAX_GUESSES = 3;
+
+// Add the countries where the identified languages are most used on signage
+const mergeLanguageCountries = (regions: RegionGuess[], languages: LanguageIdentification | null): RegionGuess[] => {
+  if (!languages || languages.countries.length === 0) return regions;
+
+  const topProbability = languages.countries[0].probability;
+  const topCountries = languages.countries
+    .filter(c => c.confidence >= LANGUAGE_MIN_CONFIDENCE && c.probability >= topProbability * LANGUAGE_MIN_RELATIVE)
+    .slice(0, LANGUAGE_MAX_GUESSES);
+  return addCountryGuesses(regions, topCountries.map(country => ({
+    countryCode: country.countryCode,
+    countryName: country.countryName,
+    confidence: country.confidence,
+    reasoning: `Sign language: ${country.languages.join(', ')}`
+  })), LANGUAGE_SOURCE);
+};
+
+const formatLanguages = (languages: LanguageIdentification): string =>
+  `${languages.languages.map(l => `${l.languageName} ${l.share}%`).join(', ')} → ` +
+  languages.countries.slice(0, 5).map(c => `${c.countryName} ${c.probability}%`).join(', ');
+
+// Prefer a shadow observation with a measured length, then one with a direction
+const pickShadowEstimate = (expertResults: ClueExpertOutput[]): ShadowEstimate | null => {
+  const visible = expertResults
+    .map(e => e.shadows)
+    .filter((s): s is ShadowEstimate => !!s && s.visible);
+  return visible.find(s => s.lengthRatio) || visible.find(s => s.direction) || null;
+};
+
+// ============ SOLAR CONSISTENCY ============
+
+// Check the result's coordinates against the sun position at capture time and
+// record the outcome as evidence (plus an uncertainty when it fails)
+const applySolarCheck = (
+  result: GeoAnalysisResult,
+  shadows: ShadowEstimate | null,
+  captureTime: ExifCaptureTime | null | undefined
+): void => {
+  if (!result.coordinates || !shadows || !captureTime) return;
+
+  const check = checkSolarConsistency(result.coordinates, captureTime, shadows);
+  if (!check) return;
+
+  const band = check.latitudeBand
+    ? `; shadows fit latitudes ${check.latitudeBand.south}° to ${check.latitudeBand.north}°`
+    : '';
+  result.solarCheck = check;
+  result.evidence.push({
+    clue: `Solar consistency ${check.status.toUpperCase()}: sun at ${check.sun.elevation}° elevation, ${check.sun.azimuth}° azimuth at ${check.captureTime}${band}`,
+    strength: 'medium',
+    supports: check.status === 'pass' ? result.locationName : `Contradicts ${result.locationName}`
+  });
+  if (check.status === 'fail') {
+    result.uncertainties = [...(result.uncertainties || []), ...check.details];
+  }
+
+  console.log(`[Solar] ${check.status}: ${check.details.join(' | ')}`);
+};
+
+// ============ LOCATION CONSISTENCY ============
+
+const COUNTRY_MISMATCH_MAX_REGION = 30;  // confidence caps when name and coordinates disagree
+const OFFSHORE_MAX_REGION = 50;
+const PLACE_MISMATCH_MAX_LOCAL = 20;
+
+// Reverse-geocode the result's coordinates; disagreements with locationName
+// become uncertainties and cap the confidence
+const applyLocationConsistency = async (result: GeoAnalysisResult): Promise<void> => {
+  if (!result.coordinates) return;
+
+  try {
+    const { geocode, issues } = await checkLocationConsistency(result.locationName, result.coordinates);
+    result.reverseGeocode = geocode;
+    if (issues.length === 0) return;
+
+    const confidence = { ...result.confidence };
+    for (const issue of issues) {
+      if (issue.kind === 'country') {
+        confidence.region = Math.min(confidence.region, COUNTRY_MISMATCH_MAX_REGION);
+      } else if (issue.kind === 'offshore') {
+        confidence.region = Math.min(confidence.region, OFFSHORE_MAX_REGION);
+      }
+      confidence.local = Math.min(confidence.local, confidence.region, PLACE_MISMATCH_MAX_LOCAL);
+    }
+    result.confidence = confidence;
+    result.uncertainties = [...(result.uncertainties || []), ...issues.map(i => i.message)];
+
+    console.log(`[Geocoder] ${result.locationName} vs coordinates: ${issues.map(i => i.kind).join(', ')}`);
+  } catch (err: any) {
+    // The gazetteer is a sanity check only
+    console.error('[Geocoder] Consistency check failed:', err.message);
+  }
+};
+
 // Run the final search using all collected clues
+// focusRegion restricts the search to one candidate region (candidates mode)
 const runFinalSearch = async (
+  ctx: AnalysisContext,
   imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
   clues: AggregatedClues,
-  hints?: LocationHints
+  hints?: LocationHints,
+  focusRegion?: string
 ): Promise<GeoAnalysisResult> => {
+  const phase = focusRegion ? 'final_search:candidate' : 'final_search';
+
   // Build the clues summary for the prompt
   const cluesSummary = clues.searchableClues.map(c =>
     `- ${c.clue} (type: ${c.type})${c.searchQuery ? ` → Search: "${c.searchQuery}"` : ''}`
@@ -936,6 +1096,18 @@ const runFinalSearch = async (
     ? `\n### Natural Environment:\n${clues.allNature.join(', ')}`
     : '';
 
+  const metaSummary = clues.metaClueRanking
+    ? `\n### Country Ranking From Meta Clues (deterministic rules):\n${formatMetaClueRanking(clues.metaClueRanking, 5)}`
+    : '';
+
+  const patternSummary = clues.textPatterns.matches.length > 0
+    ? `\n### Patterns Recognized In The Text (deterministic):\n${clues.textPatterns.matches.map(m => `- "${m.match}": ${m.description} → ${formatPatternCountries(clues.textPatterns, m.countries)}`).join('\n')}`
+    : '';
+
+  const languageSummary = clues.languages && clues.languages.languages.length > 0
+    ? `\n### Languages Identified In The Text (deterministic):\n${formatLanguages(clues.languages)}`
+    : '';
+
   const queriesSummary = clues.suggestedSearchQueries.length > 0
     ? `\n### Suggested Search Queries (start with these!):\n${clues.suggestedSearchQueries.map(q => `- "${q}"`).join('\n')}`
     : '';
@@ -961,6 +1133,22 @@ const runFinalSearch = async (
   if (hints?.exifGps) {
     hintsSection += `\n## EXIF GPS DATA (high value!):\n${hints.exifGps}\n`;
   }
+  if (hints?.metadataForensics) {
+    hintsSection += `\n## PHOTO METADATA (claims to verify - metadata can be edited):\n${hints.metadataForensics}\n`;
+  }
+  if (hints?.imageConsistency) {
+    hintsSection += `\n## IMAGE CONSISTENCY (from EXIF):\n${hints.imageConsistency}\n`;
+  }
+  if (hints?.cameraView) {
+    hintsSection += `\n## CAMERA VIEW CONE (from EXIF):\n${hints.cameraView}\n`;
+    hintsSection += `Everything in the image lies inside this cone. Reject places where the visible scene could not be in that direction, and state in your reasoning which landmarks, streets or features the camera was facing.\n`;
+  }
+
+  if (focusRegion) {
+    hintsSection += `\n\n## CANDIDATE REGION TO VERIFY: ${focusRegion}\n`;
+    hintsSection += `This is one of several competing hypotheses. Search ONLY within ${focusRegion} for the specific place that matches the clues. `;
+    hintsSection += `If the evidence contradicts this region, still return the best match inside it but set a LOW confidence and list the contradictions in "uncertainties".\n`;
+  }
 
   const prompt = `## CLUES COLLECTED BY EXPERT ANALYSTS:
 ${hintsSection}
@@ -969,6 +1157,9 @@ ${cluesSummary || 'No specific searchable clues found'}
 ${textSummary}
 ${infraSummary}
 ${natureSummary}
+${metaSummary}
+${patternSummary}
+${languageSummary}
 ${queriesSummary}
 
 ## YOUR MISSION:
@@ -998,6 +1189,9 @@ IMPORTANT: Return ONLY valid JSON.`;
   // Helper to run text-only search (fallback when image is blocked by safety filter)
   const runTextOnlySearch = async (): Promise<GeoAnalysisResult> => {
     console.log('[FinalSearch] Running text-only search (image blocked by safety filter)...');
+    ctx.report('fallback', 'final_search', 'Image blocked by safety filter - searching with extracted clues only', {
+      reason: 'safety_filter'
+    });
 
     const textOnlyPrompt = `## IMAGE WAS BLOCKED BY SAFETY FILTER
 The image could not be analyzed directly (it may contain license plates, people, or other blocked content).
@@ -1007,73 +1201,60 @@ ${prompt}
 
 Based ONLY on these clues (without seeing the image), search and determine the most likely location.`;
 
-    const textResponse = await getAI().models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: textOnlyPrompt }] },
-      config: {
-        systemInstruction: FINAL_SEARCH_PROMPT,
-        tools: [{ googleSearch: {} }],
-        safetySettings: SAFETY_SETTINGS,
-      }
-    });
+    const { data, response: textResponse } = await generateStructured(ctx, {
+      phase: `${phase}:text_only`,
+      systemInstruction: ctx.prompts.finalSearch,
+      prompt: textOnlyPrompt,
+      images: [],
+      tools: ['googleSearch'],
+    }, GEO_RESULT_SCHEMA, 'final_search');
 
-    const parsedData = parseResponse(textResponse.text);
-    const sources = extractSources(textResponse);
-    const result = normalizeResult(parsedData);
-    result.sources = sources;
+    const result = normalizeResult(data);
+    result.sources = textResponse.sources;
     result.reasoning.unshift('⚠️ Note: Image was blocked by safety filter. Analysis based on extracted clues only.');
     return fillVisualCues(result);
   };
 
   try {
-    const response = await getAI().models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [...imageParts, { text: prompt }] },
-      config: {
-        systemInstruction: FINAL_SEARCH_PROMPT,
-        tools: [{ googleSearch: {} }, { googleMaps: {} }],
-        safetySettings: SAFETY_SETTINGS,
-      }
-    });
-
-    // Check if response is empty (safety filter blocked)
-    if (!response.text) {
-      console.log('[FinalSearch] Empty response - likely safety filter. Trying text-only...');
-      return await runTextOnlySearch();
-    }
-
-    const parsedData = parseResponse(response.text);
-    const sources = extractSources(response);
-    const result = normalizeResult(parsedData);
-    result.sources = sources;
+    // An empty response (safety filter) throws NO_RESPONSE_MESSAGE and falls back to text-only below
+    const { data, response } = await generateStructured(ctx, {
+      phase,
+      systemInstruction: ctx.prompts.finalSearch,
+      prompt,
+      images: imageParts,
+      tools: ['googleSearch', 'googleMaps'],
+    }, GEO_RESULT_SCHEMA, 'final_search');
+
+    const result = normalizeResult(data);
+    result.sources = response.sources;
 
     return fillVisualCues(result);
   } catch (err: any) {
     console.log(`[FinalSearch] Error: ${err.message}`);
 
+    // Malformed output survived every repair attempt - don't retry the search
+    if (err.code === 'PARSE_FAILED') {
+      throw err;
+    }
+
     // Retry without googleMaps if coordinate error
     if (err.message?.includes('Coordinates are not a valid input')) {
       console.log('[FinalSearch] Retrying without googleMaps...');
+      ctx.report('retry', 'final_search', 'Retrying final search without Google Maps tool', {
+        reason: 'maps_coordinate_error'
+      });
       try {
-        const response = await getAI().models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: { parts: [...imageParts, { text: prompt }] },
-          config: {
-            systemInstruction: FINAL_SEARCH_PROMPT,
-            tools: [{ googleSearch: {} }],
-            safetySettings: SAFETY_SETTINGS,
-          }
-        });
-
-        if (!response.text) {
-          console.log('[FinalSearch] Empty response after retry - trying text-only...');
-          return await runTextOnlySearch();
-        }
-
-        const parsedData = parseResponse(response.text);
-        const sources = extractSources(response);
-        const result = normalizeResult(parsedData);
-        result.sources = sources;
+        const { data, response } = await generateStructured(ctx, {
+          phase,
+          systemInstruction: ctx.prompts.finalSearch,
+          prompt,
+          images: imageParts,
+          tools: ['googleSearch'],
+          attempt: 1,
+        }, GEO_RESULT_SCHEMA, 'final_search');
+
+        const result = normalizeResult(data);
+        result.sources = response.sources;
         return fillVisualCues(result);
       } catch (retryErr: any) {
         // If retry also fails with no response, try text-only
@@ -1094,10 +1275,237 @@ Based ONLY on these clues (without seeing the image), search and determine the m
   }
 };
 
+// ============ MULTI-CANDIDATE MODE ============
+
+// Adapt aggregated region guesses to the consensus shape used by buildCandidatesFromConsensus
+const regionGuessesToConsensus = (guesses: RegionGuess[]): ExpertConsensus => ({
+  allObservations: {},
+  regionScores: Object.fromEntries(guesses.map(g => [g.region.toLowerCase(), {
+    score: g.confidence,
+    supporters: (g.expertSource || '').split(', ').filter(s => s),
+    contradictors: []
+  }])),
+  topRegions: guesses.map(g => ({
+    region: g.region,
+    score: g.confidence,
+    evidence: g.reasoning.split('; ').filter(r => r).map(r => `${g.expertSource || 'expert'}: ${r}`)
+  })),
+  conflicts: []
+});
+
+// Verify the top competing regions with one grounded search each and rank them.
+// Returns null when the region guesses already point to a single answer.
+const runCandidateSearches = async (
+  ctx: AnalysisContext,
+  imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
+  clues: AggregatedClues,
+  hints?: LocationHints
+): Promise<GeoAnalysisResult | null> => {
+  const consensus = buildCandidatesFromConsensus(regionGuessesToConsensus(clues.regionGuesses));
+
+  if (consensus.isDefinitive || consensus.candidates.length < 2) {
+    console.log('[Candidates] Region guesses agree - running a single final search');
+    return null;
+  }
+
+  const priors = consensus.candidates;
+  console.log(`[Candidates] Verifying ${priors.length} candidates: ${priors.map(c => c.locationName).join(', ')}`);
+
+  const settled = await Promise.allSettled(
+    priors.map(candidate => runFinalSearch(ctx, imageParts, clues, hints, candidate.locationName))
+  );
+  ctx.signal?.throwIfAborted();
+
+  const verified: Array<{ prior: LocationCandidate; result: GeoAnalysisResult }> = [];
+  settled.forEach((outcome, idx) => {
+    const prior = priors[idx];
+    if (outcome.status === 'fulfilled') {
+      verified.push({ prior, result: outcome.value });
+      ctx.report('candidate_result', 'final_search', `${prior.locationName}: ${outcome.value.locationName} (${outcome.value.confidenceScore}%)`, {
+        region: prior.locationName,
+        locationName: outcome.value.locationName,
+        confidenceScore: outcome.value.confidenceScore
+      });
+    } else {
+      console.log(`[Candidates] Search for ${prior.locationName} failed: ${outcome.reason?.message}`);
+      ctx.report('candidate_result', 'final_search', `${prior.locationName}: search failed`, {
+        region: prior.locationName,
+        failed: true
+      });
+    }
+  });
+
+  if (verified.length === 0) {
+    // Surface a failure that must stop the run (deadline, open circuit, malformed
+    // output) over other errors, so the caller's fallback handling applies
+    const reasons = settled.map(outcome => (outcome as PromiseRejectedResult).reason);
+    throw reasons.find(reason => FINAL_SEARCH_STOP_CODES.includes(reason?.code) || reason?.code === 'PARSE_FAILED') || reasons[0];
+  }
+
+  // Consensus probability weighted by how strongly the grounded search confirmed it
+  const weights = verified.map(v => v.prior.probability * Math.max(v.result.confidenceScore, 1));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const ranked = verified
+    .map((v, idx) => ({ ...v, probability: Math.round((weights[idx] / totalWeight) * 100) }))
+    .sort((a, b) => b.probability - a.probability);
+
+  const top = ranked[0];
+  const second = ranked[1];
+
+  // The best verified search becomes the main answer
+  const result = top.result;
+  result.isDefinitive = !second ||
+    top.probability >= DEFINITIVE_THRESHOLD ||
+    (top.probability - second.probability) >= GAP_THRESHOLD;
+  result.candidates = ranked.map(r => {
+    const hardEvidence = r.result.evidence.filter(e => e.strength !== 'soft').map(e => e.clue);
+    return {
+      locationName: r.result.locationName,
+      coordinates: r.result.coordinates,
+      probability: r.probability,
+      reasoning: r.result.reasoning.slice(0, 3),
+      keyEvidence: hardEvidence.length > 0 ? hardEvidence.slice(0, 3) : r.prior.keyEvidence
+    };
+  });
+  result.alternativeLocations = ranked.slice(1).map(r => `${r.result.locationName} (${r.probability}%)`);
+  result.searchQueriesUsed = [...new Set(ranked.flatMap(r => r.result.searchQueriesUsed))];
+
+  const seenUris = new Set<string>();
+  result.sources = ranked.flatMap(r => r.result.sources).filter(source => {
+    if (seenUris.has(source.uri)) return false;
+    seenUris.add(source.uri);
+    return true;
+  });
+
+  console.log(`[Candidates] Ranked: ${ranked.map(r => `${r.result.locationName}(${r.probability}%)`).join(', ')}`);
+  console.log(`[Candidates] isDefinitive: ${result.isDefinitive}`);
+
+  return result;
+};
+
+// ============ THOROUGH MODE (SELF-CONSISTENCY) ============
+
+const ENSEMBLE_RUNS = 5;
+const ENSEMBLE_LINK_KM = 5;  // answers this close are the same place
+const ENSEMBLE_MIN_RADIUS_KM = 0.1;
+const ENSEMBLE_LOW_AGREEMENT = 60;  // below this the disagreement is listed as an uncertainty
+
+// Run N starts from a different suggested query, so the runs explore in different orders
+const rotateQueries = (queries: string[], run: number): string[] =>
+  queries.length === 0 ? queries : [...queries.slice(run % queries.length), ...queries.slice(0, run % queries.length)];
+
+// Repeat the final search, cluster the returned coordinates and answer with the
+// dominant cluster: its centroid as the location, its spread as the uncertainty
+const runEnsembleSearch = async (
+  ctx: AnalysisContext,
+  imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
+  clues: AggregatedClues,
+  hints?: LocationHints
+): Promise<GeoAnalysisResult> => {
+  console.log(`[Ensemble] Running ${ENSEMBLE_RUNS} final searches...`);
+
+  const settled = await Promise.allSettled(
+    Array.from({ length: ENSEMBLE_RUNS }, (_, run) => runFinalSearch(ctx, imageParts, {
+      ...clues,
+      suggestedSearchQueries: rotateQueries(clues.suggestedSearchQueries, run)
+    }, hints))
+  );
+  ctx.signal?.throwIfAborted();
+
+  const results: GeoAnalysisResult[] = [];
+  settled.forEach((outcome, run) => {
+    if (outcome.status === 'fulfilled') {
+      results.push(outcome.value);
+      ctx.report('ensemble_result', 'final_search', `Run ${run + 1}: ${outcome.value.locationName} (${outcome.value.confidenceScore}%)`, {
+        run: run + 1,
+        locationName: outcome.value.locationName,
+        coordinates: outcome.value.coordinates,
+        confidenceScore: outcome.value.confidenceScore
+      });
+    } else {
+      console.log(`[Ensemble] Run ${run + 1} failed: ${outcome.reason?.message}`);
+      ctx.report('ensemble_result', 'final_search', `Run ${run + 1}: search failed`, {
+        run: run + 1,
+        failed: true
+      });
+    }
+  });
+
+  if (results.length === 0) {
+    // Surface the first failure so the caller's fallback handling applies
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  const located = results.filter(r => r.coordinates);
+  const clusters = clusterCoordinates(located.map(r => r.coordinates!), ENSEMBLE_LINK_KM);
+  const byConfidence = (a: GeoAnalysisResult, b: GeoAnalysisResult) => b.confidenceScore - a.confidenceScore;
+
+  // Without coordinates there is nothing to cluster - keep the most confident answer
+  const dominant = clusters[0];
+  const members = dominant ? dominant.members.map(i => located[i]).sort(byConfidence) : [...results].sort(byConfidence);
+  const agreement = dominant ? Math.round(dominant.members.length / located.length * 100) : 0;
+  const uncertaintyRadiusKm = dominant ? Math.max(dominant.spreadKm, ENSEMBLE_MIN_RADIUS_KM) : null;
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const result = members[0];
+  if (dominant) {
+    result.coordinates = dominant.centroid;
+    result.confidence = {
+      region: Math.round(mean(members.map(m => m.confidence.region))),
+      local: Math.round(mean(members.map(m => m.confidence.local)) * agreement / 100)
+    };
+    result.confidenceScore = Math.round(mean(members.map(m => m.confidenceScore)) * (0.5 + 0.5 * agreement / 100));
+  }
+
+  result.ensemble = {
+    runs: ENSEMBLE_RUNS,
+    succeeded: results.length,
+    withCoordinates: located.length,
+    agreement,
+    uncertaintyRadiusKm,
+    clusters: clusters.map(c => ({
+      centroid: c.centroid,
+      spreadKm: c.spreadKm,
+      runs: c.members.length,
+      locationNames: [...new Set(c.members.map(i => located[i].locationName))]
+    }))
+  };
+
+  const otherAnswers = result.ensemble.clusters.slice(1).map(c => `${c.locationNames[0]} (${c.runs}/${located.length} runs)`);
+  result.evidence.push({
+    clue: dominant
+      ? `Self-consistency: ${dominant.members.length} of ${located.length} located searches agree within ${uncertaintyRadiusKm} km`
+      : `Self-consistency: none of ${results.length} searches returned coordinates`,
+    strength: 'medium',
+    supports: dominant ? result.locationName : 'Inconclusive'
+  });
+  if (dominant && agreement < ENSEMBLE_LOW_AGREEMENT) {
+    result.uncertainties = [
+      ...(result.uncertainties || []),
+      `Repeated searches disagreed - only ${agreement}% landed near ${result.locationName}; others: ${otherAnswers.join(', ')}`
+    ];
+  }
+  result.alternativeLocations = [...new Set([...(result.alternativeLocations || []), ...otherAnswers])];
+  result.searchQueriesUsed = [...new Set(results.flatMap(r => r.searchQueriesUsed))];
+
+  const seenUris = new Set<string>();
+  result.sources = results.flatMap(r => r.sources).filter(source => {
+    if (seenUris.has(source.uri)) return false;
+    seenUris.add(source.uri);
+    return true;
+  });
+
+  console.log(`[Ensemble] ${results.length}/${ENSEMBLE_RUNS} succeeded, ${clusters.length} clusters, agreement ${agreement}%` +
+    (uncertaintyRadiusKm !== null ? `, radius ${uncertaintyRadiusKm} km` : ''));
+
+  return result;
+};
+
 // ============ TWO-PHASE ANALYSIS ============
 
 // Phase 1: Evidence collection WITHOUT search tools (prevents confirmation bias)
 const runPhase1 = async (
+  ctx: AnalysisContext,
   imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
   hints?: LocationHints
 ): Promise<Phase1Result> => {
@@ -1118,14 +1526,12 @@ const runPhase1 = async (
   }
 
   // Phase 1: NO tools - pure visual analysis
-  const response = await getAI().models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: { parts: [...imageParts, { text: prompt }] },
-    config: {
-      systemInstruction: PHASE1_INSTRUCTION,
-      // NO tools in Phase 1 - prevents model from "cheating" by searching to confirm
-      safetySettings: SAFETY_SETTINGS,
-    }
+  const response = await ctx.provider.generate({
+    phase: 'phase1',
+    systemInstruction: PHASE1_INSTRUCTION,
+    prompt,
+    images: imageParts,
+    // NO tools in Phase 1 - prevents model from "cheating" by searching to confirm
   });
 
   const parsed = parseResponse(response.text);
@@ -1140,6 +1546,7 @@ const runPhase1 = async (
 
 // Phase 2: Verify ALL hypotheses WITH search tools
 const runPhase2 = async (
+  ctx: AnalysisContext,
   imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
   phase1Result: Phase1Result,
   hints?: LocationHints
@@ -1193,41 +1600,25 @@ ${hypothesesSummary}
 IMPORTANT: Return ONLY valid JSON.`;
 
   // Helper to process Phase 2 response with detailed logging
-  const processPhase2Response = (response: any): GeoAnalysisResult => {
+  const processPhase2Response = (response: ModelResponse): GeoAnalysisResult => {
     console.log('[Phase2] Response text length:', response.text?.length || 0);
     console.log('[Phase2] Response text preview:', response.text?.substring(0, 200) || 'EMPTY');
 
-    // Check for candidates if text is empty
-    if (!response.text && response.candidates) {
-      console.log('[Phase2] Checking candidates...');
-      const candidate = response.candidates[0];
-      if (candidate?.content?.parts) {
-        const textPart = candidate.content.parts.find((p: any) => p.text);
-        if (textPart) {
-          console.log('[Phase2] Found text in candidates');
-          response.text = textPart.text;
-        }
-      }
-    }
-
     const parsedData = parseResponse(response.text);
-    const sources = extractSources(response);
     const result = normalizeResult(parsedData);
-    result.sources = sources;
+    result.sources = response.sources;
     result.visualCues = phase1Result.visualCues;
     return result;
   };
 
   try {
     // First try with images (for visual verification)
-    const response = await getAI().models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [...imageParts, { text: prompt }] },
-      config: {
-        systemInstruction: PHASE2_INSTRUCTION,
-        tools: [{ googleSearch: {} }, { googleMaps: {} }],
-        safetySettings: SAFETY_SETTINGS,
-      }
+    const response = await ctx.provider.generate({
+      phase: 'phase2',
+      systemInstruction: PHASE2_INSTRUCTION,
+      prompt,
+      images: imageParts,
+      tools: ['googleSearch', 'googleMaps'],
     });
 
     return processPhase2Response(response);
@@ -1237,14 +1628,12 @@ IMPORTANT: Return ONLY valid JSON.`;
     // Retry without googleMaps if it fails with coordinate error
     if (err.message?.includes('Coordinates are not a valid input')) {
       console.log('[Phase2] Retrying without googleMaps...');
-      const response = await getAI().models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [...imageParts, { text: prompt }] },
-        config: {
-          systemInstruction: PHASE2_INSTRUCTION,
-          tools: [{ googleSearch: {} }],
-          safetySettings: SAFETY_SETTINGS,
-        }
+      const response = await ctx.provider.generate({
+        phase: 'phase2',
+        systemInstruction: PHASE2_INSTRUCTION,
+        prompt,
+        images: imageParts,
+        tools: ['googleSearch'],
       });
 
       return processPhase2Response(response);
@@ -1253,14 +1642,12 @@ IMPORTANT: Return ONLY valid JSON.`;
     // If "no response" error, try without images (text-only verification)
     if (err.message?.includes('no response') || err.message?.includes('no text')) {
       console.log('[Phase2] Retrying without images (text-only)...');
-      const response = await getAI().models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [{ text: prompt }] },
-        config: {
-          systemInstruction: PHASE2_INSTRUCTION,
-          tools: [{ googleSearch: {} }],
-          safetySettings: SAFETY_SETTINGS,
-        }
+      const response = await ctx.provider.generate({
+        phase: 'phase2:text_only',
+        systemInstruction: PHASE2_INSTRUCTION,
+        prompt,
+        images: [],
+        tools: ['googleSearch'],
       });
 
       return processPhase2Response(response);
@@ -1289,6 +1676,7 @@ const buildHintsForExpert = (hints?: LocationHints): string => {
 
 // Run a single expert analysis
 const runExpert = async (
+  ctx: AnalysisContext,
   expertPrompt: string,
   expertName: string,
   imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
@@ -1298,13 +1686,11 @@ const runExpert = async (
     const hintsText = buildHintsForExpert(hints);
     const promptText = `Analyze this image from your expert perspective.${hintsText}\n\nReturn ONLY valid JSON.`;
 
-    const response = await getAI().models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [...imageParts, { text: promptText }] },
-      config: {
-        systemInstruction: expertPrompt,
-        safetySettings: SAFETY_SETTINGS,
-      }
+    const response = await ctx.provider.generate({
+      phase: `expert:${expertName}`,
+      systemInstruction: expertPrompt,
+      prompt: promptText,
+      images: imageParts,
     });
 
     const parsed = parseResponse(response.text);
@@ -1322,6 +1708,7 @@ const runExpert = async (
 
 // Run all experts in parallel
 const runAllExperts = async (
+  ctx: AnalysisContext,
   imageParts: Array<{ inlineData: { mimeType: string; data: string } }>,
   hints?: LocationHints
 ): Promise<ExpertAnalysis[]> => {
@@ -1334,7 +1721,7 @@ const runAllExperts = async (
   }
 
   const expertPromises = EXPERTS.map(expert =>
-    runExpert(expert.prompt, expert.name, imageParts, hints)
+    runExpert(ctx, expert.prompt, expert.name, imageParts, hints)
   );
 
   const results = await Promise.all(expertPromises);
@@ -1526,12 +1913,32 @@ const phase1ToResult = (phase1: Phase1Result): GeoAnalysisResult => {
   };
 };
 
+// Registry versions of the given prompt keys, recorded on the result
+const pickPromptVersions = (prompts: PromptSet, keys: string[]): Record<string, PromptVersionRef> => {
+  const versions: Record<string, PromptVersionRef> = {};
+  for (const key of keys) {
+    if (prompts.versions[key]) versions[key] = prompts.versions[key];
+  }
+  return versions;
+};
+
+// Final-search failures that end the analysis instead of falling back to the
+// experts' region guess
+const FINAL_SEARCH_STOP_CODES = ['ANALYSIS_TIMEOUT', 'PHASE_TIMEOUT', 'PROVIDER_UNAVAILABLE'];
+
 // Main analysis function - Clue-Focused Expert approach
 // NEW FLOW: 3 experts collect CLUES → aggregate → ONE final search for SPECIFIC location
 export const analyzeImageLocation = async (
   images: { base64: string, mimeType: string }[],
-  hints?: LocationHints
+  hints?: LocationHints,
+  options: AnalysisOptions = {}
 ): Promise<GeoAnalysisResult> => {
+  const ctx: AnalysisContext = {
+    provider: options.provider || getModelProvider(),
+    report: createProgressReporter(options.onProgress),
+    prompts: options.prompts || DEFAULT_PROMPT_SET,
+    signal: options.signal
+  };
   const imageParts = images.map(img => ({
     inlineData: { mimeType: img.mimeType, data: img.base64 }
   }));
@@ -1548,13 +1955,29 @@ export const analyzeImageLocation = async (
 
   // ============ PHASE 1: COLLECT CLUES ============
   // Run 3 clue experts in parallel (text, built environment, natural environment)
-  console.log('[GeoAnalysis] Phase 1: Running 3 clue experts...');
-  const clueExperts = await runAllClueExperts(imageParts, hints);
+  console.log(`[GeoAnalysis] Phase 1: Running ${ctx.prompts.clueExperts.length} clue experts...`);
+  const expertCount = ctx.prompts.clueExperts.length;
+  ctx.report('phase_started', 'clue_experts', `Running ${expertCount} clue experts`, {
+    experts: ctx.prompts.clueExperts.map(e => e.name)
+  });
+  const { results: clueExperts, failures: expertFailures } = await runAllClueExperts(ctx, imageParts, hints);
 
   if (clueExperts.length === 0) {
+    ctx.report('phase_failed', 'clue_experts', 'All clue experts failed');
+    if (expertFailures.every(err => err?.code === 'PARSE_FAILED')) {
+      throw createError('All clue experts returned malformed output. Please try again.', 502, 'PARSE_FAILED');
+    }
+    if (expertFailures.every(err => err?.code === 'PROVIDER_UNAVAILABLE')) {
+      throw expertFailures[0];
+    }
     throw new Error('All expert analyses failed. Please try again.');
   }
 
+  ctx.report('phase_finished', 'clue_experts', `${clueExperts.length}/${expertCount} experts returned clues`, {
+    succeeded: clueExperts.length,
+    total: expertCount
+  });
+
   // Log what each expert found
   for (const expert of clueExperts) {
     console.log(`[ClueExpert:${expert.expertType}] Found ${expert.searchableClues?.length || 0} searchable clues`);
@@ -1566,6 +1989,7 @@ export const analyzeImageLocation = async (
 
   // ============ PHASE 2: AGGREGATE CLUES ============
   console.log('[GeoAnalysis] Phase 2: Aggregating clues from all experts...');
+  ctx.report('phase_started', 'aggregate', 'Aggregating clues from all experts');
   const aggregatedClues = aggregateClues(clueExperts);
 
   // IMPORTANT: If we have confirmed locations from SerpAPI, prepend them to search queries
@@ -1590,20 +2014,58 @@ export const analyzeImageLocation = async (
   console.log(`[GeoAnalysis] Text found: ${aggregatedClues.allText.slice(0, 5).join(', ')}`);
   console.log(`[GeoAnalysis] Queries to try: ${aggregatedClues.suggestedSearchQueries.slice(0, 5).join(', ')}`);
 
+  const topGuess = aggregatedClues.regionGuesses[0];
+  ctx.report('phase_finished', 'aggregate', `Collected ${aggregatedClues.searchableClues.length} clues and ${aggregatedClues.suggestedSearchQueries.length} search queries`, {
+    clueCount: aggregatedClues.searchableClues.length,
+    queryCount: aggregatedClues.suggestedSearchQueries.length,
+    topRegion: topGuess ? { region: topGuess.region, confidence: topGuess.confidence } : null
+  });
+
   // ============ PHASE 3: FINAL SEARCH FOR SPECIFIC LOCATION ============
   console.log('[GeoAnalysis] Phase 3: Searching for SPECIFIC location...');
+  const mode = options.mode || 'single';
+  const analysisPromptKeys = [
+    PROMPT_KEYS.CLUE_EXPERT_ROSTER,
+    ...ctx.prompts.clueExperts.map(e => e.promptKey),
+    PROMPT_KEYS.FINAL_SEARCH
+  ];
+  ctx.report('phase_started', 'final_search', mode === 'candidates'
+    ? 'Verifying competing candidate locations'
+    : mode === 'thorough'
+      ? `Running ${ENSEMBLE_RUNS} independent searches for the specific location`
+      : 'Searching the web for the specific location', { mode });
 
   try {
-    const result = await runFinalSearch(imageParts, aggregatedClues, hints);
+    const candidateResult = mode === 'candidates'
+      ? await runCandidateSearches(ctx, imageParts, aggregatedClues, hints)
+      : null;
+    const result = candidateResult || (mode === 'thorough'
+      ? await runEnsembleSearch(ctx, imageParts, aggregatedClues, hints)
+      : await runFinalSearch(ctx, imageParts, aggregatedClues, hints));
+
+    ctx.report('phase_finished', 'final_search', `Located: ${result.locationName}`, {
+      locationName: result.locationName,
+      confidenceScore: result.confidenceScore,
+      hasCoordinates: !!result.coordinates,
+      sourceCount: result.sources.length
+    });
 
     console.log(`[GeoAnalysis] Final result: ${result.locationName}`);
     console.log(`[GeoAnalysis] Coordinates: ${result.coordinates ? `${result.coordinates.lat}, ${result.coordinates.lng}` : 'null'}`);
     console.log(`[GeoAnalysis] Confidence: ${result.confidenceScore}% (region: ${result.confidence?.region}%, local: ${result.confidence?.local}%)`);
 
-    // Always mark as definitive - we focus on ONE location
-    // Alternatives are saved as notes only
-    result.isDefinitive = true;
-    result.candidates = undefined;  // No multi-candidate display
+    result.promptVersions = pickPromptVersions(ctx.prompts, analysisPromptKeys);
+    applyMetaClueRanking(result, aggregatedClues.metaClueRanking);
+    applyTextPatternEvidence(result, aggregatedClues.textPatterns);
+    result.languageIdentification = aggregatedClues.languages || undefined;
+    await applyLocationConsistency(result);
+    applySolarCheck(result, aggregatedClues.shadows, options.captureTime);
+
+    // Single mode focuses on ONE location - alternatives are saved as notes only
+    if (!candidateResult) {
+      result.isDefinitive = true;
+      result.candidates = undefined;  // No multi-candidate display
+    }
 
     // Convert uncertainties into alternative locations if not enough alternatives
     if ((!result.alternativeLocations || result.alternativeLocations.length === 0) && result.uncertainties) {
@@ -1617,6 +2079,25 @@ export const analyzeImageLocation = async (
   } catch (searchError: any) {
     console.log(`[GeoAnalysis] Final search failed: ${searchError.message}`);
 
+    // Cancellation, deadlines and an open circuit stop the run - a region
+    // guess here would complete (and charge) an analysis that was abandoned
+    if (isCancellation(searchError) || ctx.signal?.aborted || FINAL_SEARCH_STOP_CODES.includes(searchError.code)) {
+      throw ctx.signal?.aborted ? ctx.signal.reason : searchError;
+    }
+
+    // Malformed model output is surfaced instead of degrading to a region guess
+    if (searchError.code === 'PARSE_FAILED') {
+      ctx.report('phase_failed', 'final_search', 'Final search returned malformed output', {
+        error: searchError.message,
+        code: searchError.code
+      });
+      throw searchError;
+    }
+
+    ctx.report('phase_failed', 'final_search', 'Final search failed - falling back to expert region guess', {
+      error: searchError.message
+    });
+
     // Use region guesses if available
     const topRegion = aggregatedClues.regionGuesses[0];
     const alternativeRegions = aggregatedClues.regionGuesses.slice(1, 4).map(r => `${r.region} (${r.confidence}%)`);
@@ -1668,7 +2149,9 @@ export const analyzeImageLocation = async (
         demographics: ''
       },
       searchQueriesUsed: aggregatedClues.suggestedSearchQueries,
-      sources: []
+      sources: [],
+      promptVersions: pickPromptVersions(ctx.prompts, analysisPromptKeys),
+      fallback: true
     };
 
     console.log(`[GeoAnalysis] Returning fallback with ${aggregatedClues.searchableClues.length} clues`);
@@ -1679,14 +2162,46 @@ export const analyzeImageLocation = async (
   }
 };
 
+// One earlier exchange of a refinement dialogue
+export interface RefinementExchange {
+  feedback: string;
+  locationName: string;
+  confidenceScore: number;
+}
+
+// The dialogue so far, so the model does not forget earlier feedback
+const formatRefinementDialogue = (initial: string, exchanges: RefinementExchange[]): string => {
+  if (exchanges.length === 0) return '';
+  const lines = exchanges.map((e, idx) =>
+    `${idx + 1}. User: "${e.feedback}"\n   You concluded: "${e.locationName}" (${e.confidenceScore}% confidence)`
+  );
+  return `**Investigation So Far** (oldest first - keep honouring earlier feedback unless the user retracts it):
+Initial analysis: "${initial}"
+${lines.join('\n')}
+
+`;
+};
+
+// previousResult is the answer being challenged; earlierExchanges lead up to it
+// from the initial analysis (initialLocation)
 export const refineImageLocation = async (
   images: { base64: string, mimeType: string }[],
   previousResult: GeoAnalysisResult,
   userFeedback: string,
-  hints?: LocationHints
+  earlierExchanges: RefinementExchange[] = [],
+  initialLocation: string = previousResult.locationName,
+  hints?: LocationHints,
+  options: AnalysisOptions = {}
 ): Promise<GeoAnalysisResult> => {
+  const ctx: AnalysisContext = {
+    provider: options.provider || getModelProvider(),
+    report: createProgressReporter(options.onProgress),
+    prompts: options.prompts || DEFAULT_PROMPT_SET,
+    signal: options.signal
+  };
+
   const basePrompt = `**Refinement Task**:
-You previously analyzed these images and concluded: "${previousResult.locationName}".
+${formatRefinementDialogue(initialLocation, earlierExchanges)}You previously analyzed these images and concluded: "${previousResult.locationName}".
 
 **User Feedback/Challenge**:
 "${userFeedback}"
@@ -1703,6 +2218,8 @@ IMPORTANT: Return ONLY valid JSON.`;
     inlineData: { mimeType: img.mimeType, data: img.base64 }
   }));
 
-  const response = await callGeminiWithRetry(imageParts, promptText);
-  return processGeminiResponse(response);
+  const result = processGeminiResponse(await callGeminiWithRetry(ctx, imageParts, promptText));
+  result.promptVersions = pickPromptVersions(ctx.prompts, [PROMPT_KEYS.REFINE]);
+  await applyLocationConsistency(result);
+  return result;
 };
@@ -0,0 +1,274 @@
+/**
+ * Ground Truth
+ * Where a history item's photo was really taken (a pin dropped by the user),
+ * and how the prediction compares: great-circle error and whether the
+ * predicted country and city were right. The evaluation is stored with the
+ * pin and recomputed when the prediction changes (e.g. after a refinement).
+ * The admin accuracy report aggregates the stored evaluations.
+ */
+
+import { query, queryOne, execute } from '../db/connection.js';
+import {
+  DbGroundTruth,
+  DbSearchHistory,
+  GroundTruthItem,
+  GroundTruthSource,
+  dbGroundTruthToItem
+} from '../db/models.js';
+import { createError } from '../middleware/errorHandler.js';
+import { haversineKm, reverseGeocode, countryCodeForName } from './reverseGeocoder.js';
+import {
+  summarizeAccuracy,
+  errorDistribution,
+  AccuracySummary,
+  ErrorDistanceBin,
+  GradedPrediction
+} from './accuracyMetrics.js';
+
+export const GROUND_TRUTH_SOURCES: GroundTruthSource[] = ['own_photo', 'street_view', 'photo_metadata', 'other'];
+
+export interface AccuracyReportGroup {
+  key: string;  // week start (YYYY-MM-DD), analysis mode or premium services
+  label: string;
+  summary: AccuracySummary;
+}
+
+export interface AccuracyReport {
+  days: number;
+  overall: AccuracySummary;
+  errorDistribution: ErrorDistanceBin[];
+  byWeek: AccuracyReportGroup[];
+  byMode: AccuracyReportGroup[];
+  byPremium: AccuracyReportGroup[];
+}
+
+export interface GroundTruthEvaluation {
+  errorKm: number | null;
+  countryCorrect: boolean | null;
+  cityCorrect: boolean | null;
+  trueCountryCode: string | null;
+  trueCity: string | null;
+}
+
+// A prediction this close counts as the right city even when the nearest
+// towns differ (suburbs, city limits)
+const CITY_CORRECT_KM = 25;
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Compare a prediction (coordinates and/or name) with the true location
+ */
+export async function evaluatePrediction(
+  predicted: { locationName: string | null; coordinates: { lat: number; lng: number } | null },
+  truth: { lat: number; lng: number }
+): Promise<GroundTruthEvaluation> {
+  const actual = await reverseGeocode(truth.lat, truth.lng);
+  const evaluation: GroundTruthEvaluation = {
+    errorKm: null,
+    countryCorrect: null,
+    cityCorrect: null,
+    trueCountryCode: actual.countryCode,
+    trueCity: actual.city
+  };
+
+  if (predicted.coordinates) {
+    const guess = await reverseGeocode(predicted.coordinates.lat, predicted.coordinates.lng);
+    const errorKm = haversineKm(predicted.coordinates, truth);
+    evaluation.errorKm = Math.round(errorKm * 1000) / 1000;
+    if (guess.countryCode && actual.countryCode) {
+      evaluation.countryCorrect = guess.countryCode === actual.countryCode;
+    }
+    evaluation.cityCorrect = errorKm <= CITY_CORRECT_KM ||
+      (!!guess.city && guess.city === actual.city && guess.countryCode === actual.countryCode);
+  } else if (predicted.locationName && actual.countryCode) {
+    // No coordinates - the country can still be judged from the name ("..., Japan")
+    const namedCountry = countryCodeForName(predicted.locationName.split(',').pop() || '');
+    if (namedCountry) evaluation.countryCorrect = namedCountry === actual.countryCode;
+  }
+
+  return evaluation;
+}
+
+// DECIMAL columns come back as strings
+const historyPrediction = (history: DbSearchHistory) => ({
+  locationName: history.location_name,
+  coordinates: history.lat !== null && history.lng !== null
+    ? { lat: parseFloat(String(history.lat)), lng: parseFloat(String(history.lng)) }
+    : null
+});
+
+const SELECT_GROUND_TRUTH = `
+  SELECT gt.*, u.username AS confirmed_by_username
+  FROM ground_truth gt LEFT JOIN users u ON u.id = gt.confirmed_by`;
+
+/**
+ * Ground truth for the given history items, keyed by history id
+ */
+export async function loadGroundTruth(historyIds: string[]): Promise<Map<string, GroundTruthItem>> {
+  if (historyIds.length === 0) return new Map();
+  const rows = await query<DbGroundTruth[]>(
+    `${SELECT_GROUND_TRUTH} WHERE gt.history_id IN (${historyIds.map(() => '?').join(', ')})`,
+    historyIds
+  );
+  return new Map(rows.map(row => [row.history_id, dbGroundTruthToItem(row)]));
+}
+
+const validateGroundTruth = (input: any): { lat: number; lng: number; source: GroundTruthSource; note: string | null } => {
+  const lat = Number(input?.coordinates?.lat);
+  const lng = Number(input?.coordinates?.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw createError('Valid coordinates are required', 400, 'INVALID_COORDINATES');
+  }
+  if (!GROUND_TRUTH_SOURCES.includes(input.source)) {
+    throw createError(`Source must be one of: ${GROUND_TRUTH_SOURCES.join(', ')}`, 400, 'INVALID_SOURCE');
+  }
+  const note = typeof input.note === 'string' && input.note.trim() ? input.note.trim() : null;
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    throw createError(`Note is limited to ${MAX_NOTE_LENGTH} characters`, 400, 'NOTE_TOO_LONG');
+  }
+  return { lat, lng, source: input.source, note };
+}
+
+/**
+ * Record (or move) the true location of a history item and evaluate the prediction
+ */
+export async function setGroundTruth(
+  history: DbSearchHistory,
+  userId: string,
+  input: unknown
+): Promise<GroundTruthItem> {
+  const { lat, lng, source, note } = validateGroundTruth(input);
+  const evaluation = await evaluatePrediction(historyPrediction(history), { lat, lng });
+
+  await execute(
+    `INSERT INTO ground_truth
+      (history_id, lat, lng, source, note, confirmed_by, error_km, country_correct, city_correct, true_country_code, true_city)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+      lat = VALUES(lat), lng = VALUES(lng), source = VALUES(source), note = VALUES(note),
+      confirmed_by = VALUES(confirmed_by), error_km = VALUES(error_km),
+      country_correct = VALUES(country_correct), city_correct = VALUES(city_correct),
+      true_country_code = VALUES(true_country_code), true_city = VALUES(true_city)`,
+    [
+      history.id, lat, lng, source, note, userId,
+      evaluation.errorKm, evaluation.countryCorrect, evaluation.cityCorrect,
+      evaluation.trueCountryCode, evaluation.trueCity
+    ]
+  );
+  console.log(`[GroundTruth] ${history.id}: ${evaluation.errorKm ?? '?'} km off (country ${evaluation.countryCorrect}, city ${evaluation.cityCorrect})`);
+
+  return (await loadGroundTruth([history.id])).get(history.id)!;
+}
+
+/**
+ * Re-evaluate the stored ground truth after the prediction changed
+ * (no-op when the item has none)
+ */
+export async function refreshGroundTruthEvaluation(historyId: string): Promise<void> {
+  const [row, history] = await Promise.all([
+    queryOne<DbGroundTruth>('SELECT * FROM ground_truth WHERE history_id = ?', [historyId]),
+    queryOne<DbSearchHistory>('SELECT * FROM search_history WHERE id = ?', [historyId])
+  ]);
+  if (!row || !history) return;
+
+  const truth = { lat: parseFloat(String(row.lat)), lng: parseFloat(String(row.lng)) };
+  const evaluation = await evaluatePrediction(historyPrediction(history), truth);
+  await execute(
+    `UPDATE ground_truth SET error_km = ?, country_correct = ?, city_correct = ?, true_country_code = ?, true_city = ?
+     WHERE history_id = ?`,
+    [
+      evaluation.errorKm, evaluation.countryCorrect, evaluation.cityCorrect,
+      evaluation.trueCountryCode, evaluation.trueCity, historyId
+    ]
+  );
+}
+
+/**
+ * Remove the true location of a history item
+ */
+export async function clearGroundTruth(historyId: string): Promise<void> {
+  await execute('DELETE FROM ground_truth WHERE history_id = ?', [historyId]);
+}
+
+// ============ REPORTING ============
+
+const MODE_LABELS: Record<string, string> = {
+  single: 'Single',
+  candidates: 'Candidates',
+  thorough: 'Thorough',
+  unknown: 'Unknown (no job)'
+};
+
+const PREMIUM_LABELS: Record<string, string> = {
+  none: 'Model only',
+  cloud_vision: 'Cloud Vision',
+  serp_api: 'Google Lens',
+  both: 'Cloud Vision + Google Lens'
+};
+
+const groupPredictions = (
+  rows: any[],
+  keyOf: (row: any) => string,
+  labelOf: (key: string) => string
+): AccuracyReportGroup[] => {
+  const groups = new Map<string, GradedPrediction[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row.prediction);
+  }
+  return [...groups.entries()].map(([key, predictions]) => ({
+    key,
+    label: labelOf(key),
+    summary: summarizeAccuracy(predictions)
+  }));
+};
+
+/**
+ * Accuracy of analyses from the last `days` days that have a confirmed true
+ * location, overall and by week, analysis mode and premium services used
+ */
+export async function getAccuracyReport(days: number): Promise<AccuracyReport> {
+  // History items share their id with the analysis job; the stored payload
+  // shows which premium services contributed (also for cached results)
+  const rows = await query<any[]>(
+    `SELECT gt.error_km, gt.country_correct, h.confidence_score,
+       DATE_FORMAT(DATE_SUB(DATE(h.created_at), INTERVAL WEEKDAY(h.created_at) DAY), '%Y-%m-%d') AS week,
+       j.mode,
+       JSON_TYPE(JSON_EXTRACT(j.result, '$.cloudVisionData')) = 'OBJECT' AS used_cloud_vision,
+       JSON_TYPE(JSON_EXTRACT(j.result, '$.serpApiData')) = 'OBJECT' AS used_serp_api
+     FROM ground_truth gt
+     JOIN search_history h ON h.id = gt.history_id
+     LEFT JOIN analysis_jobs j ON j.id = h.id
+     WHERE h.created_at >= DATE_SUB(NOW(), INTERVAL ? DAY)`,
+    [days]
+  );
+
+  // DECIMAL columns come back as strings, BOOLEAN ones as 0/1
+  const graded = rows.map(row => ({
+    ...row,
+    prediction: {
+      errorKm: row.error_km === null ? null : parseFloat(String(row.error_km)),
+      countryCorrect: row.country_correct === null ? null : !!row.country_correct,
+      confidence: row.confidence_score ?? null
+    } as GradedPrediction
+  }));
+  const predictions = graded.map(row => row.prediction);
+
+  const premiumKey = (row: any) => row.used_cloud_vision && row.used_serp_api ? 'both'
+    : row.used_cloud_vision ? 'cloud_vision'
+    : row.used_serp_api ? 'serp_api'
+    : 'none';
+
+  return {
+    days,
+    overall: summarizeAccuracy(predictions),
+    errorDistribution: errorDistribution(predictions),
+    byWeek: groupPredictions(graded, row => row.week, key => `Week of ${key}`)
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    byMode: groupPredictions(graded, row => row.mode || 'unknown', key => MODE_LABELS[key] || key)
+      .sort((a, b) => Object.keys(MODE_LABELS).indexOf(a.key) - Object.keys(MODE_LABELS).indexOf(b.key)),
+    byPremium: groupPredictions(graded, premiumKey, key => PREMIUM_LABELS[key])
+      .sort((a, b) => Object.keys(PREMIUM_LABELS).indexOf(a.key) - Object.keys(PREMIUM_LABELS).indexOf(b.key))
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * Language & Script Identifier
+ * Offline identification of the language and writing system of each string
+ * the clue experts transcribed from signs. Scripts that belong to a single
+ * language (Hangul, kana, Thai, Greek...) decide directly; Latin, Cyrillic,
+ * Arabic and Devanagari text goes through franc's trigram models, narrowed by
+ * language-specific letters (ß, ł, ő, ñ...). Languages are then mapped to the
+ * countries where they appear on signage.
+ */
+
+import { francAll } from 'franc-min';
+import * as countryCoder from '@rapideditor/country-coder';
+
+export type DetectionMethod = 'script' | 'letters' | 'trigrams';
+
+export interface LanguageDetection {
+  text: string;
+  script: string | null;  // dominant Unicode script, e.g. Latin, Cyrillic, Han
+  language: string | null;  // ISO 639-3, null when undetermined
+  languageName: string | null;
+  confidence: number;  // 0-100
+  method: DetectionMethod | null;  // writing system, language-specific letters or franc trigrams
+  combined?: boolean;  // all trigram-identified strings of one script identified together
+}
+
+export interface LanguageShare {
+  language: string;
+  languageName: string;
+  share: number;  // 0-100, over all confidently identified strings
+  confidence: number;  // 0-100, best detection of this language
+}
+
+export interface LanguageCountry {
+  countryCode: string;
+  countryName: string;
+  probability: number;  // 0-100, normalized over all countries
+  confidence: number;  // 0-100, detection confidence times how common the language is there
+  languages: string[];  // names of the identified languages used there
+}
+
+export interface LanguageIdentification {
+  strings: LanguageDetection[];
+  languages: LanguageShare[];  // most common first
+  countries: LanguageCountry[];  // most likely first
+}
+
+interface LanguageInfo {
+  name: string;
+  countries: Record<string, number>;  // ISO 3166-1 alpha-2 -> how common on signage (1 = main language)
+}
+
+const MIN_TEXT_LENGTH = 3;  // letters
+const FULL_CONFIDENCE_LENGTH = 25;  // letters needed before a trigram match is fully trusted
+const MIN_COUNTED_CONFIDENCE = 30;  // weaker detections are reported but not counted
+const MIN_TRIGRAM_LETTERS = 20;  // shorter text ("OPEN", "Fermé le dimanche") is too short for trigrams to count
+const DIACRITIC_CONFIDENCE = 85;  // a letter only one language uses
+const HAN_ONLY_CONFIDENCE = 60;  // Han without kana may still be Japanese
+const TRIGRAM_SCRIPTS = ['Latin', 'Cyrillic', 'Arabic', 'Devanagari'];  // identified by franc
+
+const LANGUAGES: Record<string, LanguageInfo> = {
+  // Latin script
+  eng: { name: 'English', countries: { US: 1, GB: 1, IE: 1, AU: 1, NZ: 1, CA: 0.7, ZA: 0.5, SG: 0.5, PH: 0.4, IN: 0.3, NG: 0.5, KE: 0.4, GH: 0.5, MT: 0.4, JM: 0.5, HK: 0.2 } },
+  fra: { name: 'French', countries: { FR: 1, BE: 0.5, CH: 0.4, LU: 0.3, MC: 0.1, CA: 0.3, SN: 0.3, CI: 0.3, CM: 0.3, MA: 0.2, TN: 0.2, DZ: 0.2, MG: 0.2, HT: 0.2 } },
+  deu: { name: 'German', countries: { DE: 1, AT: 1, CH: 0.6, LI: 0.1, LU: 0.2, IT: 0.05 } },
+  spa: { name: 'Spanish', countries: { ES: 1, MX: 1, AR: 1, CO: 1, CL: 1, PE: 1, VE: 0.8, EC: 0.8, GT: 0.8, CU: 0.6, BO: 0.8, DO: 0.8, HN: 0.6, PY: 0.6, SV: 0.6, NI: 0.6, CR: 0.8, PA: 0.6, UY: 0.8, PR: 0.6, AD: 0.2, US: 0.1 } },
+  por: { name: 'Portuguese', countries: { PT: 1, BR: 1, AO: 0.5, MZ: 0.5, CV: 0.3 } },
+  ita: { name: 'Italian', countries: { IT: 1, SM: 0.1, VA: 0.05, CH: 0.2 } },
+  nld: { name: 'Dutch', countries: { NL: 1, BE: 0.6, SR: 0.3 } },
+  pol: { name: 'Polish', countries: { PL: 1 } },
+  ces: { name: 'Czech', countries: { CZ: 1 } },
+  slk: { name: 'Slovak', countries: { SK: 1 } },
+  slv: { name: 'Slovenian', countries: { SI: 1 } },
+  hrv: { name: 'Croatian', countries: { HR: 1, BA: 0.4 } },
+  bos: { name: 'Bosnian', countries: { BA: 1 } },
+  srp: { name: 'Serbian', countries: { RS: 1, ME: 0.7, BA: 0.4 } },
+  hun: { name: 'Hungarian', countries: { HU: 1 } },
+  ron: { name: 'Romanian', countries: { RO: 1, MD: 0.8 } },
+  swe: { name: 'Swedish', countries: { SE: 1, FI: 0.2 } },
+  dan: { name: 'Danish', countries: { DK: 1 } },
+  nor: { name: 'Norwegian', countries: { NO: 1 } },
+  fin: { name: 'Finnish', countries: { FI: 1 } },
+  isl: { name: 'Icelandic', countries: { IS: 1 } },
+  lav: { name: 'Latvian', countries: { LV: 1 } },
+  lit: { name: 'Lithuanian', countries: { LT: 1 } },
+  cat: { name: 'Catalan', countries: { AD: 1, ES: 0.3 } },
+  tur: { name: 'Turkish', countries: { TR: 1, CY: 0.2 } },
+  azj: { name: 'Azerbaijani', countries: { AZ: 1 } },
+  uzn: { name: 'Uzbek', countries: { UZ: 1 } },
+  vie: { name: 'Vietnamese', countries: { VN: 1 } },
+  ind: { name: 'Indonesian', countries: { ID: 1 } },
+  zlm: { name: 'Malay', countries: { MY: 1, BN: 0.5, SG: 0.2 } },
+  jav: { name: 'Javanese', countries: { ID: 0.3 } },
+  sun: { name: 'Sundanese', countries: { ID: 0.2 } },
+  tgl: { name: 'Tagalog', countries: { PH: 0.7 } },
+  ceb: { name: 'Cebuano', countries: { PH: 0.3 } },
+  swh: { name: 'Swahili', countries: { TZ: 1, KE: 0.6 } },
+  hau: { name: 'Hausa', countries: { NG: 0.3, NE: 0.3 } },
+  yor: { name: 'Yoruba', countries: { NG: 0.2 } },
+  zul: { name: 'Zulu', countries: { ZA: 0.3 } },
+  som: { name: 'Somali', countries: { SO: 1 } },
+  kin: { name: 'Kinyarwanda', countries: { RW: 1 } },
+  plt: { name: 'Malagasy', countries: { MG: 0.6 } },
+  run: { name: 'Kirundi', countries: { BI: 1 } },
+  lin: { name: 'Lingala', countries: { CD: 0.3, CG: 0.3 } },
+  nya: { name: 'Chichewa', countries: { MW: 0.6 } },
+  ibo: { name: 'Igbo', countries: { NG: 0.2 } },
+  ckb: { name: 'Central Kurdish', countries: { IQ: 0.3 } },
+  // Cyrillic script
+  rus: { name: 'Russian', countries: { RU: 1, BY: 0.5, KZ: 0.5, KG: 0.5, UA: 0.1 } },
+  ukr: { name: 'Ukrainian', countries: { UA: 1 } },
+  bel: { name: 'Belarusian', countries: { BY: 0.5 } },
+  bul: { name: 'Bulgarian', countries: { BG: 1 } },
+  mkd: { name: 'Macedonian', countries: { MK: 1 } },
+  kaz: { name: 'Kazakh', countries: { KZ: 0.5 } },
+  // Other scripts
+  ell: { name: 'Greek', countries: { GR: 1, CY: 1 } },
+  arb: { name: 'Arabic', countries: { SA: 1, EG: 1, AE: 0.8, JO: 1, IQ: 1, SY: 1, LB: 0.7, KW: 1, QA: 1, OM: 1, BH: 1, YE: 1, LY: 1, SD: 1, MA: 0.6, DZ: 0.6, TN: 0.6 } },
+  pes: { name: 'Persian', countries: { IR: 1, AF: 0.5 } },
+  urd: { name: 'Urdu', countries: { PK: 1 } },
+  pbu: { name: 'Pashto', countries: { AF: 0.5 } },
+  heb: { name: 'Hebrew', countries: { IL: 1 } },
+  hin: { name: 'Hindi', countries: { IN: 1 } },
+  mar: { name: 'Marathi', countries: { IN: 0.3 } },
+  npi: { name: 'Nepali', countries: { NP: 1 } },
+  ben: { name: 'Bengali', countries: { BD: 1, IN: 0.2 } },
+  tam: { name: 'Tamil', countries: { IN: 0.2, LK: 0.4, SG: 0.1 } },
+  tel: { name: 'Telugu', countries: { IN: 0.2 } },
+  guj: { name: 'Gujarati', countries: { IN: 0.2 } },
+  kan: { name: 'Kannada', countries: { IN: 0.2 } },
+  mal: { name: 'Malayalam', countries: { IN: 0.2 } },
+  pan: { name: 'Punjabi', countries: { IN: 0.2, PK: 0.1 } },
+  sin: { name: 'Sinhala', countries: { LK: 1 } },
+  tha: { name: 'Thai', countries: { TH: 1 } },
+  lao: { name: 'Lao', countries: { LA: 1 } },
+  khm: { name: 'Khmer', countries: { KH: 1 } },
+  mya: { name: 'Burmese', countries: { MM: 1 } },
+  kat: { name: 'Georgian', countries: { GE: 1 } },
+  hye: { name: 'Armenian', countries: { AM: 1 } },
+  amh: { name: 'Amharic', countries: { ET: 1 } },
+  cmn: { name: 'Chinese', countries: { CN: 1, TW: 1, HK: 0.8, MO: 0.5, SG: 0.3 } },
+  jpn: { name: 'Japanese', countries: { JP: 1 } },
+  kor: { name: 'Korean', countries: { KR: 1, KP: 0.1 } }
+};
+
+// Scripts that (on signage) mean one language
+const SINGLE_LANGUAGE_SCRIPTS: Record<string, string> = {
+  Hangul: 'kor', Kana: 'jpn', Thai: 'tha', Lao: 'lao', Khmer: 'khm', Myanmar: 'mya',
+  Greek: 'ell', Hebrew: 'heb', Georgian: 'kat', Armenian: 'hye', Ethiopic: 'amh',
+  Sinhala: 'sin', Bengali: 'ben', Tamil: 'tam', Telugu: 'tel', Gujarati: 'guj',
+  Kannada: 'kan', Malayalam: 'mal', Gurmukhi: 'pan'
+};
+
+const SCRIPTS: Array<[string, RegExp]> = [
+  ['Latin', /\p{Script=Latin}/gu],
+  ['Cyrillic', /\p{Script=Cyrillic}/gu],
+  ['Arabic', /\p{Script=Arabic}/gu],
+  ['Devanagari', /\p{Script=Devanagari}/gu],
+  ['Han', /\p{Script=Han}/gu],
+  ['Kana', /[\p{Script=Hiragana}\p{Script=Katakana}]/gu],
+  ...Object.keys(SINGLE_LANGUAGE_SCRIPTS)
+    .filter(script => script !== 'Kana')
+    .map((script): [string, RegExp] => [script, new RegExp(`\\p{Script=${script}}`, 'gu')])
+];
+
+// Letters only some languages use; several hints narrow to their common languages
+const LETTER_HINTS: Array<[RegExp, string[]]> = [
+  [/ß/, ['deu']],
+  [/[ąęłńśźż]/i, ['pol']],
+  [/[őű]/i, ['hun']],
+  [/[řůě]/i, ['ces']],
+  [/[ťľĺŕ]/i, ['slk']],
+  [/[ãõ]/i, ['por']],
+  [/ñ/i, ['spa']],
+  [/œ/i, ['fra']],
+  [/[ùûÿ]/i, ['fra']],
+  [/î/i, ['fra', 'ron']],
+  [/ê/i, ['fra', 'por', 'vie']],
+  [/ô/i, ['fra', 'por', 'slk', 'vie']],
+  [/â/i, ['fra', 'por', 'ron', 'tur', 'vie']],
+  [/è/i, ['fra', 'ita', 'cat']],
+  [/à/i, ['fra', 'ita', 'cat', 'por']],
+  [/ç/i, ['fra', 'por', 'cat', 'tur', 'azj']],
+  [/é/i, ['fra', 'spa', 'por', 'ita', 'cat', 'hun', 'ces', 'slk', 'isl', 'vie']],
+  [/[ğı]/, ['tur', 'azj']],
+  [/[șț]/i, ['ron']],
+  [/[ơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/i, ['vie']],
+  [/å/i, ['swe', 'nor', 'dan']],
+  [/[øæ]/i, ['nor', 'dan']],
+  [/[ðþ]/i, ['isl']],
+  [/[āēīķļņģ]/i, ['lav']],
+  [/[ėįų]/i, ['lit']],
+  [/[čšž]/i, ['ces', 'slk', 'slv', 'hrv', 'bos', 'srp', 'lav', 'lit']],
+  [/đ/i, ['hrv', 'bos', 'srp', 'vie']],
+  [/[їєґ]/i, ['ukr']],
+  [/ў/i, ['bel']],
+  [/[ыэ]/i, ['rus', 'bel', 'kaz']],
+  [/ъ/i, ['rus', 'bul']],
+  [/[ђћџљњ]/i, ['srp', 'mkd']],
+  [/[ѓќѕ]/i, ['mkd']],
+  [/[әғқңөұһ]/i, ['kaz']]
+];
+
+const countryName = (code: string): string =>
+  countryCoder.feature(code)?.properties.nameEn || code;
+
+// ============ PER-STRING IDENTIFICATION ============
+
+const countScripts = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const [script, pattern] of SCRIPTS) {
+    const count = text.match(pattern)?.length || 0;
+    if (count > 0) counts.set(script, count);
+  }
+  return counts;
+};
+
+const countLetters = (text: string): number =>
+  [...countScripts(text).values()].reduce((sum, n) => sum + n, 0);
+
+const letterHints = (text: string): string[] => {
+  const matched = LETTER_HINTS.filter(([pattern]) => pattern.test(text)).map(([, languages]) => languages);
+  if (matched.length === 0) return [];
+  // Conflicting hints (mixed-language string) leave nothing - trust the trigrams instead
+  return matched.reduce((narrowed, languages) => narrowed.filter(l => languages.includes(l)));
+};
+
+const detection = (
+  text: string,
+  script: string | null,
+  method: DetectionMethod | null,
+  language: string | null,
+  confidence: number
+): LanguageDetection => ({
+  text,
+  script,
+  language,
+  languageName: language ? LANGUAGES[language]?.name || language : null,
+  confidence: language ? Math.round(confidence) : 0,
+  method: language ? method : null
+});
+
+/**
+ * Identify the script and language of one transcribed string
+ */
+export function identifyLanguage(text: string): LanguageDetection {
+  const scripts = countScripts(text);
+  const letters = countLetters(text);
+  if (letters < MIN_TEXT_LENGTH) return detection(text, null, null, null, 0);
+
+  // Japanese mixes kanji with kana - any kana decides
+  if (scripts.has('Kana')) return detection(text, 'Kana', 'script', 'jpn', 95);
+
+  const script = [...scripts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  if (SINGLE_LANGUAGE_SCRIPTS[script]) return detection(text, script, 'script', SINGLE_LANGUAGE_SCRIPTS[script], 95);
+  if (script === 'Han') return detection(text, script, 'script', 'cmn', HAN_ONLY_CONFIDENCE);
+
+  // Short strings have few trigrams, so their scores are less trustworthy
+  const lengthFactor = Math.min(1, letters / FULL_CONFIDENCE_LENGTH);
+  // Only languages that map to countries - franc also knows many rarely seen on signs
+  const candidates = francAll(text, { minLength: MIN_TEXT_LENGTH, only: Object.keys(LANGUAGES) });
+  const hints = letterHints(text);
+
+  if (hints.length === 1) return detection(text, script, 'letters', hints[0], DIACRITIC_CONFIDENCE);
+
+  const ranked = hints.length > 0 ? candidates.filter(([language]) => hints.includes(language)) : candidates;
+  const [top, second] = ranked;
+  if (!top || top[0] === 'und') {
+    // franc has no model for the hinted languages (e.g. Danish/Norwegian)
+    return hints.length > 0
+      ? detection(text, script, 'letters', hints[0], 100 / hints.length)
+      : detection(text, script, null, null, 0);
+  }
+
+  // franc scores are relative to the best (1); the gap to the runner-up is the margin
+  const margin = 1 - (second ? second[1] / top[1] : 0);
+  return detection(text, script, 'trigrams', top[0], 100 * Math.sqrt(margin) * lengthFactor);
+}
+
+// ============ AGGREGATION ============
+
+/**
+ * Identify every string and combine the confident detections into a language
+ * distribution and a country distribution (both empty when nothing was
+ * confident enough). Returns null when there is no text.
+ */
+export function identifyLanguages(texts: string[]): LanguageIdentification | null {
+  const strings = [...new Set(texts.map(t => t.trim()).filter(Boolean))].map(identifyLanguage);
+  if (strings.length === 0) return null;
+
+  // Sign text is short: trigram guesses on single strings are noisy, so the
+  // strings of one script are identified together and counted as one
+  const counted = strings.filter(s => s.method !== 'trigrams');
+  for (const script of TRIGRAM_SCRIPTS) {
+    const group = strings.filter(s => s.method === 'trigrams' && s.script === script);
+    if (group.length < 2) {
+      counted.push(...group);
+      continue;
+    }
+    const together = identifyLanguage(group.map(s => s.text).join('\n'));
+    if (together.method !== 'trigrams') continue;  // mixed-language letter hints
+    const combined = { ...together, text: group.map(s => s.text).join(' / '), combined: true };
+    strings.push(combined);
+    counted.push(combined);
+  }
+
+  const weights = new Map<string, number>();
+  const best = new Map<string, number>();
+  for (const s of counted) {
+    if (!s.language || s.confidence < MIN_COUNTED_CONFIDENCE) continue;
+    if (s.method === 'trigrams' && countLetters(s.text) < MIN_TRIGRAM_LETTERS) continue;
+    weights.set(s.language, (weights.get(s.language) || 0) + s.confidence / 100);
+    best.set(s.language, Math.max(best.get(s.language) || 0, s.confidence));
+  }
+  if (weights.size === 0) return { strings, languages: [], countries: [] };
+
+  const totalWeight = [...weights.values()].reduce((sum, w) => sum + w, 0);
+  const languages: LanguageShare[] = [...weights.entries()]
+    .map(([language, weight]) => ({
+      language,
+      languageName: LANGUAGES[language]?.name || language,
+      share: Math.round(weight / totalWeight * 100),
+      confidence: best.get(language)!
+    }))
+    .sort((a, b) => b.share - a.share);
+
+  // Signage in several languages points at the countries that use all of them
+  const scores = new Map<string, { score: number; confidence: number; languages: string[] }>();
+  for (const { language, languageName, confidence } of languages) {
+    const share = weights.get(language)! / totalWeight;
+    for (const [code, usage] of Object.entries(LANGUAGES[language]?.countries || {})) {
+      const entry = scores.get(code) || { score: 0, confidence: 0, languages: [] };
+      entry.score += share * usage;
+      entry.confidence = Math.max(entry.confidence, confidence * usage);
+      entry.languages.push(languageName);
+      scores.set(code, entry);
+    }
+  }
+
+  const totalScore = [...scores.values()].reduce((sum, e) => sum + e.score, 0);
+  const countries: LanguageCountry[] = [...scores.entries()]
+    .map(([code, entry]) => ({
+      countryCode: code,
+      countryName: countryName(code),
+      probability: Math.round(entry.score / totalScore * 1000) / 10,
+      confidence: Math.round(entry.confidence),
+      languages: entry.languages
+    }))
+    .sort((a, b) => b.probability - a.probability);
+
+  return { strings, languages, countries };
+}
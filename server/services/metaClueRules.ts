@@ -0,0 +1,212 @@
+/**
+ * Country Meta-Clue Rules
+ * Deterministic scoring of structured clue observations (driving side, road
+ * lines, bollards, plates, script, sockets, poles, domains) against the rule
+ * tables in data/meta-rules. Each table gives, per observed value, how likely
+ * that value is to be seen in each country; the likelihoods of all observations
+ * are multiplied into a per-country ranking.
+ *
+ * Rule file format:
+ *   {
+ *     "category": "driving_side", "label": "...", "description": "...",
+ *     "valueHint": "...",           // optional - described instead of listing every value
+ *     "reliability": 0.95,          // 0-1, how far an observation is trusted
+ *     "values": {
+ *       "left": { "label": "...", "likelihoods": { "GB": 1, "JP": 1 }, "otherwise": 0.02 }
+ *     }
+ *   }
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import * as countryCoder from '@rapideditor/country-coder';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const RULES_DIR = path.join(__dirname, '..', 'data', 'meta-rules');
+
+const FAVOURED_LIKELIHOOD = 0.5;  // a value "supports" a country at or above this
+
+interface RuleValue {
+  label: string;
+  likelihoods: Record<string, number>;  // ISO 3166-1 alpha-2 -> relative likelihood
+  otherwise: number;  // likelihood for countries not listed
+}
+
+export interface RuleTable {
+  category: string;
+  label: string;
+  description: string;
+  valueHint?: string;
+  reliability: number;
+  values: Record<string, RuleValue>;
+}
+
+export interface MetaClueObservation {
+  category: string;
+  value: string;
+  expertSource?: string;
+}
+
+export interface CountryLikelihood {
+  countryCode: string;
+  countryName: string;
+  probability: number;  // 0-100, normalized over all countries
+  supportingClues: string[];  // labels of observations that favour this country
+}
+
+export interface MetaClueRanking {
+  observations: Array<MetaClueObservation & { label: string }>;  // matched a rule table
+  ignored: MetaClueObservation[];  // unknown category or value
+  countries: CountryLikelihood[];  // every known country, most likely first
+}
+
+// ============ RULE TABLES ============
+
+let cachedTables: { signature: string; tables: RuleTable[] } | null = null;
+
+const isValidTable = (table: any): table is RuleTable => {
+  if (!table || typeof table.category !== 'string' || typeof table.values !== 'object') return false;
+  if (typeof table.reliability !== 'number' || table.reliability < 0 || table.reliability > 1) return false;
+  return Object.values(table.values).every((value: any) =>
+    value &&
+    typeof value.otherwise === 'number' && value.otherwise > 0 &&
+    typeof value.likelihoods === 'object' &&
+    Object.values(value.likelihoods).every(l => typeof l === 'number' && l > 0)
+  );
+};
+
+/**
+ * Read the rule tables, re-reading them whenever a file changes so edits
+ * apply without a restart. Invalid files are skipped.
+ */
+export function loadRuleTables(): RuleTable[] {
+  if (!fs.existsSync(RULES_DIR)) return [];
+
+  const files = fs.readdirSync(RULES_DIR).filter(f => f.endsWith('.json')).sort();
+  const signature = files.map(f => `${f}:${fs.statSync(path.join(RULES_DIR, f)).mtimeMs}`).join('|');
+  if (cachedTables?.signature === signature) return cachedTables.tables;
+
+  const tables: RuleTable[] = [];
+  for (const file of files) {
+    try {
+      const table = JSON.parse(fs.readFileSync(path.join(RULES_DIR, file), 'utf-8'));
+      if (!isValidTable(table)) {
+        console.error(`[MetaRules] Skipping ${file}: not a valid rule table`);
+        continue;
+      }
+      if (tables.some(t => t.category === table.category)) {
+        console.error(`[MetaRules] Skipping ${file}: duplicate category "${table.category}"`);
+        continue;
+      }
+      tables.push(table);
+    } catch (err: any) {
+      console.error(`[MetaRules] Skipping ${file}: ${err.message}`);
+    }
+  }
+
+  console.log(`[MetaRules] Loaded ${tables.length} rule tables`);
+  cachedTables = { signature, tables };
+  return tables;
+}
+
+/**
+ * Prompt section telling the clue experts which observations to report
+ */
+export function buildMetaClueInstructions(tables: RuleTable[] = loadRuleTables()): string {
+  if (tables.length === 0) return '';
+
+  const lines = tables.map(table => {
+    const values = table.valueHint || Object.keys(table.values).join(' | ');
+    return `- ${table.category} (${table.description}): ${values}`;
+  });
+
+  return `\n**META CLUES:** If you can clearly see any of the following, list them in "metaClues" as ` +
+    `{"category": "...", "value": "..."} using exactly these names. Leave out anything you cannot see.\n` +
+    lines.join('\n') + '\n';
+}
+
+// ============ SCORING ============
+
+// Every ISO-coded country or territory country-coder knows, with its English name
+let countryNames: Map<string, string> | null = null;
+
+const getCountryNames = (): Map<string, string> => {
+  if (!countryNames) {
+    countryNames = new Map(
+      countryCoder.borders.features
+        .filter(f => f.properties.iso1A2 && (f.properties.level === 'country' || f.properties.level === 'territory'))
+        .map(f => [f.properties.iso1A2!, f.properties.nameEn])
+    );
+  }
+  return countryNames;
+};
+
+/**
+ * Rank countries by the combined likelihood of all observations (uniform prior).
+ * Returns null when no observation matches a rule table.
+ */
+export function rankCountries(
+  observations: MetaClueObservation[],
+  tables: RuleTable[] = loadRuleTables()
+): MetaClueRanking | null {
+  const tablesByCategory = new Map(tables.map(t => [t.category, t]));
+  const matched: MetaClueRanking['observations'] = [];
+  const ignored: MetaClueObservation[] = [];
+  const seen = new Set<string>();
+
+  for (const observation of observations) {
+    const category = observation.category.trim().toLowerCase();
+    const value = observation.value.trim().toLowerCase().replace(/^\./, '');
+    const key = `${category}=${value}`;
+    if (seen.has(key)) continue;  // several experts reporting the same thing is one observation
+    seen.add(key);
+
+    const table = tablesByCategory.get(category);
+    const rule = table && Object.hasOwn(table.values, value) ? table.values[value] : undefined;
+    if (rule) {
+      matched.push({ ...observation, category, value, label: rule.label });
+    } else {
+      ignored.push(observation);
+    }
+  }
+
+  if (matched.length === 0) return null;
+
+  // Log-likelihoods avoid underflow with many observations
+  const names = getCountryNames();
+  const scores = new Map<string, number>();
+  for (const code of names.keys()) {
+    let score = 0;
+    for (const observation of matched) {
+      const table = tablesByCategory.get(observation.category)!;
+      const rule = table.values[observation.value];
+      const likelihood = rule.likelihoods[code] ?? rule.otherwise;
+      // An unreliable observation is pulled towards "no information" (likelihood 1)
+      score += Math.log(table.reliability * likelihood + (1 - table.reliability));
+    }
+    scores.set(code, score);
+  }
+
+  const maxScore = Math.max(...scores.values());
+  const total = [...scores.values()].reduce((sum, s) => sum + Math.exp(s - maxScore), 0);
+
+  const countries = [...scores.entries()]
+    .map(([code, score]) => ({ code, probability: Math.exp(score - maxScore) / total }))
+    .sort((a, b) => b.probability - a.probability)
+    .map(({ code, probability }) => ({
+      countryCode: code,
+      countryName: names.get(code)!,
+      probability: Math.round(probability * 1000) / 10,
+      supportingClues: matched
+        .filter(o => {
+          const rule = tablesByCategory.get(o.category)!.values[o.value];
+          return (rule.likelihoods[code] ?? rule.otherwise) >= FAVOURED_LIKELIHOOD;
+        })
+        .map(o => o.label)
+    }));
+
+  return { observations: matched, ignored, countries };
+}
@@ -0,0 +1,357 @@
+/**
+ * Metadata Forensics
+ * Reads every metadata block of an image (EXIF, GPS, IPTC, XMP, maker notes,
+ * embedded thumbnail) and reports what it says about where and when the photo
+ * was taken and whether it was edited: IPTC/XMP location fields, the time zone
+ * the camera clock was in, lens and serial numbers, the XMP edit history,
+ * and whether the embedded thumbnail still shows the main image.
+ *
+ * Metadata is easy to edit and often stripped on upload, so the findings are
+ * passed to the experts as claims to check against the pixels, not as facts.
+ */
+
+import exifr from 'exifr';
+import sharp from 'sharp';
+import { extractCaptureTime } from './exifService.js';
+import { differenceHash, hammingDistance } from './analysisCache.js';
+
+// dHash bits (of 64) that may differ between a thumbnail and its main image
+// (JPEG artefacts at thumbnail size) before they count as different pictures
+const THUMBNAIL_MAX_DISTANCE = 12;
+const ASPECT_RATIO_TOLERANCE = 0.05;
+const MODIFIED_AFTER_MS = 24 * 60 * 60 * 1000;
+
+const EDITING_SOFTWARE = /photoshop|lightroom|gimp|affinity|pixelmator|capture one|luminar|darktable|rawtherapee|acdsee|paint\.net|snapseed|picsart|facetune|vsco|canva|photoscape|fotor|polarr|meitu/i;
+
+export type ForensicsWarningCode =
+  | 'no_metadata'
+  | 'stripped_metadata'
+  | 'maker_notes_missing'
+  | 'editing_software'
+  | 'edit_history'
+  | 'thumbnail_mismatch'
+  | 'time_zone_mismatch'
+  | 'modified_after_capture';
+
+export interface ForensicsWarning {
+  code: ForensicsWarningCode;
+  severity: 'info' | 'warning';
+  message: string;
+}
+
+export interface MetadataLocationFields {
+  sublocation: string | null;  // street, landmark
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  countryCode: string | null;
+  source: 'iptc' | 'xmp';
+}
+
+export interface MetadataEditEvent {
+  action: string;  // "created", "saved", "converted", "derived"
+  softwareAgent: string | null;
+  when: string | null;
+  changed: string | null;
+}
+
+export interface MetadataForensicsReport {
+  imageIndex: number;
+  segments: string[];  // metadata blocks present: "EXIF", "GPS", "IPTC", "XMP", "Maker notes", "Thumbnail"
+  device: {
+    make: string | null;
+    model: string | null;
+    lensMake: string | null;
+    lensModel: string | null;
+    bodySerial: string | null;
+    lensSerial: string | null;
+    software: string | null;
+  };
+  location: MetadataLocationFields | null;
+  time: {
+    taken: string | null;  // camera wall-clock time "YYYY-MM-DDTHH:mm:ss"
+    modified: string | null;
+    recordedOffset: string | null;  // OffsetTimeOriginal, "+09:00"
+    gpsOffset: string | null;  // offset implied by the camera clock vs GPS time (UTC)
+    utc: string | null;  // ISO instant, when known
+  };
+  editHistory: MetadataEditEvent[];
+  thumbnail: {
+    width: number;
+    height: number;
+    distance: number | null;  // dHash bits differing from the main image
+    mismatch: boolean;
+  } | null;
+  warnings: ForensicsWarning[];
+}
+
+type Segments = Record<string, Record<string, any> | undefined>;
+
+const text = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  // XMP language alternatives come back as { lang, value }
+  const raw = typeof value === 'object' && 'value' in (value as any) ? (value as any).value : value;
+  const trimmed = String(raw).trim();
+  return trimmed ? trimmed : null;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// exifr revives dates in the server's time zone; the local fields are the camera's
+const wallClock = (value: unknown): string | null => {
+  if (!(value instanceof Date) || isNaN(value.getTime())) return null;
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}` +
+    `T${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+};
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+};
+
+const normalizeOffset = (value: unknown): string | null => {
+  const raw = text(value);
+  const match = raw?.match(/^([+-])(\d{2}):?(\d{2})$/);
+  return match ? `${match[1]}${match[2]}:${match[3]}` : null;
+};
+
+// IPTC-IIM first, then the XMP (photoshop / Iptc4xmpCore) equivalents
+const readLocation = (segments: Segments): MetadataLocationFields | null => {
+  const iptc = segments.iptc || {};
+  const fromIptc = {
+    sublocation: text(iptc.Sublocation),
+    city: text(iptc.City),
+    state: text(iptc.State),
+    country: text(iptc.Country),
+    countryCode: text(iptc.CountryCode)
+  };
+  if (Object.values(fromIptc).some(Boolean)) return { ...fromIptc, source: 'iptc' };
+
+  const photoshop = segments.photoshop || {};
+  const core = segments.Iptc4xmpCore || {};
+  const fromXmp = {
+    sublocation: text(core.Location),
+    city: text(photoshop.City),
+    state: text(photoshop.State),
+    country: text(photoshop.Country),
+    countryCode: text(core.CountryCode)
+  };
+  return Object.values(fromXmp).some(Boolean) ? { ...fromXmp, source: 'xmp' } : null;
+};
+
+const readEditHistory = (segments: Segments): MetadataEditEvent[] => {
+  const history = segments.xmpMM?.History;
+  const events = Array.isArray(history) ? history : history ? [history] : [];
+  return events
+    .filter(event => event && typeof event === 'object')
+    .map(event => ({
+      action: text(event.action) || 'unknown',
+      softwareAgent: text(event.softwareAgent),
+      when: text(event.when),
+      changed: text(event.changed)
+    }));
+};
+
+// Compare the embedded (IFD1) thumbnail with the main image
+const compareThumbnail = async (buffer: Buffer): Promise<MetadataForensicsReport['thumbnail']> => {
+  const thumbnail = await exifr.thumbnail(buffer);
+  if (!thumbnail) return null;
+
+  const thumbBuffer = Buffer.from(thumbnail);
+  const [thumbMeta, mainMeta] = await Promise.all([sharp(thumbBuffer).metadata(), sharp(buffer).metadata()]);
+  if (!thumbMeta.width || !thumbMeta.height) return null;
+
+  let distance: number | null = null;
+  try {
+    const [thumbHash, mainHash] = await Promise.all([differenceHash(thumbBuffer), differenceHash(buffer)]);
+    distance = hammingDistance(thumbHash, mainHash);
+  } catch {
+    // Undecodable thumbnail - only the aspect ratio can be compared
+  }
+
+  const aspectMismatch = !!mainMeta.width && !!mainMeta.height &&
+    Math.abs(thumbMeta.width / thumbMeta.height - mainMeta.width / mainMeta.height) / (mainMeta.width / mainMeta.height) > ASPECT_RATIO_TOLERANCE;
+
+  return {
+    width: thumbMeta.width,
+    height: thumbMeta.height,
+    distance,
+    mismatch: aspectMismatch || (distance !== null && distance > THUMBNAIL_MAX_DISTANCE)
+  };
+};
+
+/**
+ * Forensics report for one image
+ */
+export async function analyzeImageMetadata(base64Data: string, imageIndex: number = 0): Promise<MetadataForensicsReport> {
+  const buffer = Buffer.from(base64Data, 'base64');
+  const segments: Segments = await exifr.parse(buffer, {
+    tiff: true,
+    exif: true,
+    gps: true,
+    ifd1: true,
+    iptc: true,
+    xmp: true,
+    icc: false,
+    makerNote: true,
+    mergeOutput: false
+  }).catch(() => null) || {};
+
+  const ifd0 = segments.ifd0 || {};
+  const exif = segments.exif || {};
+  const gps = segments.gps || {};
+  const hasXmp = Object.keys(segments).some(key => !['ifd0', 'ifd1', 'exif', 'gps', 'iptc', 'interop'].includes(key));
+
+  const thumbnail = await compareThumbnail(buffer).catch(() => null);
+
+  const segmentNames = [
+    Object.keys(ifd0).length > 0 || Object.keys(exif).length > 0 ? 'EXIF' : null,
+    Object.keys(gps).length > 0 ? 'GPS' : null,
+    segments.iptc ? 'IPTC' : null,
+    hasXmp ? 'XMP' : null,
+    exif.MakerNote ? 'Maker notes' : null,
+    thumbnail ? 'Thumbnail' : null
+  ].filter((name): name is string => name !== null);
+
+  const device = {
+    make: text(ifd0.Make),
+    model: text(ifd0.Model),
+    lensMake: text(exif.LensMake),
+    lensModel: text(exif.LensModel),
+    bodySerial: text(exif.SerialNumber ?? exif.BodySerialNumber),
+    lensSerial: text(exif.LensSerialNumber),
+    software: text(ifd0.Software) || text(segments.xmp?.CreatorTool)
+  };
+
+  // Offset implied by the camera clock against GPS time, to the nearest quarter hour
+  const captureTime = extractCaptureTime({ ...ifd0, ...exif, ...gps });
+  let gpsOffset: string | null = null;
+  if (captureTime?.source === 'gps' && captureTime.utc) {
+    const minutes = Math.round((new Date(`${captureTime.localTime}Z`).getTime() - captureTime.utc.getTime()) / 60000 / 15) * 15;
+    if (Math.abs(minutes) <= 14 * 60) gpsOffset = formatOffset(minutes);
+  }
+  const time = {
+    taken: captureTime?.localTime || null,
+    modified: wallClock(ifd0.ModifyDate),
+    recordedOffset: normalizeOffset(exif.OffsetTimeOriginal ?? exif.OffsetTime),
+    gpsOffset,
+    utc: captureTime?.utc ? captureTime.utc.toISOString() : null
+  };
+
+  const editHistory = readEditHistory(segments);
+  const warnings: ForensicsWarning[] = [];
+
+  if (segmentNames.length === 0) {
+    warnings.push({
+      code: 'no_metadata',
+      severity: 'warning',
+      message: 'No metadata at all - typical of screenshots and of images re-shared through social media or messaging apps'
+    });
+  } else if (!device.make && !device.model && !time.taken) {
+    warnings.push({
+      code: 'stripped_metadata',
+      severity: 'warning',
+      message: 'Metadata present but camera and capture time removed - the file was probably re-saved or sanitized'
+    });
+  }
+  if (device.make && segmentNames.includes('EXIF') && !exif.MakerNote) {
+    warnings.push({
+      code: 'maker_notes_missing',
+      severity: 'info',
+      message: 'No maker notes - cameras write them, many editors drop them when re-saving'
+    });
+  }
+
+  const editors = [...new Set(
+    [device.software, ...editHistory.map(event => event.softwareAgent)]
+      .filter((name): name is string => !!name && EDITING_SOFTWARE.test(name))
+  )];
+  if (editors.length > 0) {
+    warnings.push({ code: 'editing_software', severity: 'warning', message: `Processed with editing software: ${editors.join(', ')}` });
+  }
+  const edits = editHistory.filter(event => event.action !== 'created');
+  if (edits.length > 0) {
+    warnings.push({
+      code: 'edit_history',
+      severity: 'warning',
+      message: `XMP history records ${edits.length} edit${edits.length === 1 ? '' : 's'} (${[...new Set(edits.map(e => e.action))].join(', ')})`
+    });
+  }
+  if (thumbnail?.mismatch) {
+    warnings.push({
+      code: 'thumbnail_mismatch',
+      severity: 'warning',
+      message: 'The embedded thumbnail does not match the image - it was cropped or altered after capture'
+    });
+  }
+  if (time.recordedOffset && time.gpsOffset && time.recordedOffset !== time.gpsOffset) {
+    warnings.push({
+      code: 'time_zone_mismatch',
+      severity: 'warning',
+      message: `Recorded UTC offset ${time.recordedOffset} disagrees with the GPS clock (${time.gpsOffset})`
+    });
+  }
+  const takenAt = exif.DateTimeOriginal instanceof Date ? exif.DateTimeOriginal.getTime() : null;
+  const modifiedAt = ifd0.ModifyDate instanceof Date ? ifd0.ModifyDate.getTime() : null;
+  if (takenAt !== null && modifiedAt !== null && modifiedAt - takenAt > MODIFIED_AFTER_MS) {
+    warnings.push({
+      code: 'modified_after_capture',
+      severity: 'info',
+      message: `File modified ${Math.round((modifiedAt - takenAt) / MODIFIED_AFTER_MS)} days after it was taken`
+    });
+  }
+
+  return {
+    imageIndex,
+    segments: segmentNames,
+    device,
+    location: readLocation(segments),
+    time,
+    editHistory,
+    thumbnail,
+    warnings
+  };
+}
+
+/**
+ * Forensics reports for every image of an analysis
+ */
+export async function analyzeMetadataForensics(
+  images: { base64: string; mimeType: string }[]
+): Promise<MetadataForensicsReport[]> {
+  const reports: MetadataForensicsReport[] = [];
+  for (let i = 0; i < images.length; i++) {
+    reports.push(await analyzeImageMetadata(images[i].base64, i));
+  }
+  return reports;
+}
+
+/**
+ * The findings worth telling the experts (location fields, time zone,
+ * editing), or null when the metadata says nothing useful
+ */
+export function formatForensicsForPrompt(reports: MetadataForensicsReport[]): string | null {
+  const lines: string[] = [];
+  const label = (report: MetadataForensicsReport) => reports.length > 1 ? `Image ${report.imageIndex + 1}: ` : '';
+
+  for (const report of reports) {
+    if (report.location) {
+      const { sublocation, city, state, country, countryCode } = report.location;
+      const place = [sublocation, city, state, country].filter(Boolean).join(', ');
+      lines.push(`${label(report)}${report.location.source.toUpperCase()} location fields say "${place}"` +
+        `${countryCode ? ` (${countryCode})` : ''} - typed in by the photographer or an editor, verify against the image`);
+    }
+    const offset = report.time.recordedOffset || report.time.gpsOffset;
+    if (offset) {
+      lines.push(`${label(report)}Camera clock was set to UTC${offset}` +
+        `${report.time.taken ? ` (taken ${report.time.taken.replace('T', ' ')} local time)` : ''} - consistent regions must use that time zone`);
+    }
+    const editing = report.warnings.filter(w => ['editing_software', 'edit_history', 'thumbnail_mismatch', 'time_zone_mismatch'].includes(w.code));
+    if (editing.length > 0) {
+      lines.push(`${label(report)}Possible tampering: ${editing.map(w => w.message).join('; ')} - do not trust the metadata above blindly`);
+    }
+  }
+
+  return lines.length > 0 ? lines.map(line => `- ${line}`).join('\n') : null;
+}
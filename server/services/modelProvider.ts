@@ -0,0 +1,156 @@
+/**
+ * Vision Model Provider Layer
+ * Abstracts the multimodal model behind a small interface so the analysis
+ * pipeline can run against Gemini, a fixture-backed fake, or other backends.
+ */
+
+import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from '@google/genai';
+import { createFakeProvider } from './fakeModelProvider.js';
+
+export interface ImagePart {
+  inlineData: { mimeType: string; data: string };
+}
+
+// Grounding tools a provider may expose to the model
+export type ModelTool = 'googleSearch' | 'googleMaps';
+
+export interface ModelRequest {
+  phase: string;  // pipeline phase label, e.g. "clue_expert:text", "final_search"
+  systemInstruction: string;
+  prompt: string;
+  images: ImagePart[];
+  tools?: ModelTool[];
+  model?: string;  // override the provider's default model
+  attempt?: number;  // retry number of the same logical call (0 or unset for the first try)
+  signal?: AbortSignal;  // aborts the call (cancellation or deadline)
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ModelResponse {
+  text: string | undefined;
+  sources: Array<{ title: string; uri: string }>;  // grounding sources
+  groundingMetadata?: unknown;  // raw grounding metadata (search queries, supports), when grounded
+  usage: ModelUsage | null;
+  model: string;
+}
+
+export interface ModelProvider {
+  name: string;
+  generate(request: ModelRequest): Promise<ModelResponse>;
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// ============ GEMINI PROVIDER ============
+
+// Lazy initialization - create client on first use (after dotenv loads)
+let _ai: GoogleGenAI | null = null;
+
+const getAI = () => {
+  if (!_ai) {
+    const key = process.env.GEMINI_API_KEY;
+    if (!key) {
+      throw new Error('GEMINI_API_KEY is not set in environment!');
+    }
+    _ai = new GoogleGenAI({ apiKey: key });
+  }
+  return _ai;
+};
+
+const SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+];
+
+const extractSources = (response: any): Array<{ title: string; uri: string }> => {
+  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  return groundingChunks
+    .filter((chunk: any) => chunk.web?.uri || chunk.maps?.uri)
+    .map((chunk: any) => ({
+      title: chunk.web?.title || chunk.maps?.title || "Source Link",
+      uri: chunk.web?.uri || chunk.maps?.uri
+    }));
+};
+
+// Grounded responses sometimes leave response.text empty while a text part exists
+const extractText = (response: any): string | undefined => {
+  if (response.text) return response.text;
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const textPart = parts.find((p: any) => p.text);
+  return textPart?.text;
+};
+
+const extractUsage = (response: any): ModelUsage | null => {
+  const usage = response.usageMetadata;
+  if (!usage) return null;
+  const inputTokens = usage.promptTokenCount || 0;
+  const outputTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.totalTokenCount || inputTokens + outputTokens
+  };
+};
+
+export function createGeminiProvider(defaultModel: string = DEFAULT_GEMINI_MODEL): ModelProvider {
+  return {
+    name: 'gemini',
+    async generate(request: ModelRequest): Promise<ModelResponse> {
+      const model = request.model || defaultModel;
+      const tools = (request.tools || []).map(tool => ({ [tool]: {} }));
+
+      const response = await getAI().models.generateContent({
+        model,
+        contents: { parts: [...request.images, { text: request.prompt }] },
+        config: {
+          systemInstruction: request.systemInstruction,
+          ...(tools.length > 0 ? { tools } : {}),
+          safetySettings: SAFETY_SETTINGS,
+          abortSignal: request.signal,
+        }
+      });
+
+      return {
+        text: extractText(response),
+        sources: extractSources(response),
+        groundingMetadata: response.candidates?.[0]?.groundingMetadata,
+        usage: extractUsage(response),
+        model
+      };
+    }
+  };
+}
+
+// ============ PROVIDER SELECTION ============
+
+let _provider: ModelProvider | null = null;
+
+/**
+ * Get the configured model provider (MODEL_PROVIDER=gemini|fake)
+ */
+export function getModelProvider(): ModelProvider {
+  if (!_provider) {
+    const kind = (process.env.MODEL_PROVIDER || 'gemini').toLowerCase();
+
+    switch (kind) {
+      case 'gemini':
+        _provider = createGeminiProvider(process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+        break;
+      case 'fake':
+        _provider = createFakeProvider(process.env.FAKE_PROVIDER_FIXTURE);
+        break;
+      default:
+        throw new Error(`Unknown MODEL_PROVIDER "${kind}" (expected "gemini" or "fake")`);
+    }
+
+    console.log(`[ModelProvider] Using ${_provider.name} provider`);
+  }
+  return _provider;
+}
@@ -0,0 +1,252 @@
+/**
+ * Model Output Schemas
+ * Strict validation of the JSON the model returns for clue experts and the
+ * final location search. Validation collects field-level errors (e.g.
+ * "evidence[1].strength: expected one of hard, medium, soft") that are fed
+ * back to the model when asking it to repair its output.
+ */
+
+import { COMPASS_POINTS } from './solarPosition.js';
+
+export type SchemaNode =
+  | { type: 'string'; optional?: boolean; nullable?: boolean; nonEmpty?: boolean; enum?: string[] }
+  | { type: 'number'; optional?: boolean; nullable?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; optional?: boolean; nullable?: boolean }
+  | { type: 'array'; optional?: boolean; items: SchemaNode }
+  | { type: 'object'; optional?: boolean; nullable?: boolean; properties: Record<string, SchemaNode> };
+
+export interface SchemaError {
+  path: string;  // e.g. "candidates[0].coordinates.lat", "(root)" for the document itself
+  message: string;
+}
+
+// errors is empty when data is valid
+export interface ParsedOutput {
+  data: any;
+  errors: SchemaError[];
+}
+
+const MAX_REPORTED_ERRORS = 20;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const joinPath = (parent: string, key: string): string => parent ? `${parent}.${key}` : key;
+
+const validateNode = (schema: SchemaNode, value: unknown, path: string, errors: SchemaError[]): void => {
+  const at = path || '(root)';
+
+  if (value === undefined) {
+    if (!schema.optional) errors.push({ path: at, message: 'is required' });
+    return;
+  }
+  if (value === null) {
+    if (!('nullable' in schema && schema.nullable)) {
+      errors.push({ path: at, message: `expected ${schema.type}, got null` });
+    }
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push({ path: at, message: `expected string, got ${describeValue(value)}` });
+      } else if (schema.nonEmpty && value.trim().length === 0) {
+        errors.push({ path: at, message: 'must not be empty' });
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        errors.push({ path: at, message: `expected one of ${schema.enum.join(', ')}, got "${value}"` });
+      }
+      return;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ path: at, message: `expected number, got ${describeValue(value)}` });
+      } else if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+        errors.push({ path: at, message: `must be between ${schema.min ?? '-∞'} and ${schema.max ?? '∞'}, got ${value}` });
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push({ path: at, message: `expected boolean, got ${describeValue(value)}` });
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push({ path: at, message: `expected array, got ${describeValue(value)}` });
+        return;
+      }
+      value.forEach((item, idx) => validateNode(schema.items, item, `${path}[${idx}]`, errors));
+      return;
+
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push({ path: at, message: `expected object, got ${describeValue(value)}` });
+        return;
+      }
+      // Unknown properties are ignored
+      for (const [key, child] of Object.entries(schema.properties)) {
+        validateNode(child, (value as Record<string, unknown>)[key], joinPath(path, key), errors);
+      }
+      return;
+  }
+};
+
+/**
+ * Validate a value against a schema, returning every field-level error
+ */
+export function validateSchema(schema: SchemaNode, value: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateNode(schema, value, '', errors);
+  return errors.slice(0, MAX_REPORTED_ERRORS);
+}
+
+/**
+ * Extract the JSON object from raw model text (which may be wrapped in
+ * markdown fences or prose) and validate it
+ */
+export function parseModelOutput(text: string, schema: SchemaNode): ParsedOutput {
+  const firstBrace = text.indexOf('{');
+  const lastBrace = text.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace <= firstBrace) {
+    return { data: null, errors: [{ path: '(root)', message: 'no JSON object found in the response' }] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text.substring(firstBrace, lastBrace + 1));
+  } catch (err: any) {
+    return { data: null, errors: [{ path: '(root)', message: `invalid JSON (${err.message})` }] };
+  }
+
+  return { data, errors: validateSchema(schema, data) };
+}
+
+/**
+ * One error per line, for logs and repair prompts
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map(e => `- ${e.path}: ${e.message}`).join('\n');
+}
+
+// ============ SCHEMAS ============
+
+const stringList = (optional = true): SchemaNode => ({ type: 'array', optional, items: { type: 'string' } });
+const percentage = (optional = false): SchemaNode => ({ type: 'number', optional, min: 0, max: 100 });
+
+const COORDINATES_SCHEMA: SchemaNode = {
+  type: 'object',
+  optional: true,
+  nullable: true,
+  properties: {
+    lat: { type: 'number', min: -90, max: 90 },
+    lng: { type: 'number', min: -180, max: 180 }
+  }
+};
+
+// ClueExpertOutput, as described in the clue expert prompts
+export const CLUE_EXPERT_OUTPUT_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    expertType: { type: 'string', optional: true },
+    searchableClues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          clue: { type: 'string', nonEmpty: true },
+          type: { type: 'string' },
+          searchQuery: { type: 'string', optional: true, nullable: true }
+        }
+      }
+    },
+    languageClues: stringList(),
+    transcribedText: stringList(),
+    infrastructureClues: stringList(),
+    architectureStyle: { type: 'string', optional: true, nullable: true },
+    vegetationClues: stringList(),
+    climateIndicators: stringList(),
+    metaClues: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', nonEmpty: true },
+          value: { type: 'string', nonEmpty: true }
+        }
+      }
+    },
+    shadows: {
+      type: 'object',
+      optional: true,
+      nullable: true,
+      properties: {
+        visible: { type: 'boolean' },
+        lengthRatio: { type: 'number', optional: true, nullable: true, min: 0, max: 50 },
+        direction: { type: 'string', optional: true, nullable: true, enum: COMPASS_POINTS },
+        reasoning: { type: 'string', optional: true }
+      }
+    },
+    suggestedRegions: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        properties: {
+          region: { type: 'string', nonEmpty: true },
+          confidence: percentage(),
+          reasoning: { type: 'string', optional: true }
+        }
+      }
+    }
+  }
+};
+
+// GeoAnalysisResult fields the model is asked to produce (final search and refine)
+export const GEO_RESULT_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    locationName: { type: 'string', nonEmpty: true },
+    coordinates: COORDINATES_SCHEMA,
+    confidenceScore: percentage(),
+    confidence: {
+      type: 'object',
+      optional: true,
+      properties: {
+        region: percentage(),
+        local: percentage()
+      }
+    },
+    reasoning: stringList(false),
+    evidence: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        properties: {
+          clue: { type: 'string', nonEmpty: true },
+          strength: { type: 'string', enum: ['hard', 'medium', 'soft'] },
+          supports: { type: 'string' }
+        }
+      }
+    },
+    alternativeLocations: stringList(),
+    uncertainties: stringList(),
+    visualCues: {
+      type: 'object',
+      optional: true,
+      properties: {
+        signs: { type: 'string', optional: true },
+        architecture: { type: 'string', optional: true },
+        environment: { type: 'string', optional: true },
+        demographics: { type: 'string', optional: true }
+      }
+    },
+    searchQueriesUsed: stringList()
+  }
+};
@@ -0,0 +1,307 @@
+/**
+ * Prompt Registry
+ * Versioned analysis prompts and clue expert roster stored in MySQL. Admins
+ * create new versions and activate (or roll back to) any of them without a
+ * deploy; each analysis records the version ids it ran with.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { query, queryOne, execute } from '../db/connection.js';
+import { DbPromptVersion } from '../db/models.js';
+import { createError } from '../middleware/errorHandler.js';
+import {
+  PROMPT_KEYS,
+  PROMPT_SEEDS,
+  CLUE_EXPERT_PREFIX,
+  DEFAULT_PROMPT_SET,
+  ClueExpertDefinition,
+  PromptSet
+} from './defaultPrompts.js';
+
+const CLUE_EXPERT_KEY_PATTERN = /^clue_expert:[a-z0-9_]{1,50}$/;
+const MAX_PROMPT_LENGTH = 100000;
+
+export interface PromptSummary {
+  key: string;
+  kind: 'prompt' | 'roster';
+  description: string;
+  activeVersion: { id: string; version: number } | null;
+  latestVersion: number;
+  versionCount: number;
+}
+
+// Active set cache - invalidated whenever a version is created or activated
+let _activeSet: PromptSet | null = null;
+
+const invalidateActiveSet = () => {
+  _activeSet = null;
+};
+
+const describeKey = (key: string): string =>
+  PROMPT_SEEDS.find(seed => seed.key === key)?.description ||
+  `Custom clue expert: ${key.slice(CLUE_EXPERT_PREFIX.length)}`;
+
+const isKnownKey = (key: string): boolean =>
+  PROMPT_SEEDS.some(seed => seed.key === key) || CLUE_EXPERT_KEY_PATTERN.test(key);
+
+/**
+ * Parse and check a roster document (JSON array of {name, promptKey})
+ */
+function parseRoster(content: string): ClueExpertDefinition[] {
+  let roster: any;
+  try {
+    roster = JSON.parse(content);
+  } catch {
+    throw createError('Roster must be valid JSON', 400, 'INVALID_ROSTER');
+  }
+
+  if (!Array.isArray(roster) || roster.length === 0) {
+    throw createError('Roster must be a non-empty array of experts', 400, 'INVALID_ROSTER');
+  }
+
+  const names = new Set<string>();
+  for (const expert of roster) {
+    if (!expert || typeof expert.name !== 'string' || !/^[a-z0-9_]{1,50}$/.test(expert.name)) {
+      throw createError('Each expert needs a lowercase "name" (a-z, 0-9, _)', 400, 'INVALID_ROSTER');
+    }
+    if (typeof expert.promptKey !== 'string' || !CLUE_EXPERT_KEY_PATTERN.test(expert.promptKey)) {
+      throw createError(`Expert "${expert.name}" needs a "promptKey" like "clue_expert:<name>"`, 400, 'INVALID_ROSTER');
+    }
+    if (names.has(expert.name)) {
+      throw createError(`Expert "${expert.name}" is listed twice`, 400, 'INVALID_ROSTER');
+    }
+    names.add(expert.name);
+  }
+
+  return roster.map((expert: any) => ({ name: expert.name, promptKey: expert.promptKey }));
+}
+
+/**
+ * A roster can only be activated when every expert prompt has an active version
+ */
+async function assertRosterPromptsActive(roster: ClueExpertDefinition[]): Promise<void> {
+  const active = await query<DbPromptVersion[]>(
+    'SELECT prompt_key FROM prompt_versions WHERE is_active = TRUE'
+  );
+  const activeKeys = new Set(active.map(row => row.prompt_key));
+  const missing = roster.filter(expert => !activeKeys.has(expert.promptKey));
+
+  if (missing.length > 0) {
+    throw createError(
+      `No active prompt for: ${missing.map(e => e.promptKey).join(', ')}`,
+      400,
+      'ROSTER_PROMPT_MISSING'
+    );
+  }
+}
+
+/**
+ * Insert version 1 of every built-in prompt that has no versions yet
+ */
+export async function seedPromptRegistry(): Promise<void> {
+  let seeded = 0;
+  for (const seed of PROMPT_SEEDS) {
+    const existing = await queryOne<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM prompt_versions WHERE prompt_key = ?',
+      [seed.key]
+    );
+    if (existing && existing.count > 0) continue;
+
+    await execute(
+      `INSERT INTO prompt_versions (id, prompt_key, version, content, note, is_active)
+       VALUES (?, ?, 1, ?, ?, TRUE)`,
+      [uuidv4(), seed.key, seed.content, 'Built-in prompt']
+    );
+    seeded++;
+  }
+
+  if (seeded > 0) {
+    console.log(`[Prompts] Seeded ${seeded} built-in prompt(s)`);
+    invalidateActiveSet();
+  }
+}
+
+/**
+ * Load the active prompts for an analysis run. Falls back to the built-in
+ * prompt for anything missing, and entirely when the registry is unreachable.
+ */
+export async function getActivePromptSet(): Promise<PromptSet> {
+  if (_activeSet) return _activeSet;
+
+  let rows: DbPromptVersion[];
+  try {
+    rows = await query<DbPromptVersion[]>('SELECT * FROM prompt_versions WHERE is_active = TRUE');
+  } catch (err) {
+    console.error('[Prompts] Registry unavailable, using built-in prompts:', err);
+    return DEFAULT_PROMPT_SET;
+  }
+
+  const active = new Map(rows.map(row => [row.prompt_key, row]));
+  const versions = { ...DEFAULT_PROMPT_SET.versions };
+  for (const row of rows) {
+    versions[row.prompt_key] = { id: row.id, version: row.version };
+  }
+
+  const contentFor = (key: string): string | undefined =>
+    active.get(key)?.content ?? PROMPT_SEEDS.find(seed => seed.key === key)?.content;
+
+  let roster: ClueExpertDefinition[] = DEFAULT_PROMPT_SET.clueExperts;
+  const rosterRow = active.get(PROMPT_KEYS.CLUE_EXPERT_ROSTER);
+  if (rosterRow) {
+    try {
+      roster = parseRoster(rosterRow.content);
+    } catch (err: any) {
+      console.error(`[Prompts] Active roster v${rosterRow.version} is invalid, using built-in roster:`, err.message);
+      versions[PROMPT_KEYS.CLUE_EXPERT_ROSTER] = DEFAULT_PROMPT_SET.versions[PROMPT_KEYS.CLUE_EXPERT_ROSTER];
+    }
+  }
+
+  const clueExperts = roster
+    .map(expert => ({ ...expert, prompt: contentFor(expert.promptKey) }))
+    .filter((expert): expert is { name: string; promptKey: string; prompt: string } => {
+      if (!expert.prompt) console.warn(`[Prompts] No prompt for expert "${expert.name}" (${expert.promptKey}), skipping`);
+      return !!expert.prompt;
+    });
+
+  _activeSet = {
+    clueExperts: clueExperts.length > 0 ? clueExperts : DEFAULT_PROMPT_SET.clueExperts,
+    finalSearch: contentFor(PROMPT_KEYS.FINAL_SEARCH)!,
+    refine: contentFor(PROMPT_KEYS.REFINE)!,
+    versions
+  };
+  return _activeSet;
+}
+
+/**
+ * All registry keys with their active and latest versions
+ */
+export async function listPrompts(): Promise<PromptSummary[]> {
+  const rows = await query<Array<{ prompt_key: string; version_count: number; latest_version: number }>>(
+    `SELECT prompt_key, COUNT(*) AS version_count, MAX(version) AS latest_version
+     FROM prompt_versions GROUP BY prompt_key`
+  );
+  const activeRows = await query<DbPromptVersion[]>(
+    'SELECT id, prompt_key, version FROM prompt_versions WHERE is_active = TRUE'
+  );
+  const activeByKey = new Map(activeRows.map(row => [row.prompt_key, row]));
+
+  const keys = [...new Set([...PROMPT_SEEDS.map(seed => seed.key), ...rows.map(row => row.prompt_key)])];
+  return keys.map(key => {
+    const stats = rows.find(row => row.prompt_key === key);
+    const active = activeByKey.get(key);
+    return {
+      key,
+      kind: key === PROMPT_KEYS.CLUE_EXPERT_ROSTER ? 'roster' as const : 'prompt' as const,
+      description: describeKey(key),
+      activeVersion: active ? { id: active.id, version: active.version } : null,
+      latestVersion: stats ? Number(stats.latest_version) : 0,
+      versionCount: stats ? Number(stats.version_count) : 0
+    };
+  });
+}
+
+/**
+ * Every version of one key, newest first
+ */
+export async function listPromptVersions(key: string): Promise<DbPromptVersion[]> {
+  return query<DbPromptVersion[]>(
+    'SELECT * FROM prompt_versions WHERE prompt_key = ? ORDER BY version DESC',
+    [key]
+  );
+}
+
+/**
+ * Store a new version of a prompt (or roster), optionally activating it
+ */
+export async function createPromptVersion(
+  key: string,
+  content: unknown,
+  note: string | null,
+  userId: string | null,
+  activate: boolean
+): Promise<DbPromptVersion> {
+  if (!isKnownKey(key)) {
+    throw createError(`Unknown prompt key "${key}"`, 400, 'UNKNOWN_PROMPT_KEY');
+  }
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    throw createError('Prompt content is required', 400, 'MISSING_CONTENT');
+  }
+  if (content.length > MAX_PROMPT_LENGTH) {
+    throw createError(`Prompt content is limited to ${MAX_PROMPT_LENGTH} characters`, 400, 'CONTENT_TOO_LONG');
+  }
+  if (key === PROMPT_KEYS.CLUE_EXPERT_ROSTER) {
+    parseRoster(content);
+  }
+
+  const latest = await queryOne<{ version: number | null }>(
+    'SELECT MAX(version) AS version FROM prompt_versions WHERE prompt_key = ?',
+    [key]
+  );
+  const id = uuidv4();
+  const version = (latest?.version || 0) + 1;
+
+  await execute(
+    `INSERT INTO prompt_versions (id, prompt_key, version, content, note, created_by)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [id, key, version, content, note ? note.substring(0, 500) : null, userId]
+  );
+  console.log(`[Prompts] Created ${key} v${version}`);
+
+  if (activate) {
+    return activatePromptVersion(key, id);
+  }
+
+  invalidateActiveSet();
+  return (await queryOne<DbPromptVersion>('SELECT * FROM prompt_versions WHERE id = ?', [id]))!;
+}
+
+/**
+ * Make one version the active one for its key (also used for rollback)
+ */
+export async function activatePromptVersion(key: string, versionId: string): Promise<DbPromptVersion> {
+  const target = await queryOne<DbPromptVersion>(
+    'SELECT * FROM prompt_versions WHERE id = ? AND prompt_key = ?',
+    [versionId, key]
+  );
+  if (!target) {
+    throw createError('Prompt version not found', 404, 'PROMPT_VERSION_NOT_FOUND');
+  }
+
+  if (key === PROMPT_KEYS.CLUE_EXPERT_ROSTER) {
+    await assertRosterPromptsActive(parseRoster(target.content));
+  }
+
+  // Single statement so there is never zero or two active versions
+  await execute(
+    'UPDATE prompt_versions SET is_active = (id = ?) WHERE prompt_key = ?',
+    [versionId, key]
+  );
+  invalidateActiveSet();
+  console.log(`[Prompts] Activated ${key} v${target.version}`);
+
+  return { ...target, is_active: true };
+}
+
+/**
+ * Re-activate the newest version older than the currently active one
+ */
+export async function rollbackPrompt(key: string): Promise<DbPromptVersion> {
+  const active = await queryOne<DbPromptVersion>(
+    'SELECT * FROM prompt_versions WHERE prompt_key = ? AND is_active = TRUE',
+    [key]
+  );
+  if (!active) {
+    throw createError(`No active version of "${key}"`, 404, 'PROMPT_VERSION_NOT_FOUND');
+  }
+
+  const previous = await queryOne<DbPromptVersion>(
+    `SELECT * FROM prompt_versions WHERE prompt_key = ? AND version < ?
+     ORDER BY version DESC LIMIT 1`,
+    [key, active.version]
+  );
+  if (!previous) {
+    throw createError(`"${key}" v${active.version} has no earlier version`, 400, 'NO_PREVIOUS_VERSION');
+  }
+
+  return activatePromptVersion(key, previous.id);
+}
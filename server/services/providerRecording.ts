@@ -0,0 +1,213 @@
+/**
+ * Provider Recording and Replay
+ * Captures every provider call of one analysis - model calls (with grounding
+ * metadata), Cloud Vision and Google Lens - together with the exact inputs
+ * analyzeImageLocation received, into a self-contained bundle. A bundle can be
+ * replayed offline (scripts/replay.ts) to reproduce the analysis without
+ * calling or paying for any provider.
+ *
+ * Model calls are recorded as the analysis saw them (after retries and
+ * deadlines), keyed by phase in call order, so the bundle is also a valid fake
+ * provider fixture (MODEL_PROVIDER=fake, benchmark case fixtures).
+ *
+ * Recording is enabled by RECORD_ANALYSES_DIR; one bundle per analysis is
+ * written there, named after the job id.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { ModelProvider, ModelRequest, ModelResponse } from './modelProvider.js';
+import type { FakeProviderFixture, FakeResponseFixture } from './fakeModelProvider.js';
+import type { PromptSet } from './defaultPrompts.js';
+import type { AnalysisMode, GeoAnalysisResult, LocationHints } from './geminiService.js';
+import type { ExifCaptureTime } from './exifService.js';
+
+export const RECORDING_FORMAT = 'geodetective-recording';
+
+export interface RecordedServiceCall {
+  operation: string;  // "web_detection", "google_lens"
+  response?: unknown;
+  error?: string;
+  status?: number;
+  code?: string;
+}
+
+export interface RecordingBundle extends FakeProviderFixture {
+  format: typeof RECORDING_FORMAT;
+  version: 1;
+  recordedAt: string;
+  responses: Record<string, FakeResponseFixture[]>;  // model calls by phase, in call order
+  services: Record<string, RecordedServiceCall[]>;  // "cloud_vision", "serp_api"
+  // What analyzeImageLocation was called with (hints include the premium service findings)
+  analysis: {
+    images: Array<{ base64: string; mimeType: string }>;
+    hints?: LocationHints;
+    mode: AnalysisMode;
+    captureTime: ExifCaptureTime | null;
+    prompts: PromptSet;
+    result: GeoAnalysisResult | null;
+    error: string | null;
+  } | null;
+}
+
+export interface AnalysisRecorder {
+  bundle: RecordingBundle;
+  wrapProvider(provider: ModelProvider): ModelProvider;
+  recordService<T>(service: string, operation: string, fn: () => Promise<T>): Promise<T>;
+  recordAnalysis(analysis: NonNullable<RecordingBundle['analysis']>): void;
+  save(name?: string): string | null;  // path of the written bundle, null when nothing was recorded
+}
+
+const recordedError = (err: any) => ({
+  error: String(err?.message || err),
+  ...(typeof err?.status === 'number' ? { status: err.status } : {}),
+  ...(err?.code ? { code: String(err.code) } : {})
+});
+
+/**
+ * Directory analyses are recorded to, or null when recording is off
+ * (read lazily - dotenv is loaded after module imports are evaluated)
+ */
+export function getRecordingDir(): string | null {
+  return process.env.RECORD_ANALYSES_DIR ? path.resolve(process.env.RECORD_ANALYSES_DIR) : null;
+}
+
+// ============ RECORDING ============
+
+/**
+ * Create a recorder for one analysis
+ */
+export function createAnalysisRecorder(): AnalysisRecorder {
+  const bundle: RecordingBundle = {
+    format: RECORDING_FORMAT,
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    responses: {},
+    services: {},
+    analysis: null
+  };
+
+  return {
+    bundle,
+
+    // Outermost wrapper: records what the analysis saw, including deadline errors
+    wrapProvider(provider) {
+      return {
+        name: provider.name,
+        async generate(request: ModelRequest): Promise<ModelResponse> {
+          // Reserve the slot when the call starts so parallel calls keep their order
+          const calls = bundle.responses[request.phase] || (bundle.responses[request.phase] = []);
+          const slot = calls.push({ error: 'Call did not finish before the analysis ended' }) - 1;
+          try {
+            const response = await provider.generate(request);
+            bundle.model = bundle.model || response.model;
+            calls[slot] = {
+              text: response.text,
+              sources: response.sources,
+              ...(response.groundingMetadata !== undefined ? { groundingMetadata: response.groundingMetadata } : {}),
+              ...(response.usage ? { usage: response.usage } : {})
+            };
+            return response;
+          } catch (err) {
+            calls[slot] = recordedError(err);
+            throw err;
+          }
+        }
+      };
+    },
+
+    async recordService(service, operation, fn) {
+      const calls = bundle.services[service] || (bundle.services[service] = []);
+      const slot = calls.push({ operation, error: 'Call did not finish before the analysis ended' }) - 1;
+      try {
+        const response = await fn();
+        calls[slot] = { operation, response };
+        return response;
+      } catch (err) {
+        calls[slot] = { operation, ...recordedError(err) };
+        throw err;
+      }
+    },
+
+    recordAnalysis(analysis) {
+      bundle.analysis = analysis;
+    },
+
+    save(name) {
+      const dir = getRecordingDir();
+      const hasCalls = Object.keys(bundle.responses).length > 0 || Object.keys(bundle.services).length > 0;
+      if (!dir || !hasCalls) return null;
+
+      fs.mkdirSync(dir, { recursive: true });
+      const filePath = path.join(dir, `${name || uuidv4()}.json`);
+      fs.writeFileSync(filePath, JSON.stringify(bundle, null, 2));
+      console.log(`[Recording] Saved ${filePath}`);
+      return filePath;
+    }
+  };
+}
+
+// ============ REPLAY ============
+
+/**
+ * Load and check a recording bundle
+ */
+export function loadRecordingBundle(filePath: string): RecordingBundle {
+  const bundle = JSON.parse(fs.readFileSync(path.resolve(filePath), 'utf-8')) as RecordingBundle;
+  if (bundle.format !== RECORDING_FORMAT || !bundle.responses) {
+    throw new Error(`${filePath} is not a ${RECORDING_FORMAT} bundle`);
+  }
+  return bundle;
+}
+
+export interface ReplayProvider extends ModelProvider {
+  // Recorded calls not served yet, by phase - non-empty after a replay means
+  // it took a different path than the recording
+  unusedCalls(): Record<string, number>;
+}
+
+/**
+ * Model provider that serves a bundle's recorded calls in order. Unlike the
+ * fake provider it is strict: a call the recording does not have means the
+ * replay diverged, and fails loudly.
+ */
+export function createReplayProvider(bundle: RecordingBundle): ReplayProvider {
+  const served = new Map<string, number>();
+
+  return {
+    name: 'replay',
+    unusedCalls() {
+      return Object.fromEntries(
+        Object.entries(bundle.responses)
+          .map(([phase, calls]) => [phase, calls.length - (served.get(phase) || 0)] as const)
+          .filter(([, unused]) => unused > 0)
+      );
+    },
+    async generate(request: ModelRequest): Promise<ModelResponse> {
+      const calls = bundle.responses[request.phase] || [];
+      const index = served.get(request.phase) || 0;
+      served.set(request.phase, index + 1);
+
+      const call = calls[index];
+      if (!call) {
+        throw new Error(`Replay diverged: no recorded call #${index + 1} for phase "${request.phase}" (recorded ${calls.length})`);
+      }
+      if (call.error) {
+        throw Object.assign(
+          new Error(call.error),
+          call.status ? { status: call.status } : {},
+          call.code ? { code: call.code } : {}
+        );
+      }
+
+      return {
+        text: call.json !== undefined ? JSON.stringify(call.json) : call.text,
+        sources: call.sources || [],
+        groundingMetadata: call.groundingMetadata,
+        usage: call.usage || null,
+        model: bundle.model || 'replay'
+      };
+    }
+  };
+}
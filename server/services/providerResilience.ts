@@ -0,0 +1,258 @@
+/**
+ * Provider Resilience
+ * Shared protection for calls to Gemini, Cloud Vision and SerpAPI:
+ * - transient errors (429, 5xx, network resets) are retried with exponential
+ *   backoff and full jitter
+ * - a per-provider circuit breaker opens after repeated transient failures so
+ *   calls fail fast (PROVIDER_UNAVAILABLE) until a cooldown has passed
+ * - a per-provider concurrency cap is shared by every analysis in the process,
+ *   so parallel clue experts across users cannot exhaust the quota
+ */
+
+import { createError } from '../middleware/errorHandler.js';
+import type { ModelProvider, ModelRequest } from './modelProvider.js';
+
+export interface ProviderPolicy {
+  maxConcurrency: number;  // calls in flight at once, across all analyses
+  maxAttempts: number;  // including the first try
+  baseDelayMs: number;  // backoff before the first retry (doubles per retry)
+  maxDelayMs: number;
+  failureThreshold: number;  // consecutive transient failures that open the breaker
+  cooldownMs: number;  // how long an open breaker rejects calls before a trial call
+}
+
+export interface RetryInfo {
+  service: string;
+  operation: string;
+  attempt: number;  // the attempt about to be made (1 = first retry)
+  delayMs: number;
+  error: string;
+}
+
+const DEFAULT_POLICY: ProviderPolicy = {
+  maxConcurrency: 8,
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  failureThreshold: 8,
+  cooldownMs: 60000
+};
+
+const POLICIES: Record<string, Partial<ProviderPolicy>> = {
+  gemini: {},
+  cloud_vision: { maxConcurrency: 4, maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000, failureThreshold: 5, cooldownMs: 120000 },
+  serp_api: { maxConcurrency: 2, maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000, failureThreshold: 5, cooldownMs: 120000 }
+};
+
+// Read lazily - dotenv is loaded after module imports are evaluated.
+// GEMINI_MAX_CONCURRENCY, CLOUD_VISION_MAX_CONCURRENCY, SERP_API_MAX_CONCURRENCY
+const getPolicy = (service: string): ProviderPolicy => {
+  const policy = { ...DEFAULT_POLICY, ...POLICIES[service] };
+  const envLimit = parseInt(process.env[`${service.toUpperCase()}_MAX_CONCURRENCY`] || '');
+  if (envLimit > 0) policy.maxConcurrency = envLimit;
+  return policy;
+};
+
+// ============ ERROR CLASSIFICATION ============
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+// Deadlines and cancellation are final - retrying would outlive them
+const FINAL_CODES = ['ANALYSIS_CANCELLED', 'ANALYSIS_TIMEOUT', 'PHASE_TIMEOUT', 'PROVIDER_UNAVAILABLE'];
+
+/**
+ * Whether an error is worth retrying (rate limits, overload, dropped connections).
+ * Provider errors carry the upstream HTTP status as `status`.
+ */
+export function isTransientError(err: any): boolean {
+  if (!err || FINAL_CODES.includes(err.code)) return false;
+  if (typeof err.status === 'number') return TRANSIENT_STATUSES.includes(err.status);
+  if (TRANSIENT_NETWORK_CODES.includes(err.code) || TRANSIENT_NETWORK_CODES.includes(err.cause?.code)) return true;
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|fetch failed/i.test(err.message || '');
+}
+
+// ============ CONCURRENCY ============
+
+interface Limiter {
+  active: number;
+  waiting: Array<() => void>;
+}
+
+const limiters = new Map<string, Limiter>();
+
+// Wait for a free slot; a waiting call is dropped if its signal aborts
+const acquireSlot = (service: string, limit: number, signal?: AbortSignal): Promise<() => void> => {
+  const limiter = limiters.get(service) || { active: 0, waiting: [] };
+  limiters.set(service, limiter);
+
+  // Idempotent - a retry releases its slot before the backoff sleep
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    limiter.active--;
+    limiter.waiting.shift()?.();
+  };
+
+  if (limiter.active < limit) {
+    limiter.active++;
+    return Promise.resolve(release);
+  }
+
+  return new Promise((resolve, reject) => {
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      limiter.active++;
+      resolve(release);
+    };
+    const onAbort = () => {
+      limiter.waiting = limiter.waiting.filter(w => w !== grant);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    limiter.waiting.push(grant);
+  });
+};
+
+// ============ CIRCUIT BREAKER ============
+
+interface BreakerState {
+  consecutiveFailures: number;
+  openUntil: number;  // 0 while closed
+  trialInFlight: boolean;  // half-open: one call is testing the provider
+}
+
+const breakers = new Map<string, BreakerState>();
+
+const getBreaker = (service: string): BreakerState => {
+  const breaker = breakers.get(service) || { consecutiveFailures: 0, openUntil: 0, trialInFlight: false };
+  breakers.set(service, breaker);
+  return breaker;
+};
+
+/**
+ * Whether calls to a provider are currently being rejected
+ */
+export function isCircuitOpen(service: string): boolean {
+  const breaker = getBreaker(service);
+  return breaker.openUntil > Date.now() || (breaker.openUntil > 0 && breaker.trialInFlight);
+}
+
+const unavailableError = (service: string) =>
+  createError(`${service} is temporarily unavailable after repeated errors`, 503, 'PROVIDER_UNAVAILABLE');
+
+const recordSuccess = (service: string): void => {
+  const breaker = getBreaker(service);
+  if (breaker.openUntil > 0) {
+    console.log(`[Resilience] ${service} recovered - circuit closed`);
+  }
+  breaker.consecutiveFailures = 0;
+  breaker.openUntil = 0;
+  breaker.trialInFlight = false;
+};
+
+const recordFailure = (service: string, policy: ProviderPolicy): void => {
+  const breaker = getBreaker(service);
+  breaker.consecutiveFailures++;
+  breaker.trialInFlight = false;
+  if (breaker.openUntil > 0 || breaker.consecutiveFailures >= policy.failureThreshold) {
+    breaker.openUntil = Date.now() + policy.cooldownMs;
+    console.log(`[Resilience] ${service} circuit open for ${policy.cooldownMs / 1000}s after ${breaker.consecutiveFailures} failures`);
+  }
+};
+
+// ============ CALLS ============
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Call a provider through its breaker, concurrency cap and retry policy.
+ * fn receives the attempt number (0 for the first try).
+ */
+export async function callWithResilience<T>(
+  service: string,
+  operation: string,
+  signal: AbortSignal | undefined,
+  fn: (attempt: number) => Promise<T>,
+  onRetry?: (info: RetryInfo) => void
+): Promise<T> {
+  const policy = getPolicy(service);
+  const breaker = getBreaker(service);
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+
+    // Open: reject until the cooldown ends, then let one trial call through
+    const isTrial = breaker.openUntil > 0;
+    if (isTrial) {
+      if (breaker.openUntil > Date.now() || breaker.trialInFlight) {
+        throw unavailableError(service);
+      }
+      breaker.trialInFlight = true;
+    }
+
+    let release: () => void;
+    try {
+      release = await acquireSlot(service, policy.maxConcurrency, signal);
+    } catch (err) {
+      if (isTrial) breaker.trialInFlight = false;
+      throw err;
+    }
+
+    try {
+      const value = await fn(attempt);
+      recordSuccess(service);
+      return value;
+    } catch (err: any) {
+      if (!isTransientError(err)) {
+        // Deadlines and cancellation say nothing about the provider; any other
+        // answer (bad input, malformed output) shows the provider is up again
+        if (isTrial) {
+          if (FINAL_CODES.includes(err.code)) breaker.trialInFlight = false;
+          else recordSuccess(service);
+        }
+        throw err;
+      }
+      recordFailure(service, policy);
+      if (attempt + 1 >= policy.maxAttempts || breaker.openUntil > 0) {
+        throw err;
+      }
+
+      const delayMs = Math.round(Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt));
+      console.log(`[Resilience] ${service} ${operation} failed (${err.status || err.code || err.message}) - retry ${attempt + 1} in ${delayMs}ms`);
+      onRetry?.({ service, operation, attempt: attempt + 1, delayMs, error: err.message });
+      release();
+      await sleep(delayMs, signal);
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Wrap a model provider so every generate() call goes through the resilience
+ * layer under the provider's name
+ */
+export function withResilience(
+  provider: ModelProvider,
+  onRetry?: (info: RetryInfo) => void
+): ModelProvider {
+  return {
+    name: provider.name,
+    generate(request: ModelRequest) {
+      return callWithResilience(provider.name, request.phase, request.signal,
+        attempt => provider.generate({ ...request, attempt: (request.attempt || 0) + attempt }), onRetry);
+    }
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * Refinement Threads
+ * Every refinement of an analysis is stored as a numbered version together
+ * with the user message that produced it. Version 0 is the analysis result
+ * itself. New feedback always refines the active version and the model sees
+ * the dialogue that led to it; reverting makes an earlier version active
+ * again, and the next refinement branches from there.
+ *
+ * Each analysis gets a number of free refinements (refine_free_per_analysis);
+ * after that every refinement costs refine_cost credits, charged before the
+ * model call and refunded if the refinement fails. Its provider calls are
+ * stored as a usage row of kind "refinement" next to the analyses.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { query, queryOne, execute, transaction } from '../db/connection.js';
+import {
+  DbAnalysisJob,
+  DbUser,
+  DbRefinementThread,
+  DbRefinementTurn,
+  RefinementThreadItem,
+  RefinementVersion,
+  dbJobToDetail,
+  dbRefinementTurnToVersion
+} from '../db/models.js';
+import { createError } from '../middleware/errorHandler.js';
+import { refineImageLocation, GeoAnalysisResult, LocationHints, AnalysisOptions } from './geminiService.js';
+import { loadJobImages } from './analysisJobService.js';
+import { refreshGroundTruthEvaluation } from './groundTruth.js';
+import { AnalysisPayload, getCostSetting, chargeCredits, refundCredits } from './analysisPipeline.js';
+import { getModelProvider } from './modelProvider.js';
+import { createUsageMeter, meterModelProvider, saveAnalysisUsage, UsageStatus } from './usageMeter.js';
+import { getAnalysisTimeouts, createAnalysisSignal, withModelDeadlines, isCancellation } from './analysisDeadlines.js';
+import { withResilience } from './providerResilience.js';
+
+const MAX_FEEDBACK_LENGTH = 2000;
+
+// Analyses with a refinement in flight - one at a time, so the free allowance
+// and version numbers cannot be raced
+const refiningAnalyses = new Set<string>();
+
+// Version 0: the result the analysis job produced
+const originalVersion = (job: DbAnalysisJob): RefinementVersion => {
+  const payload: AnalysisPayload | null = dbJobToDetail(job).result;
+  if (job.status !== 'completed' || !payload?.result) {
+    throw createError('Only completed analyses can be refined', 409, 'ANALYSIS_NOT_COMPLETED');
+  }
+  return {
+    version: 0,
+    basedOnVersion: null,
+    feedback: null,
+    result: payload.result,
+    creditsCharged: 0,
+    createdAt: (job.finished_at || job.created_at).getTime()
+  };
+};
+
+/**
+ * The refinement thread of a completed analysis (just version 0 until the
+ * first refinement)
+ */
+export async function getRefinementThread(job: DbAnalysisJob): Promise<RefinementThreadItem> {
+  const original = originalVersion(job);
+  const thread = await queryOne<DbRefinementThread>(
+    'SELECT * FROM refinement_threads WHERE analysis_id = ?',
+    [job.id]
+  );
+  const turns = thread
+    ? await query<DbRefinementTurn[]>(
+        'SELECT * FROM refinement_turns WHERE analysis_id = ? ORDER BY version ASC',
+        [job.id]
+      )
+    : [];
+
+  const [freePerAnalysis, cost] = await Promise.all([
+    getCostSetting('refine_free_per_analysis', 3),
+    getCostSetting('refine_cost', 2)
+  ]);
+  const freeRefinesRemaining = Math.max(0, freePerAnalysis - turns.length);
+  // A thread pointing at a version that was never stored falls back to the original
+  const activeVersion = turns.some(turn => turn.version === thread?.active_version) ? thread!.active_version : 0;
+
+  return {
+    analysisId: job.id,
+    activeVersion,
+    versions: [original, ...turns.map(dbRefinementTurnToVersion)],
+    freeRefinesRemaining,
+    refineCost: freeRefinesRemaining > 0 ? 0 : cost
+  };
+}
+
+// Versions from the original up to (and including) the given one; an unknown
+// version yields just the original
+const branchTo = (thread: RefinementThreadItem, version: number): RefinementVersion[] => {
+  const byVersion = new Map(thread.versions.map(v => [v.version, v]));
+  const branch: RefinementVersion[] = [];
+  for (let current = byVersion.get(version) || byVersion.get(0); current; ) {
+    branch.unshift(current);
+    current = current.basedOnVersion === null ? undefined : byVersion.get(current.basedOnVersion);
+  }
+  return branch;
+};
+
+// Keep the history entry (same id as the job) and its ground-truth evaluation
+// in line with the active version
+const syncHistoryEntry = async (analysisId: string, result: GeoAnalysisResult): Promise<void> => {
+  await execute(
+    `UPDATE search_history SET location_name = ?, lat = ?, lng = ?, confidence_score = ?, reasoning = ?, visual_cues = ?, sources = ?
+     WHERE id = ?`,
+    [
+      result.locationName || null,
+      result.coordinates?.lat || null,
+      result.coordinates?.lng || null,
+      result.confidenceScore || null,
+      JSON.stringify(result.reasoning || []),
+      JSON.stringify(result.visualCues || null),
+      JSON.stringify(result.sources || []),
+      analysisId
+    ]
+  );
+  await refreshGroundTruthEvaluation(analysisId);
+};
+
+/**
+ * Refine the active version with new feedback and make the result the new
+ * active version. Images come from the stored analysis job. The model call
+ * runs with the same deadlines, retries and metering as an analysis;
+ * options.signal cancels it (and refunds the charge).
+ */
+export async function refineAnalysis(
+  job: DbAnalysisJob,
+  feedback: unknown,
+  hints: LocationHints | undefined,
+  options: AnalysisOptions = {}
+): Promise<{ thread: RefinementThreadItem; version: RefinementVersion; creditsRemaining: number }> {
+  if (typeof feedback !== 'string' || !feedback.trim()) {
+    throw createError('Feedback is required', 400, 'MISSING_DATA');
+  }
+  if (feedback.length > MAX_FEEDBACK_LENGTH) {
+    throw createError(`Feedback is limited to ${MAX_FEEDBACK_LENGTH} characters`, 400, 'FEEDBACK_TOO_LONG');
+  }
+
+  const images = loadJobImages(job.id);
+  if (!images) {
+    throw createError('Job images are no longer available', 404, 'JOB_IMAGES_MISSING');
+  }
+
+  const timeouts = await getAnalysisTimeouts();
+
+  if (refiningAnalyses.has(job.id)) {
+    throw createError('A refinement of this analysis is already running', 409, 'REFINE_IN_PROGRESS');
+  }
+  refiningAnalyses.add(job.id);
+
+  const { signal, dispose } = createAnalysisSignal(options.signal, timeouts.analysis);
+  const meter = createUsageMeter();
+  const provider = withModelDeadlines(
+    withResilience(meterModelProvider(getModelProvider(), meter)),
+    signal,
+    timeouts
+  );
+
+  let charged = 0;
+  let creditsKept = 0;
+  let usageStatus: UsageStatus = 'failed';
+  try {
+    const thread = await getRefinementThread(job);
+    if (thread.refineCost > 0) {
+      await chargeCredits(job.user_id, thread.refineCost);
+      charged = thread.refineCost;
+    }
+
+    const branch = branchTo(thread, thread.activeVersion);
+    const current = branch[branch.length - 1];
+    const earlierExchanges = branch.slice(1, -1).map(v => ({
+      feedback: v.feedback!,
+      locationName: v.result.locationName,
+      confidenceScore: v.result.confidenceScore
+    }));
+    // The exchange that produced the current version is part of the dialogue too
+    if (current.feedback !== null) {
+      earlierExchanges.push({
+        feedback: current.feedback,
+        locationName: current.result.locationName,
+        confidenceScore: current.result.confidenceScore
+      });
+    }
+
+    console.log(`[Refine] Analysis ${job.id}: refining v${current.version} (${earlierExchanges.length} earlier exchanges, ${charged} credits)`);
+    const result = await refineImageLocation(
+      images,
+      current.result,
+      feedback.trim(),
+      earlierExchanges,
+      branch[0].result.locationName,
+      hints,
+      { ...options, signal, provider }
+    );
+    signal.throwIfAborted();
+
+    // The thread only moves to the new version once its turn is stored
+    const version = Math.max(...thread.versions.map(v => v.version)) + 1;
+    await transaction(async connection => {
+      await connection.execute(
+        `INSERT INTO refinement_threads (analysis_id, user_id, active_version) VALUES (?, ?, 0)
+         ON DUPLICATE KEY UPDATE analysis_id = analysis_id`,
+        [job.id, job.user_id]
+      );
+      await connection.execute(
+        `INSERT INTO refinement_turns (id, analysis_id, version, based_on_version, feedback, result, credits_charged)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [uuidv4(), job.id, version, current.version, feedback.trim(), JSON.stringify(result), charged]
+      );
+      await connection.execute(
+        'UPDATE refinement_threads SET active_version = ? WHERE analysis_id = ?',
+        [version, job.id]
+      );
+    });
+    creditsKept = charged;
+    charged = 0;  // stored - no refund from here on
+    await syncHistoryEntry(job.id, result);
+
+    const updated = await getRefinementThread(job);
+    const user = await queryOne<DbUser>('SELECT credits FROM users WHERE id = ?', [job.user_id]);
+    usageStatus = 'completed';
+    return {
+      thread: updated,
+      version: updated.versions.find(v => v.version === version)!,
+      creditsRemaining: user?.credits || 0
+    };
+  } catch (error) {
+    if (isCancellation(error)) usageStatus = 'cancelled';
+    if (charged > 0) {
+      try {
+        await refundCredits(job.user_id, charged);
+      } catch (refundError) {
+        console.error('Failed to refund credits:', refundError);
+      }
+    }
+    throw error;
+  } finally {
+    dispose();
+    refiningAnalyses.delete(job.id);
+    if (meter.calls.length > 0) {
+      try {
+        await saveAnalysisUsage(meter, {
+          userId: job.user_id,
+          jobId: job.id,
+          mode: job.mode,
+          kind: 'refinement',
+          status: usageStatus,
+          creditsCharged: creditsKept
+        });
+      } catch (err) {
+        console.error('[Usage] Could not store refinement usage:', err);
+      }
+    }
+  }
+}
+
+/**
+ * Make an earlier version the active one again
+ */
+export async function revertRefinement(job: DbAnalysisJob, version: unknown): Promise<RefinementThreadItem> {
+  const thread = await getRefinementThread(job);
+  const target = thread.versions.find(v => v.version === version);
+  if (!target) {
+    throw createError('Refinement version not found', 404, 'VERSION_NOT_FOUND');
+  }
+
+  await execute(
+    `INSERT INTO refinement_threads (analysis_id, user_id, active_version) VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE active_version = VALUES(active_version)`,
+    [job.id, job.user_id, target.version]
+  );
+  await syncHistoryEntry(job.id, target.result);
+  console.log(`[Refine] Analysis ${job.id}: reverted to v${target.version}`);
+
+  return { ...thread, activeVersion: target.version };
+}
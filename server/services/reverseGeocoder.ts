@@ -0,0 +1,301 @@
+/**
+ * Offline Reverse Geocoder
+ * Resolves coordinates to country / admin1 / nearest city using bundled data
+ * (country-coder borders and the GeoNames cities in all-the-cities) and checks
+ * that the model's locationName agrees with the coordinates it returned.
+ */
+
+import * as countryCoder from '@rapideditor/country-coder';
+import type { City } from 'all-the-cities';
+
+export interface ReverseGeocode {
+  countryCode: string | null;  // ISO 3166-1 alpha-2, null when not inside any country
+  countryName: string | null;
+  territory: string | null;  // e.g. England, Puerto Rico - only when it differs from the country
+  admin1Code: string | null;  // GeoNames admin1 code of the nearest city (e.g. "CA" for California)
+  city: string | null;  // nearest city with at least 1000 inhabitants
+  cityDistanceKm: number | null;
+}
+
+export type ConsistencyIssueKind = 'offshore' | 'country' | 'city';
+
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind;
+  message: string;
+}
+
+export interface LocationConsistency {
+  geocode: ReverseGeocode;
+  issues: ConsistencyIssue[];  // empty when the name and coordinates agree (or can't be compared)
+}
+
+const NEAREST_CITY_MAX_RINGS = 3;  // grid cells (1° each) searched around the point
+const OFFSHORE_MIN_CITY_KM = 25;  // outside all borders and this far from any town = at sea
+const CITY_MISMATCH_KM = 75;  // named city this far from the coordinates = mismatch
+// A name with a single gazetteer entry is only trusted when that entry is a
+// major city - otherwise it is often an unindexed neighbourhood's homonym
+const SINGLE_MATCH_MIN_POPULATION = 100000;
+
+// Common names and abbreviations country-coder doesn't resolve - two-letter
+// ones must be listed here, as resolveCountryName drops other short parts (keys are normalized)
+const COUNTRY_ALIASES: Record<string, string> = {
+  'united states': 'US',
+  'united states of america': 'US',
+  'america': 'US',
+  'us': 'US',
+  'u.s.': 'US',
+  'usa': 'US',
+  'u.s.a.': 'US',
+  'czech republic': 'CZ',
+  'ivory coast': 'CI',
+  'turkiye': 'TR',
+  'holland': 'NL',
+  'uae': 'AE',
+  'britain': 'GB',
+  'uk': 'GB',
+  'u.k.': 'GB',
+  'dr congo': 'CD',
+  'drc': 'CD',
+  'republic of the congo': 'CG',
+  'macedonia': 'MK',
+  'bosnia': 'BA',
+  'korea': 'KR'
+};
+
+// US states and Canadian provinces/territories - "Atlanta, Georgia" names the
+// state, not the country (keys are normalized)
+const SUBNATIONAL_REGIONS: Record<string, string> = Object.fromEntries([
+  ...[
+    'alabama', 'alaska', 'arizona', 'arkansas', 'california', 'colorado', 'connecticut', 'delaware',
+    'district of columbia', 'florida', 'georgia', 'hawaii', 'idaho', 'illinois', 'indiana', 'iowa',
+    'kansas', 'kentucky', 'louisiana', 'maine', 'maryland', 'massachusetts', 'michigan', 'minnesota',
+    'mississippi', 'missouri', 'montana', 'nebraska', 'nevada', 'new hampshire', 'new jersey',
+    'new mexico', 'new york', 'north carolina', 'north dakota', 'ohio', 'oklahoma', 'oregon',
+    'pennsylvania', 'rhode island', 'south carolina', 'south dakota', 'tennessee', 'texas', 'utah',
+    'vermont', 'virginia', 'washington', 'washington dc', 'west virginia', 'wisconsin', 'wyoming'
+  ].map(name => [name, 'US']),
+  ...[
+    'alberta', 'british columbia', 'manitoba', 'new brunswick', 'newfoundland and labrador',
+    'newfoundland', 'northwest territories', 'nova scotia', 'nunavut', 'ontario',
+    'prince edward island', 'quebec', 'saskatchewan', 'yukon'
+  ].map(name => [name, 'CA'])
+]);
+
+const normalizeName = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function haversineKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// ============ CITY INDEX ============
+
+interface CityIndex {
+  grid: Map<string, City[]>;  // 1° cells
+  byName: Map<string, City[]>;
+}
+
+let cityIndexPromise: Promise<CityIndex> | null = null;
+
+const cellKey = (latCell: number, lngCell: number): string =>
+  `${latCell}:${((lngCell + 180) % 360 + 360) % 360 - 180}`;
+
+const cityCoordinates = (city: City) => ({ lat: city.loc.coordinates[1], lng: city.loc.coordinates[0] });
+
+// The city list is large - load it on first use rather than at server start
+const loadCityIndex = (): Promise<CityIndex> => {
+  if (!cityIndexPromise) {
+    cityIndexPromise = import('all-the-cities').then(({ default: cities }) => {
+      const grid = new Map<string, City[]>();
+      const byName = new Map<string, City[]>();
+      for (const city of cities) {
+        const { lat, lng } = cityCoordinates(city);
+        const key = cellKey(Math.floor(lat), Math.floor(lng));
+        if (!grid.has(key)) grid.set(key, []);
+        grid.get(key)!.push(city);
+
+        const name = normalizeName(city.name);
+        if (!byName.has(name)) byName.set(name, []);
+        byName.get(name)!.push(city);
+      }
+      console.log(`[Geocoder] Indexed ${cities.length} cities`);
+      return { grid, byName };
+    });
+  }
+  return cityIndexPromise;
+};
+
+const findNearestCity = (
+  index: CityIndex,
+  point: { lat: number; lng: number }
+): { city: City; distanceKm: number } | null => {
+  const latCell = Math.floor(point.lat);
+  const lngCell = Math.floor(point.lng);
+  let nearest: City | null = null;
+  let nearestKm = Infinity;
+
+  for (let ring = 0; ring <= NEAREST_CITY_MAX_RINGS; ring++) {
+    for (let dLat = -ring; dLat <= ring; dLat++) {
+      for (let dLng = -ring; dLng <= ring; dLng++) {
+        if (Math.max(Math.abs(dLat), Math.abs(dLng)) !== ring) continue;  // only the ring's border
+        for (const city of index.grid.get(cellKey(latCell + dLat, lngCell + dLng)) || []) {
+          const distanceKm = haversineKm(point, cityCoordinates(city));
+          if (distanceKm < nearestKm) {
+            nearest = city;
+            nearestKm = distanceKm;
+          }
+        }
+      }
+    }
+    // Anything in a further ring is at least `ring` degrees of latitude away
+    if (nearestKm < ring * 111) break;
+  }
+
+  return nearest ? { city: nearest, distanceKm: nearestKm } : null;
+};
+
+// ============ COUNTRIES ============
+
+type CountryFeature = NonNullable<ReturnType<typeof countryCoder.feature>>;
+
+// The sovereign country a feature belongs to (HK -> CN, Q21 England -> GB)
+const sovereignCode = (feature: CountryFeature): string =>
+  feature.properties.country || feature.properties.iso1A2 || feature.properties.id;
+
+// Resolve one part of a location name ("Japan", "USA", "Scotland") to a country feature
+const resolveCountryName = (part: string): CountryFeature | null => {
+  const normalized = normalizeName(part);
+  const alias = COUNTRY_ALIASES[normalized];
+  if (alias) return countryCoder.feature(alias);
+
+  // Two-letter parts are usually state codes ("Los Angeles, CA" is not Canada)
+  if (normalized.length < 3 || /\d/.test(normalized)) return null;
+
+  const feature = countryCoder.feature(part.trim());
+  if (!feature) return null;
+  const { level, country } = feature.properties;
+  return country || level === 'country' || level === 'territory' ? feature : null;
+};
+
+/**
+ * ISO code of the country or territory a place name refers to
+ * ("Japan" -> JP, "USA" -> US, "Scotland" -> GB), null if it isn't one
+ */
+export function countryCodeForName(name: string): string | null {
+  const feature = resolveCountryName(name);
+  return feature ? feature.properties.iso1A2 || sovereignCode(feature) : null;
+}
+
+/**
+ * Country, admin1 and nearest city for a coordinate
+ */
+export async function reverseGeocode(lat: number, lng: number): Promise<ReverseGeocode> {
+  const country = countryCoder.feature([lng, lat], { level: 'country' });
+  const territory = countryCoder.feature([lng, lat], { level: 'territory' });
+  const nearest = findNearestCity(await loadCityIndex(), { lat, lng });
+
+  return {
+    countryCode: country?.properties.iso1A2 || null,
+    countryName: country?.properties.nameEn || null,
+    territory: territory && territory.properties.id !== country?.properties.id ? territory.properties.nameEn : null,
+    admin1Code: nearest?.city.adminCode || null,
+    city: nearest?.city.name || null,
+    cityDistanceKm: nearest ? Math.round(nearest.distanceKm * 10) / 10 : null
+  };
+}
+
+/**
+ * Reverse-geocode the coordinates and compare them with the location name:
+ * coordinates at sea, in a different country than the one named, or far
+ * from every city of the given name are reported as issues
+ */
+export async function checkLocationConsistency(
+  locationName: string,
+  coordinates: { lat: number; lng: number }
+): Promise<LocationConsistency> {
+  const geocode = await reverseGeocode(coordinates.lat, coordinates.lng);
+  const issues: ConsistencyIssue[] = [];
+  const where = `${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)}`;
+
+  if (!geocode.countryCode && (geocode.cityDistanceKm === null || geocode.cityDistanceKm > OFFSHORE_MIN_CITY_KM)) {
+    issues.push({
+      kind: 'offshore',
+      message: `Coordinates (${where}) are not on land` +
+        (geocode.city ? ` - nearest town ${geocode.city} is ${Math.round(geocode.cityDistanceKm!)} km away` : '')
+    });
+  }
+
+  // "Shibuya, Tokyo, Japan" - the country is usually the last part, so resolve from the right
+  const parts = locationName
+    .replace(/\([^)]*\)/g, '')
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean);
+
+  const actualCountry = countryCoder.feature([coordinates.lng, coordinates.lat], { level: 'country' });
+  const sameCountry = (feature: CountryFeature | null) =>
+    !!feature && !!actualCountry && sovereignCode(feature) === sovereignCode(actualCountry);
+
+  let namedCountry: CountryFeature | null = null;
+  let countryPartIndex = -1;
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const asCountry = resolveCountryName(parts[i]);
+    // After a city, a state or province name stands for its country ("Atlanta, Georgia");
+    // when it is also a country name ("Tbilisi, Georgia"), the coordinates decide
+    const regionCode = i > 0 ? SUBNATIONAL_REGIONS[normalizeName(parts[i])] : undefined;
+    const asRegion = regionCode ? countryCoder.feature(regionCode) : null;
+    namedCountry = [asRegion, asCountry].find(sameCountry) || asCountry || asRegion;
+    if (namedCountry) {
+      countryPartIndex = i;
+      break;
+    }
+  }
+
+  if (namedCountry && actualCountry && sovereignCode(namedCountry) !== sovereignCode(actualCountry)) {
+    issues.push({
+      kind: 'country',
+      message: `"${locationName}" names ${namedCountry.properties.nameEn}, but the coordinates (${where}) are in ${actualCountry.properties.nameEn}`
+    });
+  }
+
+  // Only names the gazetteer fully knows can be checked; the nearest same-named
+  // city decides. A part it doesn't know ("Midtown, New York City") means the
+  // name mixes in districts or landmarks, and a hit on the other part may be
+  // an unrelated namesake - such names are not checked.
+  const index = await loadCityIndex();
+  const allowedCountries = namedCountry
+    ? new Set([namedCountry.properties.iso1A2, sovereignCode(namedCountry)])
+    : null;
+  const placeParts = parts.slice(0, countryPartIndex === -1 ? parts.length : countryPartIndex);
+  const placeMatches = placeParts.map(part => (index.byName.get(normalizeName(part)) || [])
+    .filter(city => !allowedCountries || allowedCountries.has(city.country)));
+  const checkedPlaces: Array<{ name: string; distanceKm: number }> = [];
+  placeParts.forEach((part, i) => {
+    const matches = placeMatches[i];
+    if (matches.length === 0) return;
+    // One small namesake is too weak to call the coordinates wrong
+    if (matches.length === 1 && matches[0].population < SINGLE_MATCH_MIN_POPULATION) return;
+
+    const distanceKm = Math.min(...matches.map(city => haversineKm(coordinates, cityCoordinates(city))));
+    checkedPlaces.push({ name: part, distanceKm });
+  });
+
+  const allPartsKnown = placeMatches.every(matches => matches.length > 0);
+  if (allPartsKnown && checkedPlaces.length > 0 && checkedPlaces.every(place => place.distanceKm > CITY_MISMATCH_KM)) {
+    const place = checkedPlaces[0];
+    issues.push({
+      kind: 'city',
+      message: `The coordinates (${where}) are ${Math.round(place.distanceKm)} km from the nearest place named ${place.name}`
+    });
+  }
+
+  return { geocode, issues };
+}
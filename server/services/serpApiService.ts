@@ -170,7 +170,8 @@ function extractLocationHints(matches: SerpApiVisualMatch[]): string[] {
  */
 export async function performGoogleLensSearch(
   imageUrl: string,
-  apiKey?: string
+  apiKey?: string,
+  signal?: AbortSignal
 ): Promise<SerpApiResult> {
   const key = apiKey || process.env.SERPAPI_KEY;
 
@@ -186,12 +187,13 @@ export async function performGoogleLensSearch(
     api_key: key
   });
 
-  const response = await fetch(`${SERPAPI_URL}?${params.toString()}`);
+  const response = await fetch(`${SERPAPI_URL}?${params.toString()}`, { signal });
 
   if (!response.ok) {
     const error = await response.text();
     console.error('[SerpAPI] Error:', error);
-    throw new Error(`SerpAPI error: ${response.status}`);
+    // status lets the resilience layer retry rate limits and outages
+    throw Object.assign(new Error(`SerpAPI error: ${response.status}`), { status: response.status });
   }
 
   const data = await response.json();
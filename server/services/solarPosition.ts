@@ -0,0 +1,223 @@
+/**
+ * Solar Position
+ * Local sun azimuth/elevation calculation (NOAA solar calculator equations)
+ * used to check a candidate location against the shadows visible in the
+ * photo and the EXIF capture time.
+ */
+
+import { ExifCaptureTime } from './exifService.js';
+
+export type CompassPoint =
+  | 'N' | 'NNE' | 'NE' | 'ENE' | 'E' | 'ESE' | 'SE' | 'SSE'
+  | 'S' | 'SSW' | 'SW' | 'WSW' | 'W' | 'WNW' | 'NW' | 'NNW';
+
+export const COMPASS_POINTS: CompassPoint[] = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'
+];
+
+// Shadow observations made by the built-environment expert
+export interface ShadowEstimate {
+  visible: boolean;
+  lengthRatio: number | null;  // shadow length ÷ height of the object casting it
+  direction: CompassPoint | null;  // where shadows point, only when the scene orientation is known
+  reasoning?: string;
+}
+
+export interface SunPosition {
+  azimuth: number;  // degrees clockwise from north
+  elevation: number;  // degrees above the horizon (refraction ignored)
+}
+
+export interface SolarCheck {
+  status: 'pass' | 'fail';
+  captureTime: string;  // ISO instant used for the calculation
+  timeSource: ExifCaptureTime['source'];
+  sun: SunPosition;
+  observedElevation: number | null;  // from the shadow length ratio
+  observedShadowAzimuth: number | null;
+  latitudeBand: { south: number; north: number } | null;  // latitudes matching the observed elevation
+  details: string[];
+}
+
+const HORIZON_ELEVATION = -0.833;  // sun disc fully below the horizon
+const ELEVATION_TOLERANCE = 10;  // degrees, exact capture time
+const DIRECTION_TOLERANCE = 45;  // degrees, one compass octant either way
+// Extra degrees when the time zone was guessed from longitude: real zones and
+// daylight saving put clocks up to ~2 hours off the nominal zone
+const ESTIMATED_TIME_SLACK = 20;
+const LATITUDE_STEP = 0.5;
+
+const rad = (deg: number) => deg * Math.PI / 180;
+const deg = (r: number) => r * 180 / Math.PI;
+const normalizeDegrees = (value: number) => ((value % 360) + 360) % 360;
+
+const angularDifference = (a: number, b: number): number => {
+  const diff = Math.abs(normalizeDegrees(a) - normalizeDegrees(b));
+  return diff > 180 ? 360 - diff : diff;
+};
+
+/**
+ * Sun azimuth and elevation at a coordinate and instant
+ */
+export function getSunPosition(lat: number, lng: number, date: Date): SunPosition {
+  const julianDay = date.getTime() / 86400000 + 2440587.5;
+  const t = (julianDay - 2451545) / 36525;  // Julian centuries since J2000
+
+  const meanLongitude = normalizeDegrees(280.46646 + t * (36000.76983 + t * 0.0003032));
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+
+  const center = Math.sin(rad(meanAnomaly)) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(rad(2 * meanAnomaly)) * (0.019993 - 0.000101 * t) +
+    Math.sin(rad(3 * meanAnomaly)) * 0.000289;
+  const omega = 125.04 - 1934.136 * t;
+  const apparentLongitude = meanLongitude + center - 0.00569 - 0.00478 * Math.sin(rad(omega));
+
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = meanObliquity + 0.00256 * Math.cos(rad(omega));
+  const declination = Math.asin(Math.sin(rad(obliquity)) * Math.sin(rad(apparentLongitude)));
+
+  // Equation of time, in minutes
+  const y = Math.tan(rad(obliquity / 2)) ** 2;
+  const equationOfTime = 4 * deg(
+    y * Math.sin(2 * rad(meanLongitude)) -
+    2 * eccentricity * Math.sin(rad(meanAnomaly)) +
+    4 * eccentricity * y * Math.sin(rad(meanAnomaly)) * Math.cos(2 * rad(meanLongitude)) -
+    0.5 * y * y * Math.sin(4 * rad(meanLongitude)) -
+    1.25 * eccentricity * eccentricity * Math.sin(2 * rad(meanAnomaly))
+  );
+
+  const utcMinutes = date.getUTCHours() * 60 + date.getUTCMinutes() + date.getUTCSeconds() / 60;
+  const trueSolarTime = (((utcMinutes + equationOfTime + 4 * lng) % 1440) + 1440) % 1440;  // minutes
+  let hourAngle = trueSolarTime / 4 - 180;
+  if (hourAngle < -180) hourAngle += 360;
+
+  const latRad = rad(lat);
+  const cosZenith = Math.sin(latRad) * Math.sin(declination) +
+    Math.cos(latRad) * Math.cos(declination) * Math.cos(rad(hourAngle));
+  const zenith = Math.acos(Math.min(1, Math.max(-1, cosZenith)));
+
+  const azimuth = normalizeDegrees(deg(Math.atan2(
+    Math.sin(rad(hourAngle)),
+    Math.cos(rad(hourAngle)) * Math.sin(latRad) - Math.tan(declination) * Math.cos(latRad)
+  )) + 180);
+
+  return { azimuth, elevation: 90 - deg(zenith) };
+}
+
+/**
+ * The instant a photo was taken. Camera clocks without a recorded UTC offset
+ * are assumed to be on the nominal time zone of the candidate longitude.
+ */
+export function resolveCaptureInstant(captureTime: ExifCaptureTime, lng: number): Date {
+  if (captureTime.utc) return new Date(captureTime.utc);
+  const asUtc = new Date(`${captureTime.localTime}Z`);
+  return new Date(asUtc.getTime() - Math.round(lng / 15) * 3600000);
+}
+
+/**
+ * Latitudes (along the candidate's meridian) where the sun stood at the
+ * observed elevation, as the contiguous band closest to the candidate
+ */
+function findLatitudeBand(
+  lat: number,
+  lng: number,
+  date: Date,
+  observedElevation: number,
+  tolerance: number
+): { south: number; north: number } | null {
+  const bands: Array<{ south: number; north: number }> = [];
+  let current: { south: number; north: number } | null = null;
+
+  for (let candidateLat = -90; candidateLat <= 90; candidateLat += LATITUDE_STEP) {
+    const { elevation } = getSunPosition(candidateLat, lng, date);
+    if (Math.abs(elevation - observedElevation) <= tolerance) {
+      current = { south: current ? current.south : candidateLat, north: candidateLat };
+    } else if (current) {
+      bands.push(current);
+      current = null;
+    }
+  }
+  if (current) bands.push(current);
+  if (bands.length === 0) return null;
+
+  const distanceTo = (band: { south: number; north: number }) =>
+    lat < band.south ? band.south - lat : lat > band.north ? lat - band.north : 0;
+  return bands.reduce((best, band) => distanceTo(band) < distanceTo(best) ? band : best);
+}
+
+/**
+ * Compare the sun position at a candidate coordinate and capture time with
+ * the observed shadows. Returns null when there is nothing to compare.
+ */
+export function checkSolarConsistency(
+  coordinates: { lat: number; lng: number },
+  captureTime: ExifCaptureTime,
+  shadows: ShadowEstimate
+): SolarCheck | null {
+  if (!shadows.visible) return null;
+
+  const { lat, lng } = coordinates;
+  const date = resolveCaptureInstant(captureTime, lng);
+  const sun = getSunPosition(lat, lng, date);
+  const slack = captureTime.source === 'local' ? ESTIMATED_TIME_SLACK : 0;
+
+  const observedElevation = shadows.lengthRatio && shadows.lengthRatio > 0
+    ? deg(Math.atan(1 / shadows.lengthRatio))
+    : null;
+  const observedShadowAzimuth = shadows.direction
+    ? COMPASS_POINTS.indexOf(shadows.direction) * 22.5
+    : null;
+
+  const details: string[] = [];
+  let failed = false;
+  let compared = false;
+
+  if (sun.elevation < HORIZON_ELEVATION - slack) {
+    // Sharp daylight shadows with the sun below the horizon can't be right
+    details.push(`Sun was ${Math.abs(sun.elevation).toFixed(0)}° below the horizon, but daylight shadows are visible`);
+    failed = true;
+    compared = true;
+  } else {
+    if (observedElevation !== null) {
+      const tolerance = ELEVATION_TOLERANCE + slack;
+      const diff = Math.abs(sun.elevation - observedElevation);
+      compared = true;
+      if (diff > tolerance) failed = true;
+      details.push(`Shadow length implies sun elevation ≈${observedElevation.toFixed(0)}°, expected ${sun.elevation.toFixed(0)}° (${diff > tolerance ? 'mismatch' : 'consistent'})`);
+    }
+
+    // The azimuth swings ~15° an hour, so a guessed zone can't support a direction check
+    if (observedShadowAzimuth !== null && captureTime.source !== 'local') {
+      const expectedShadowAzimuth = normalizeDegrees(sun.azimuth + 180);
+      const diff = angularDifference(expectedShadowAzimuth, observedShadowAzimuth);
+      const tolerance = DIRECTION_TOLERANCE;
+      compared = true;
+      if (diff > tolerance) failed = true;
+      details.push(`Shadows point ${shadows.direction}, expected ≈${expectedShadowAzimuth.toFixed(0)}° (${diff > tolerance ? 'mismatch' : 'consistent'})`);
+    }
+  }
+
+  if (!compared) return null;
+
+  if (captureTime.source === 'local') {
+    details.push('Capture time has no time zone - assumed the nominal zone for this longitude, so shadow direction was not compared');
+  }
+
+  return {
+    status: failed ? 'fail' : 'pass',
+    captureTime: date.toISOString(),
+    timeSource: captureTime.source,
+    sun: {
+      azimuth: Math.round(sun.azimuth * 10) / 10,
+      elevation: Math.round(sun.elevation * 10) / 10
+    },
+    observedElevation: observedElevation !== null ? Math.round(observedElevation * 10) / 10 : null,
+    observedShadowAzimuth,
+    latitudeBand: observedElevation !== null
+      ? findLatitudeBand(lat, lng, date, observedElevation, ELEVATION_TOLERANCE + slack)
+      : null,
+    details
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Text Pattern Extractor
+ * Deterministic parsing of the text transcribed by the clue experts: phone
+ * numbers (international calling codes and distinctive national formats),
+ * postal codes, web domains, currency symbols and street-address words. Each
+ * match names the countries it is consistent with.
+ */
+
+import * as countryCoder from '@rapideditor/country-coder';
+
+export type TextPatternKind = 'phone' | 'postcode' | 'domain' | 'currency' | 'address';
+
+export interface TextPatternMatch {
+  kind: TextPatternKind;
+  match: string;  // the matched substring
+  description: string;  // e.g. "+33 calling code"
+  countries: string[];  // ISO 3166-1 alpha-2
+  weak?: boolean;  // loose pattern that ordinary text can match by chance
+}
+
+export interface TextCountryCandidate {
+  countryCode: string;
+  countryName: string;
+  confidence: number;  // 0-95
+  matches: string[];  // matched substrings supporting this country
+}
+
+export interface TextPatternResult {
+  matches: TextPatternMatch[];
+  countries: TextCountryCandidate[];  // most likely first
+}
+
+interface PatternRule {
+  kind: TextPatternKind;
+  pattern: RegExp;  // must be global
+  validate?: (match: string) => boolean;  // extra check on a regex match
+  description: string;
+  countries: string[];
+  weak?: boolean;
+}
+
+const MAX_CONFIDENCE = 95;
+
+const EUROZONE = ['AT', 'BE', 'HR', 'CY', 'EE', 'FI', 'FR', 'DE', 'GR', 'IE', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PT', 'SK', 'SI', 'ES', 'AD', 'MC', 'SM', 'VA', 'ME', 'XK'];
+const SPANISH_SPEAKING = ['ES', 'MX', 'AR', 'CO', 'CL', 'PE', 'VE', 'EC', 'GT', 'CU', 'BO', 'DO', 'HN', 'PY', 'SV', 'NI', 'CR', 'PA', 'UY', 'PR'];
+const US_STATES = 'AL|AK|AZ|AR|CA|CO|CT|DE|FL|GA|HI|ID|IL|IN|IA|KS|KY|LA|ME|MD|MA|MI|MN|MS|MO|MT|NE|NV|NH|NJ|NM|NY|NC|ND|OH|OK|OR|PA|RI|SC|SD|TN|TX|UT|VT|VA|WA|WV|WI|WY|DC';
+
+// Country-code TLDs used mostly as vanity domains (.io, .tv, ...) say little about location
+const VANITY_TLDS = new Set(['io', 'co', 'tv', 'me', 'ai', 'fm', 'ly', 'to', 'ws', 'cc', 'nu', 'sh', 'ac', 'gg', 'la', 'am', 'so', 'vc', 'ag', 'gl', 'ms', 'md', 'tk', 'ml', 'ga', 'cf', 'gq', 'cx', 'im']);
+
+const RULES: PatternRule[] = [
+  // National phone formats
+  { kind: 'phone', pattern: /\b0[1-9](?:[ .]\d{2}){4}\b/g, description: 'French phone number format', countries: ['FR'] },
+  { kind: 'phone', pattern: /\(\d{3}\)\s?\d{3}-\d{4}\b/g, description: 'North American phone number format', countries: ['US', 'CA'] },
+  { kind: 'phone', pattern: /\(\d{2}\)\s?9?\d{4}-\d{4}\b/g, description: 'Brazilian phone number format', countries: ['BR'] },
+  {
+    kind: 'phone',
+    pattern: /\b0\d{1,4}-\d{1,4}-\d{4}\b/g,
+    validate: match => /^\d{10,11}$/.test(match.replace(/-/g, '')),  // not a DD-MM-YYYY date
+    description: 'Japanese phone number format',
+    countries: ['JP']
+  },
+  { kind: 'phone', pattern: /\b07\d{3}\s?\d{6}\b/g, description: 'UK mobile number format', countries: ['GB'] },
+  { kind: 'phone', pattern: /\b04\d{2}\s\d{3}\s\d{3}\b/g, description: 'Australian mobile number format', countries: ['AU'] },
+
+  // Postal codes
+  { kind: 'postcode', pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s\d[A-Z]{2}\b/g, description: 'UK postcode', countries: ['GB'] },
+  { kind: 'postcode', pattern: /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z]\s?\d[ABCEGHJ-NPRSTV-Z]\d\b/g, description: 'Canadian postal code', countries: ['CA'] },
+  { kind: 'postcode', pattern: /\b[1-9]\d{3}\s?(?!SA|SD|SS)[A-Z]{2}(?=\s+\p{Lu})/gu, description: 'Dutch postcode', countries: ['NL'], weak: true },
+  { kind: 'postcode', pattern: /\b\d{2}-\d{3}(?=\s+\p{Lu})/gu, description: 'Polish postal code', countries: ['PL'], weak: true },
+  { kind: 'postcode', pattern: /\b\d{4}-\d{3}(?=\s+\p{Lu})/gu, description: 'Portuguese postal code', countries: ['PT'], weak: true },
+  { kind: 'postcode', pattern: /\b\d{5}-\d{3}\b/g, description: 'Brazilian CEP', countries: ['BR'] },
+  { kind: 'postcode', pattern: /\b\d{5}-\d{4}\b/g, description: 'US ZIP+4 code', countries: ['US'] },
+  { kind: 'postcode', pattern: new RegExp(`\\b(?:${US_STATES})\\s\\d{5}\\b`, 'g'), description: 'US state and ZIP code', countries: ['US'] },
+  { kind: 'postcode', pattern: /〒\s?\d{3}-\d{4}/g, description: 'Japanese postal code', countries: ['JP'] },
+  { kind: 'postcode', pattern: /\b[AC-FHKNPRTV-Y]\d{2}\s[AC-FHKNPRTV-Y0-9]{4}\b/g, description: 'Irish Eircode', countries: ['IE'] },
+  { kind: 'postcode', pattern: /\b\d{3}\s\d{2}(?=\s+\p{Lu})/gu, description: 'NNN NN postal code', countries: ['SE', 'CZ', 'SK', 'GR'], weak: true },
+  { kind: 'postcode', pattern: /\bLV-\d{4}\b/g, description: 'Latvian postal code', countries: ['LV'] },
+  { kind: 'postcode', pattern: /\bLT-\d{5}\b/g, description: 'Lithuanian postal code', countries: ['LT'] },
+  { kind: 'postcode', pattern: /\b[A-HJ-NP-Z]\d{4}[A-Z]{3}\b/g, description: 'Argentine postal code', countries: ['AR'] },
+  { kind: 'postcode', pattern: /\bD-\d{5}\b/g, description: 'German postal code with country prefix', countries: ['DE'] },
+  { kind: 'postcode', pattern: /\bA-\d{4}\b/g, description: 'Austrian postal code with country prefix', countries: ['AT'] },
+  { kind: 'postcode', pattern: /\bCH-\d{4}\b/g, description: 'Swiss postal code with country prefix', countries: ['CH'] },
+
+  // Currency
+  { kind: 'currency', pattern: /€|\bEUR\b/g, description: 'Euro', countries: EUROZONE },
+  { kind: 'currency', pattern: /£|\bGBP\b/g, description: 'Pound sterling', countries: ['GB', 'IM', 'JE', 'GG'] },
+  { kind: 'currency', pattern: /¥/g, description: 'Yen/yuan sign', countries: ['JP', 'CN'] },
+  { kind: 'currency', pattern: /\d[\d,.]*\s?円/g, description: 'Japanese yen', countries: ['JP'] },
+  { kind: 'currency', pattern: /₹|\bRs\.?\s?\d/g, description: 'Rupee', countries: ['IN', 'PK', 'LK', 'NP'] },
+  { kind: 'currency', pattern: /₩|\d[\d,.]*\s?원/g, description: 'Korean won', countries: ['KR'] },
+  { kind: 'currency', pattern: /₽|\bруб\./g, description: 'Russian ruble', countries: ['RU'] },
+  { kind: 'currency', pattern: /₺|\d[\d,.]*\s?TL\b|\bTL\s?\d[\d,.]*/g, description: 'Turkish lira', countries: ['TR'], weak: true },
+  { kind: 'currency', pattern: /₴|\bгрн\b/g, description: 'Ukrainian hryvnia', countries: ['UA'] },
+  { kind: 'currency', pattern: /\bzł\b|\bPLN\b/g, description: 'Polish złoty', countries: ['PL'] },
+  { kind: 'currency', pattern: /\bKč\b|\bCZK\b/g, description: 'Czech koruna', countries: ['CZ'] },
+  { kind: 'currency', pattern: /\d[\d,.]*\s?Ft\b|\bHUF\b/g, description: 'Hungarian forint', countries: ['HU'] },
+  { kind: 'currency', pattern: /R\$/g, description: 'Brazilian real', countries: ['BR'] },
+  { kind: 'currency', pattern: /₱/g, description: 'Philippine peso', countries: ['PH'] },
+  { kind: 'currency', pattern: /฿/g, description: 'Thai baht', countries: ['TH'] },
+  { kind: 'currency', pattern: /₫/g, description: 'Vietnamese đồng', countries: ['VN'] },
+  { kind: 'currency', pattern: /₦/g, description: 'Nigerian naira', countries: ['NG'] },
+  { kind: 'currency', pattern: /₪/g, description: 'Israeli shekel', countries: ['IL', 'PS'] },
+  { kind: 'currency', pattern: /\d[\d,.]*\s?kr\b|\bkr\.?\s?\d/g, description: 'Krona/krone', countries: ['SE', 'NO', 'DK', 'IS'] },
+  { kind: 'currency', pattern: /\bCHF\b|\bFr\.\s?\d/g, description: 'Swiss franc', countries: ['CH', 'LI'] },
+  { kind: 'currency', pattern: /\d[\d,.]*\s?lei\b|\bRON\b/g, description: 'Romanian leu', countries: ['RO'] },
+  { kind: 'currency', pattern: /\d[\d,.]*\s?лв\.?/g, description: 'Bulgarian lev', countries: ['BG'] },
+  { kind: 'currency', pattern: /\bRM\s?\d/g, description: 'Malaysian ringgit', countries: ['MY'] },
+  { kind: 'currency', pattern: /\bRp\.?\s?\d/g, description: 'Indonesian rupiah', countries: ['ID'] },
+  { kind: 'currency', pattern: /\bS\$/g, description: 'Singapore dollar', countries: ['SG'] },
+  { kind: 'currency', pattern: /\bHK\$/g, description: 'Hong Kong dollar', countries: ['HK'] },
+  { kind: 'currency', pattern: /\bA\$|\bAUD\b/g, description: 'Australian dollar', countries: ['AU'] },
+  { kind: 'currency', pattern: /\bNZ\$|\bNZD\b/g, description: 'New Zealand dollar', countries: ['NZ'] },
+  { kind: 'currency', pattern: /\bC\$|\bCAD\b/g, description: 'Canadian dollar', countries: ['CA'] },
+
+  // Street-address words
+  { kind: 'address', pattern: /\b(?:rue|impasse|allée|chemin)\s[^,;\d\n]{1,40}/giu, description: 'French street name', countries: ['FR', 'BE', 'CH', 'LU', 'MC'] },
+  { kind: 'address', pattern: /\p{L}*(?:straße|strasse)(?!\p{L})|\b\p{L}+str\.\s/giu, description: 'German street name', countries: ['DE', 'AT', 'CH'] },
+  { kind: 'address', pattern: /\b(?:calle|avda\.|carrera)\s[^,;\d\n]{1,40}/giu, description: 'Spanish street name', countries: SPANISH_SPEAKING },
+  { kind: 'address', pattern: /\b(?:rua|travessa)\s[^,;\d\n]{1,40}/giu, description: 'Portuguese street name', countries: ['PT', 'BR'] },
+  { kind: 'address', pattern: /\b(?:viale|piazza|corso|vicolo)\s[^,;\d\n]{1,40}/giu, description: 'Italian street name', countries: ['IT', 'SM', 'CH'] },
+  { kind: 'address', pattern: /\b(?:ulica|ul\.)\s[^,;\d\n]{1,40}/giu, description: 'Slavic street name (ulica)', countries: ['PL', 'HR', 'SI'] },
+  { kind: 'address', pattern: /\butca\b/giu, description: 'Hungarian street name', countries: ['HU'] },
+  { kind: 'address', pattern: /\p{L}+(?:gatan|gata)\b/giu, description: 'Scandinavian street name (gata)', countries: ['SE', 'NO'] },
+  { kind: 'address', pattern: /\p{L}+(?:vej|gade)\b/giu, description: 'Danish street name', countries: ['DK'] },
+  { kind: 'address', pattern: /\p{L}+katu\b/giu, description: 'Finnish street name', countries: ['FI'] },
+  { kind: 'address', pattern: /\p{L}+(?:straat|gracht)\b/giu, description: 'Dutch street name', countries: ['NL', 'BE'] },
+  { kind: 'address', pattern: /(?:улица|ул\.)\s[^,;\d\n]{1,40}/giu, description: 'Russian/Bulgarian street name', countries: ['RU', 'BG', 'BY', 'KZ'] },
+  { kind: 'address', pattern: /(?:вулиця|вул\.)\s[^,;\d\n]{1,40}/giu, description: 'Ukrainian street name', countries: ['UA'] },
+  { kind: 'address', pattern: /\b(?:jalan|jln\.|jl\.)\s[^,;\d\n]{1,40}/giu, description: 'Malay/Indonesian street name', countries: ['MY', 'ID'] },
+  { kind: 'address', pattern: /\bsoi\s[^,;\d\n]{1,40}/giu, description: 'Thai side-street (soi)', countries: ['TH'] },
+  { kind: 'address', pattern: /(?:đường|phố)\s[^,;\d\n]{1,40}/giu, description: 'Vietnamese street name', countries: ['VN'] },
+  { kind: 'address', pattern: /\p{L}+-d[oō]ri\b|丁目|\bchome\b/giu, description: 'Japanese address', countries: ['JP'] },
+  { kind: 'address', pattern: /[가-힣]+(?:로|길)(?=[\s\d]|$)/gu, description: 'Korean road name', countries: ['KR'] },
+  { kind: 'address', pattern: /\b(?:sokak|sokağı|cadde|caddesi|mahallesi)(?!\p{L})/giu, description: 'Turkish street name', countries: ['TR'] }
+];
+
+// ============ COUNTRY DATA ============
+
+let callingCodeIndex: Map<string, string[]> | null = null;
+let tldIndex: Map<string, string[]> | null = null;
+
+const countryFeatures = () => countryCoder.borders.features.filter(f =>
+  f.properties.iso1A2 && (f.properties.level === 'country' || f.properties.level === 'territory')
+);
+
+// Calling code (digits only) -> countries. A country also lists its territories'
+// codes (GB has +1 264 for Anguilla); those are left to the territory.
+const getCallingCodeIndex = (): Map<string, string[]> => {
+  if (!callingCodeIndex) {
+    const features = countryFeatures();
+    const index = new Map<string, string[]>();
+    for (const feature of features) {
+      const { iso1A2, callingCodes = [] } = feature.properties;
+      for (const raw of callingCodes) {
+        const code = raw.replace(/\s/g, '');
+        const ownedByTerritory = code !== callingCodes[0]?.replace(/\s/g, '') && features.some(other =>
+          other.properties.country === iso1A2 &&
+          (other.properties.callingCodes || []).some(c => c.replace(/\s/g, '') === code)
+        );
+        if (ownedByTerritory) continue;
+        index.set(code, [...(index.get(code) || []), iso1A2!]);
+      }
+    }
+    callingCodeIndex = index;
+  }
+  return callingCodeIndex;
+};
+
+const getTldIndex = (): Map<string, string[]> => {
+  if (!tldIndex) {
+    const index = new Map<string, string[]>();
+    for (const feature of countryFeatures()) {
+      const tld = feature.properties.ccTLD?.replace(/^\./, '');
+      if (tld) index.set(tld, [...(index.get(tld) || []), feature.properties.iso1A2!]);
+    }
+    tldIndex = index;
+  }
+  return tldIndex;
+};
+
+const countryName = (code: string): string =>
+  countryCoder.feature(code)?.properties.nameEn || code;
+
+// ============ EXTRACTION ============
+
+const matchInternationalPhones = (text: string): TextPatternMatch[] => {
+  const index = getCallingCodeIndex();
+  const matches: TextPatternMatch[] = [];
+
+  for (const found of text.matchAll(/(?:\+|\b00)\s?\d[\d\s().-]{6,18}\d/g)) {
+    const digits = found[0].replace(/^00/, '').replace(/\D/g, '');
+    // Longest known prefix wins (+1 264 Anguilla before +1 NANP)
+    for (let length = Math.min(7, digits.length - 6); length >= 1; length--) {
+      const countries = index.get(digits.substring(0, length));
+      if (countries) {
+        matches.push({
+          kind: 'phone',
+          match: found[0].trim(),
+          description: `+${digits.substring(0, length)} calling code`,
+          countries
+        });
+        break;
+      }
+    }
+  }
+  return matches;
+};
+
+const matchDomains = (text: string): TextPatternMatch[] => {
+  const index = getTldIndex();
+  const matches: TextPatternMatch[] = [];
+
+  for (const found of text.matchAll(/\b(?:[a-z0-9-]+\.)+([a-z]{2})\b(?!\.)/gi)) {
+    const tld = found[1].toLowerCase();
+    const countries = index.get(tld);
+    if (!countries || VANITY_TLDS.has(tld)) continue;
+    matches.push({ kind: 'domain', match: found[0], description: `.${tld} domain`, countries });
+  }
+  return matches;
+};
+
+/**
+ * Find phone numbers, postcodes, domains, currencies and address words in
+ * transcribed text, and rank the countries they point to. A country's
+ * confidence combines its matches: each match gives 1/(number of countries it
+ * fits) and independent matches add up like probabilities.
+ */
+export function extractTextPatterns(texts: string[]): TextPatternResult {
+  const matches: TextPatternMatch[] = [];
+  const seen = new Set<string>();
+
+  for (const text of texts) {
+    const found = [
+      ...matchInternationalPhones(text),
+      ...matchDomains(text),
+      ...RULES.flatMap(rule => [...text.matchAll(rule.pattern)]
+        .filter(m => !rule.validate || rule.validate(m[0]))
+        .map(m => ({
+          kind: rule.kind,
+          match: m[0].trim(),
+          description: rule.description,
+          countries: rule.countries,
+          weak: rule.weak
+        })))
+    ];
+    for (const match of found) {
+      const key = `${match.kind}:${match.description}:${match.match.toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      matches.push(match);
+    }
+  }
+
+  const byCountry = new Map<string, { miss: number; matches: string[] }>();
+  for (const match of matches) {
+    for (const code of match.countries) {
+      const entry = byCountry.get(code) || { miss: 1, matches: [] };
+      entry.miss *= 1 - 1 / match.countries.length;
+      entry.matches.push(match.match);
+      byCountry.set(code, entry);
+    }
+  }
+
+  const countries = [...byCountry.entries()]
+    .map(([code, entry]) => ({
+      countryCode: code,
+      countryName: countryName(code),
+      confidence: Math.round((1 - entry.miss) * MAX_CONFIDENCE),
+      matches: entry.matches
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return { matches, countries };
+}
@@ -0,0 +1,341 @@
+/**
+ * Provider Usage Meter
+ * Records every provider call an analysis makes (model calls, Cloud Vision,
+ * SerpAPI) with tokens, latency, retry attempt and an estimated USD cost, and
+ * stores them per analysis so admins can compare what an analysis costs us
+ * with the credits it was charged.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { query, execute } from '../db/connection.js';
+import { AnalysisMode } from './geminiService.js';
+import type { ModelProvider, ModelRequest } from './modelProvider.js';
+
+export type UsageStatus = 'completed' | 'failed' | 'cached' | 'cancelled';
+export type UsageKind = 'analysis' | 'refinement';
+
+export interface UsageCall {
+  service: string;  // "gemini", "fake", "cloud_vision", "serp_api"
+  operation: string;  // pipeline phase, e.g. "clue_expert:text", "web_detection"
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  attempt: number;  // 0 for the first try, >0 for retries of the same logical call
+  success: boolean;
+  error: string | null;
+  costUsd: number;
+}
+
+export interface UsageMeter {
+  calls: UsageCall[];
+  record(call: UsageCall): void;
+  track<T>(service: string, operation: string, fn: () => Promise<T>, attempt?: number): Promise<T>;
+}
+
+export interface UsageReportRow {
+  key: string;  // user id, day (YYYY-MM-DD), kind or service
+  label: string;
+  analyses: number;
+  calls: number;
+  retries: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  avgLatencyMs: number;
+  costUsd: number;
+  creditsCharged: number | null;  // null for services (credits are per analysis)
+}
+
+export interface UsageReport {
+  days: number;
+  totals: UsageReportRow;
+  byUser: UsageReportRow[];
+  byDay: UsageReportRow[];
+  byKind: UsageReportRow[];  // analyses vs. refinements
+  byService: UsageReportRow[];
+}
+
+// ============ PRICING ============
+
+// Estimated list prices in USD; unknown models fall back to the default
+const MODEL_PRICES_PER_MILLION: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'fake-gemini': { input: 0, output: 0 }  // fixture provider
+};
+const DEFAULT_MODEL_PRICE = MODEL_PRICES_PER_MILLION['gemini-2.5-flash'];
+const GROUNDED_REQUEST_USD = 0.035;  // Google Search grounding, per grounded prompt
+const SERVICE_CALL_USD: Record<string, number> = {
+  cloud_vision: 0.0035,  // web detection, per image
+  serp_api: 0.015  // Google Lens search, per search
+};
+
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Estimated USD cost of one model call
+ */
+export function estimateModelCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  grounded: boolean
+): number {
+  const price = Object.entries(MODEL_PRICES_PER_MILLION)
+    .filter(([name]) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b[0].length - a[0].length)[0]?.[1] || DEFAULT_MODEL_PRICE;
+  const tokenCost = (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  return tokenCost + (grounded && price.input > 0 ? GROUNDED_REQUEST_USD : 0);
+}
+
+// ============ METERING ============
+
+/**
+ * Create a meter for one analysis run
+ */
+export function createUsageMeter(): UsageMeter {
+  const calls: UsageCall[] = [];
+
+  return {
+    calls,
+    record(call) {
+      calls.push(call);
+    },
+    // Time a non-model provider call and record it (failures too - they are billed)
+    async track(service, operation, fn, attempt = 0) {
+      const started = Date.now();
+      try {
+        const value = await fn();
+        calls.push({
+          service, operation, model: null, inputTokens: 0, outputTokens: 0,
+          latencyMs: Date.now() - started, attempt, success: true, error: null,
+          costUsd: SERVICE_CALL_USD[service] || 0
+        });
+        return value;
+      } catch (err: any) {
+        calls.push({
+          service, operation, model: null, inputTokens: 0, outputTokens: 0,
+          latencyMs: Date.now() - started, attempt, success: false,
+          error: String(err?.message || err).slice(0, MAX_ERROR_LENGTH),
+          costUsd: SERVICE_CALL_USD[service] || 0
+        });
+        throw err;
+      }
+    }
+  };
+}
+
+/**
+ * Wrap a model provider so every generate() call is recorded on the meter
+ */
+export function meterModelProvider(provider: ModelProvider, meter: UsageMeter): ModelProvider {
+  return {
+    name: provider.name,
+    async generate(request: ModelRequest) {
+      const started = Date.now();
+      const grounded = (request.tools || []).includes('googleSearch');
+      try {
+        const response = await provider.generate(request);
+        const inputTokens = response.usage?.inputTokens || 0;
+        const outputTokens = response.usage?.outputTokens || 0;
+        meter.record({
+          service: provider.name,
+          operation: request.phase,
+          model: response.model,
+          inputTokens,
+          outputTokens,
+          latencyMs: Date.now() - started,
+          attempt: request.attempt || 0,
+          success: true,
+          error: null,
+          costUsd: estimateModelCost(response.model, inputTokens, outputTokens, grounded)
+        });
+        return response;
+      } catch (err: any) {
+        meter.record({
+          service: provider.name,
+          operation: request.phase,
+          model: request.model || null,
+          inputTokens: 0,
+          outputTokens: 0,
+          latencyMs: Date.now() - started,
+          attempt: request.attempt || 0,
+          success: false,
+          error: String(err?.message || err).slice(0, MAX_ERROR_LENGTH),
+          costUsd: 0
+        });
+        throw err;
+      }
+    }
+  };
+}
+
+// ============ STORAGE ============
+
+/**
+ * Store the meter's calls as one analysis_usage row plus one row per call.
+ * Returns the usage id.
+ */
+export async function saveAnalysisUsage(
+  meter: UsageMeter,
+  analysis: {
+    userId: string;
+    jobId?: string;
+    mode: AnalysisMode;
+    kind?: UsageKind;  // defaults to "analysis"
+    status: UsageStatus;
+    creditsCharged: number;
+  }
+): Promise<string> {
+  const id = uuidv4();
+  const calls = meter.calls;
+  const sum = (pick: (c: UsageCall) => number) => calls.reduce((total, c) => total + pick(c), 0);
+
+  await execute(
+    `INSERT INTO analysis_usage
+      (id, user_id, job_id, mode, kind, status, credits_charged, call_count, retry_count, input_tokens, output_tokens, latency_ms, cost_usd)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      analysis.userId,
+      analysis.jobId || null,
+      analysis.mode,
+      analysis.kind || 'analysis',
+      analysis.status,
+      analysis.creditsCharged,
+      calls.length,
+      calls.filter(c => c.attempt > 0).length,
+      sum(c => c.inputTokens),
+      sum(c => c.outputTokens),
+      sum(c => c.latencyMs),
+      sum(c => c.costUsd)
+    ]
+  );
+
+  if (calls.length === 0) return id;
+
+  await execute(
+    `INSERT INTO analysis_usage_calls
+      (usage_id, service, operation, model, input_tokens, output_tokens, latency_ms, attempt, success, error_message, cost_usd)
+     VALUES ${calls.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}`,
+    calls.flatMap(c => [
+      id, c.service, c.operation, c.model, c.inputTokens, c.outputTokens,
+      c.latencyMs, c.attempt, c.success, c.error, c.costUsd
+    ])
+  );
+  return id;
+}
+
+/**
+ * Mark a job's stored analysis usage as failed and uncharged, for jobs whose
+ * credits were refunded after the pipeline had already recorded them
+ */
+export async function markJobUsageRefunded(jobId: string): Promise<void> {
+  await execute(
+    `UPDATE analysis_usage SET status = 'failed', credits_charged = 0
+     WHERE job_id = ? AND kind = 'analysis'`,
+    [jobId]
+  );
+}
+
+// ============ REPORTING ============
+
+const USAGE_KIND_LABELS: Record<UsageKind, string> = {
+  analysis: 'Analyses',
+  refinement: 'Refinements'
+};
+
+const toRow = (row: any, label: string, withCredits: boolean): UsageReportRow => ({
+  key: String(row.report_key ?? ''),
+  label,
+  analyses: Number(row.analyses) || 0,
+  calls: Number(row.calls) || 0,
+  retries: Number(row.retries) || 0,
+  failures: Number(row.failures) || 0,
+  inputTokens: Number(row.input_tokens) || 0,
+  outputTokens: Number(row.output_tokens) || 0,
+  avgLatencyMs: Math.round(Number(row.avg_latency_ms) || 0),
+  costUsd: Math.round((Number(row.cost_usd) || 0) * 10000) / 10000,
+  creditsCharged: withCredits ? Number(row.credits_charged) || 0 : null
+});
+
+/**
+ * Usage over the last `days` days, aggregated by user, day and service
+ */
+export async function getUsageReport(days: number): Promise<UsageReport> {
+  const since = 'u.created_at >= DATE_SUB(NOW(), INTERVAL ? DAY)';
+
+  // Per-analysis aggregates (analyses, credits, and the call totals stored on each row)
+  const analysisColumns = `
+    COUNT(*) AS analyses,
+    SUM(u.call_count) AS calls,
+    SUM(u.retry_count) AS retries,
+    SUM(u.status = 'failed') AS failures,
+    SUM(u.input_tokens) AS input_tokens,
+    SUM(u.output_tokens) AS output_tokens,
+    SUM(u.latency_ms) / NULLIF(SUM(u.call_count), 0) AS avg_latency_ms,
+    SUM(u.cost_usd) AS cost_usd,
+    SUM(u.credits_charged) AS credits_charged`;
+
+  const [totals] = await query<any[]>(
+    `SELECT 'all' AS report_key, ${analysisColumns} FROM analysis_usage u WHERE ${since}`,
+    [days]
+  );
+
+  const byUser = await query<any[]>(
+    `SELECT u.user_id AS report_key, MAX(usr.username) AS username, ${analysisColumns}
+     FROM analysis_usage u LEFT JOIN users usr ON usr.id = u.user_id
+     WHERE ${since}
+     GROUP BY u.user_id
+     ORDER BY cost_usd DESC`,
+    [days]
+  );
+
+  const byDay = await query<any[]>(
+    `SELECT DATE_FORMAT(u.created_at, '%Y-%m-%d') AS report_key, ${analysisColumns}
+     FROM analysis_usage u
+     WHERE ${since}
+     GROUP BY report_key
+     ORDER BY report_key DESC`,
+    [days]
+  );
+
+  const byKind = await query<any[]>(
+    `SELECT u.kind AS report_key, ${analysisColumns}
+     FROM analysis_usage u
+     WHERE ${since}
+     GROUP BY u.kind
+     ORDER BY report_key ASC`,
+    [days]
+  );
+
+  // Per-service aggregates come from the individual calls
+  const byService = await query<any[]>(
+    `SELECT c.service AS report_key,
+       COUNT(DISTINCT c.usage_id) AS analyses,
+       COUNT(*) AS calls,
+       SUM(c.attempt > 0) AS retries,
+       SUM(NOT c.success) AS failures,
+       SUM(c.input_tokens) AS input_tokens,
+       SUM(c.output_tokens) AS output_tokens,
+       AVG(c.latency_ms) AS avg_latency_ms,
+       SUM(c.cost_usd) AS cost_usd
+     FROM analysis_usage_calls c JOIN analysis_usage u ON u.id = c.usage_id
+     WHERE ${since}
+     GROUP BY c.service
+     ORDER BY cost_usd DESC`,
+    [days]
+  );
+
+  return {
+    days,
+    totals: toRow(totals || {}, 'All analyses', true),
+    byUser: byUser.map(row => toRow(row, row.username || row.report_key, true)),
+    byDay: byDay.map(row => toRow(row, row.report_key, true)),
+    byKind: byKind.map(row => toRow(row, USAGE_KIND_LABELS[row.report_key as UsageKind] || row.report_key, true)),
+    byService: byService.map(row => toRow(row, row.report_key, false))
+  };
+}
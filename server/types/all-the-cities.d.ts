@@ -0,0 +1,18 @@
+declare module 'all-the-cities' {
+  export interface City {
+    cityId: number;
+    name: string;
+    altName: string;
+    country: string;  // ISO 3166-1 alpha-2
+    featureCode: string;
+    adminCode: string;  // GeoNames admin1 code
+    population: number;
+    loc: {
+      type: 'Point';
+      coordinates: [number, number];  // [lng, lat]
+    };
+  }
+
+  const cities: City[];
+  export default cities;
+}
@@ -1,4 +1,22 @@
-import { User, SearchHistory, SystemSettings, GeoAnalysisResult, LocationHints } from '../types';
+import {
+  User,
+  SearchHistory,
+  SystemSettings,
+  GeoAnalysisResult,
+  LocationHints,
+  AnalysisProgressEvent,
+  AnalysisJob,
+  AnalysisJobSummary,
+  AnalysisJobResult,
+  AnalysisMode,
+  PromptSummary,
+  PromptVersion,
+  UsageReport,
+  AccuracyReport,
+  RefinementThread,
+  GroundTruth,
+  GroundTruthSource,
+} from '../types';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -11,38 +29,95 @@ const removeToken = () => localStorage.removeItem('geodetective_token');
 let cachedUser: User | null = null;
 
 // HTTP helpers
-async function request<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
+const buildHeaders = (extra?: HeadersInit): HeadersInit => {
   const token = getToken();
 
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
-    ...(options.headers || {}),
+    ...(extra || {}),
   };
 
   if (token) {
     (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
   }
 
+  return headers;
+};
+
+const toApiError = (data: any, status: number): Error => {
+  const error = new Error(data?.error?.message || 'Request failed');
+  (error as any).code = data?.error?.code;
+  (error as any).status = status;
+  return error;
+};
+
+async function request<T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> {
   const response = await fetch(`${API_URL}${endpoint}`, {
     ...options,
-    headers,
+    headers: buildHeaders(options.headers),
   });
 
   const data = await response.json();
 
   if (!response.ok) {
-    const error = new Error(data.error?.message || 'Request failed');
-    (error as any).code = data.error?.code;
-    (error as any).status = response.status;
-    throw error;
+    throw toApiError(data, response.status);
   }
 
   return data;
 }
 
+// Server-Sent Events over fetch (EventSource cannot send POST bodies or auth headers).
+// Every event except "result" and "error" is passed to onEvent; resolves with the "result" payload.
+async function streamRequest<T>(
+  endpoint: string,
+  options: RequestInit,
+  onEvent: (event: string, data: any) => void
+): Promise<T> {
+  const response = await fetch(`${API_URL}${endpoint}`, {
+    ...options,
+    headers: buildHeaders({ ...(options.headers || {}), Accept: 'text/event-stream' }),
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw toApiError(data, response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of chunk.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+      }
+      if (dataLines.length === 0) continue;  // heartbeat comment
+
+      const data = JSON.parse(dataLines.join('\n'));
+      if (event === 'result') return data;
+      if (event === 'error') throw toApiError(data, 500);
+      onEvent(event, data);
+    }
+  }
+
+  throw new Error('Connection closed before the analysis finished');
+}
+
 // API Service - same interface as dbService
 export const apiService = {
   // --- Auth ---
@@ -128,20 +203,86 @@ export const apiService = {
     return data.settings;
   },
 
+  // --- Prompt Registry (admin) ---
+  getPrompts: async (): Promise<PromptSummary[]> => {
+    const data = await request<{ success: boolean; prompts: PromptSummary[] }>('/prompts');
+    return data.prompts;
+  },
+
+  getPromptVersions: async (key: string): Promise<PromptVersion[]> => {
+    const data = await request<{ success: boolean; versions: PromptVersion[] }>(
+      `/prompts/${encodeURIComponent(key)}/versions`
+    );
+    return data.versions;
+  },
+
+  createPromptVersion: async (
+    key: string,
+    content: string,
+    note: string,
+    activate: boolean
+  ): Promise<PromptVersion> => {
+    const data = await request<{ success: boolean; version: PromptVersion }>(
+      `/prompts/${encodeURIComponent(key)}/versions`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ content, note, activate }),
+      }
+    );
+    return data.version;
+  },
+
+  activatePromptVersion: async (key: string, versionId: string): Promise<PromptVersion> => {
+    const data = await request<{ success: boolean; version: PromptVersion }>(
+      `/prompts/${encodeURIComponent(key)}/versions/${versionId}/activate`,
+      { method: 'POST' }
+    );
+    return data.version;
+  },
+
+  rollbackPrompt: async (key: string): Promise<PromptVersion> => {
+    const data = await request<{ success: boolean; version: PromptVersion }>(
+      `/prompts/${encodeURIComponent(key)}/rollback`,
+      { method: 'POST' }
+    );
+    return data.version;
+  },
+
+  // --- Usage Report (admin) ---
+  getUsageReport: async (days: number): Promise<UsageReport> => {
+    const data = await request<{ success: boolean; report: UsageReport }>(`/usage/report?days=${days}`);
+    return data.report;
+  },
+
+  // --- Accuracy Report (admin) ---
+  getAccuracyReport: async (days: number): Promise<AccuracyReport> => {
+    const data = await request<{ success: boolean; report: AccuracyReport }>(`/accuracy/report?days=${days}`);
+    return data.report;
+  },
+
   // --- Analysis ---
+  // Pass onProgress to stream live phase events while the analysis runs
   analyzeImages: async (
     images: { base64: string; mimeType: string }[],
-    hints?: LocationHints
+    hints?: LocationHints,
+    onProgress?: (event: AnalysisProgressEvent) => void
   ): Promise<{ result: GeoAnalysisResult; creditsRemaining: number; cost: number }> => {
-    const data = await request<{
+    type AnalyzeResponse = {
       success: boolean;
       result: GeoAnalysisResult;
       creditsRemaining: number;
       cost: number;
-    }>('/analyze', {
+    };
+    const options: RequestInit = {
       method: 'POST',
       body: JSON.stringify({ images, hints }),
-    });
+    };
+
+    const data = onProgress
+      ? await streamRequest<AnalyzeResponse>('/analyze', options, (event, payload) => {
+          if (event === 'progress') onProgress(payload);
+        })
+      : await request<AnalyzeResponse>('/analyze', options);
 
     // Update cached user credits
     if (cachedUser) {
@@ -151,17 +292,94 @@ export const apiService = {
     return data;
   },
 
-  refineAnalysis: async (
+  // Queue an analysis as a background job; the server saves it to history when done
+  submitAnalysisJob: async (
     images: { base64: string; mimeType: string }[],
-    previousResult: GeoAnalysisResult,
-    userFeedback: string,
+    hints?: LocationHints,
+    mode: AnalysisMode = 'single',
+    forceRefresh = false
+  ): Promise<AnalysisJobSummary> => {
+    const data = await request<{ success: boolean; job: AnalysisJobSummary }>('/analyze/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ images, hints, mode, forceRefresh }),
+    });
+    return data.job;
+  },
+
+  getAnalysisJob: async (jobId: string): Promise<AnalysisJob> => {
+    const data = await request<{ success: boolean; job: AnalysisJob }>(`/analyze/jobs/${jobId}`);
+    return data.job;
+  },
+
+  listAnalysisJobs: async (): Promise<AnalysisJobSummary[]> => {
+    const data = await request<{ success: boolean; jobs: AnalysisJobSummary[] }>('/analyze/jobs');
+    return data.jobs;
+  },
+
+  // Resolves once the job has stopped, with its final state
+  cancelAnalysisJob: async (jobId: string): Promise<AnalysisJobSummary> => {
+    const data = await request<{ success: boolean; job: AnalysisJobSummary }>(`/analyze/jobs/${jobId}/cancel`, {
+      method: 'POST',
+    });
+    return data.job;
+  },
+
+  getAnalysisJobImages: async (jobId: string): Promise<{ base64: string; mimeType: string }[]> => {
+    const data = await request<{ success: boolean; images: { base64: string; mimeType: string }[] }>(
+      `/analyze/jobs/${jobId}/images`
+    );
+    return data.images;
+  },
+
+  // Stream a job's progress (replayed from the start) until it completes or fails
+  watchAnalysisJob: async (
+    jobId: string,
+    onProgress: (event: AnalysisProgressEvent) => void
+  ): Promise<AnalysisJobResult> => {
+    const data = await streamRequest<AnalysisJobResult>(`/analyze/jobs/${jobId}/events`, { method: 'GET' }, (event, payload) => {
+      if (event === 'progress') onProgress(payload);
+    });
+
+    if (cachedUser) {
+      cachedUser = { ...cachedUser, credits: data.creditsRemaining };
+    }
+
+    return data;
+  },
+
+  // --- Refinement ---
+  getRefinementThread: async (jobId: string): Promise<RefinementThread> => {
+    const data = await request<{ success: boolean; thread: RefinementThread }>(`/analyze/jobs/${jobId}/refinements`);
+    return data.thread;
+  },
+
+  // Refines the active version; the new version becomes active
+  refineAnalysis: async (
+    jobId: string,
+    feedback: string,
     hints?: LocationHints
-  ): Promise<GeoAnalysisResult> => {
-    const data = await request<{ success: boolean; result: GeoAnalysisResult }>('/analyze/refine', {
+  ): Promise<{ thread: RefinementThread; creditsRemaining: number }> => {
+    const data = await request<{ success: boolean; thread: RefinementThread; creditsRemaining: number }>(
+      `/analyze/jobs/${jobId}/refinements`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ feedback, hints }),
+      }
+    );
+
+    if (cachedUser) {
+      cachedUser = { ...cachedUser, credits: data.creditsRemaining };
+    }
+
+    return { thread: data.thread, creditsRemaining: data.creditsRemaining };
+  },
+
+  revertRefinement: async (jobId: string, version: number): Promise<RefinementThread> => {
+    const data = await request<{ success: boolean; thread: RefinementThread }>(`/analyze/jobs/${jobId}/refinements/revert`, {
       method: 'POST',
-      body: JSON.stringify({ images, previousResult, userFeedback, hints }),
+      body: JSON.stringify({ version }),
     });
-    return data.result;
+    return data.thread;
   },
 
   // --- History ---
@@ -175,6 +393,7 @@ export const apiService = {
         reasoning: result.reasoning,
         visualCues: result.visualCues,
         sources: result.sources,
+        promptVersions: result.promptVersions,
         cost,
       }),
     });
@@ -190,6 +409,21 @@ export const apiService = {
     await request(`/history/${id}`, { method: 'DELETE' });
   },
 
+  setGroundTruth: async (
+    historyId: string,
+    groundTruth: { coordinates: { lat: number; lng: number }; source: GroundTruthSource; note?: string }
+  ): Promise<GroundTruth> => {
+    const data = await request<{ success: boolean; groundTruth: GroundTruth }>(`/history/${historyId}/ground-truth`, {
+      method: 'PUT',
+      body: JSON.stringify(groundTruth),
+    });
+    return data.groundTruth;
+  },
+
+  clearGroundTruth: async (historyId: string): Promise<void> => {
+    await request(`/history/${historyId}/ground-truth`, { method: 'DELETE' });
+  },
+
   // --- User Settings ---
   getUserSettings: async (): Promise<{
     premiumServices: Array<{
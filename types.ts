@@ -13,6 +13,133 @@ export interface LocationCandidate {
   keyEvidence: string[];  // Main evidence supporting this candidate
 }
 
+export interface MetaClueRanking {
+  observations: Array<{ category: string; value: string; label: string; expertSource?: string }>;
+  ignored: Array<{ category: string; value: string }>;  // not in any rule table
+  countries: Array<{
+    countryCode: string;
+    countryName: string;
+    probability: number;  // 0-100
+    supportingClues: string[];
+  }>;
+}
+
+export interface LanguageIdentification {
+  strings: Array<{
+    text: string;
+    script: string | null;
+    language: string | null;  // ISO 639-3
+    languageName: string | null;
+    confidence: number;  // 0-100
+    method: 'script' | 'letters' | 'trigrams' | null;
+    combined?: boolean;  // several strings identified together
+  }>;
+  languages: Array<{ language: string; languageName: string; share: number; confidence: number }>;
+  countries: Array<{ countryCode: string; countryName: string; probability: number; confidence: number; languages: string[] }>;
+}
+
+// Thorough mode: how the repeated final searches agreed
+export interface EnsembleSummary {
+  runs: number;
+  succeeded: number;
+  withCoordinates: number;
+  agreement: number;  // 0-100, share of located runs in the dominant cluster
+  uncertaintyRadiusKm: number | null;
+  clusters: Array<{
+    centroid: { lat: number; lng: number };
+    spreadKm: number;
+    runs: number;
+    locationNames: string[];
+  }>;
+}
+
+export interface ReverseGeocode {
+  countryCode: string | null;  // null when the coordinates are outside every country
+  countryName: string | null;
+  territory: string | null;
+  admin1Code: string | null;
+  city: string | null;  // nearest city
+  cityDistanceKm: number | null;
+}
+
+export interface SolarCheck {
+  status: 'pass' | 'fail';
+  captureTime: string;  // ISO instant
+  timeSource: 'gps' | 'offset' | 'local';  // 'local' = time zone assumed from longitude
+  sun: { azimuth: number; elevation: number };
+  observedElevation: number | null;  // implied by shadow length
+  observedShadowAzimuth: number | null;
+  latitudeBand: { south: number; north: number } | null;  // latitudes where shadows fit
+  details: string[];
+}
+
+// What each image's EXIF says, and where the images disagree
+export interface CameraView {
+  heading: number | null;  // degrees clockwise from north
+  headingRef: 'true' | 'magnetic' | null;
+  fieldOfView: number | null;  // horizontal, degrees
+  focalLength35mm: number | null;
+}
+
+export interface ImageExifSummary {
+  index: number;
+  gps: { latitude: number; longitude: number; altitude?: number; horizontalAccuracy?: number } | null;
+  captureTime: { localTime: string; utc: string | null; source: 'gps' | 'offset' | 'local' } | null;
+  view: CameraView | null;
+  camera: string | null;
+  software: string | null;
+  warning?: string;
+}
+
+export interface ExifComparison {
+  images: ImageExifSummary[];
+  conflicts: Array<{ type: 'gps_far_apart' | 'time_far_apart' | 'different_cameras'; images: number[]; message: string }>;
+  samePlace: 'yes' | 'no' | 'unknown';
+}
+
+// Per-image metadata forensics (IPTC/XMP location, time zone, edit traces)
+export type ForensicsWarningCode =
+  | 'no_metadata'
+  | 'stripped_metadata'
+  | 'maker_notes_missing'
+  | 'editing_software'
+  | 'edit_history'
+  | 'thumbnail_mismatch'
+  | 'time_zone_mismatch'
+  | 'modified_after_capture';
+
+export interface MetadataForensicsReport {
+  imageIndex: number;
+  segments: string[];  // metadata blocks present: "EXIF", "GPS", "IPTC", "XMP", "Maker notes", "Thumbnail"
+  device: {
+    make: string | null;
+    model: string | null;
+    lensMake: string | null;
+    lensModel: string | null;
+    bodySerial: string | null;
+    lensSerial: string | null;
+    software: string | null;
+  };
+  location: {
+    sublocation: string | null;
+    city: string | null;
+    state: string | null;
+    country: string | null;
+    countryCode: string | null;
+    source: 'iptc' | 'xmp';
+  } | null;
+  time: {
+    taken: string | null;  // camera wall-clock time
+    modified: string | null;
+    recordedOffset: string | null;  // "+09:00"
+    gpsOffset: string | null;  // implied by the camera clock vs GPS time
+    utc: string | null;
+  };
+  editHistory: Array<{ action: string; softwareAgent: string | null; when: string | null; changed: string | null }>;
+  thumbnail: { width: number; height: number; distance: number | null; mismatch: boolean } | null;
+  warnings: Array<{ code: ForensicsWarningCode; severity: 'info' | 'warning'; message: string }>;
+}
+
 export interface GeoAnalysisResult {
   // When confident (80%+), this is the definitive answer
   // When uncertain, this is the top candidate
@@ -46,14 +173,103 @@ export interface GeoAnalysisResult {
     title: string;
     uri: string;
   }>;
+  promptVersions?: Record<string, PromptVersionRef>;  // registry prompt versions that produced this result
+  cachedAt?: number;  // set when the result was reused from a previous analysis of the same images
+  solarCheck?: SolarCheck;  // sun position at the photo's capture time vs. the visible shadows
+  reverseGeocode?: ReverseGeocode;  // where the returned coordinates actually are
+  metaClueRanking?: MetaClueRanking;  // countries ranked by the meta-clue rule tables
+  languageIdentification?: LanguageIdentification;  // language and script of the sign text
+  ensemble?: EnsembleSummary;  // thorough mode only
+  fallback?: boolean;  // the location search failed - only a region guess from the visual clues
+}
+
+// A prompt registry version ("builtin"/0 when the registry was not used)
+export interface PromptVersionRef {
+  id: string;
+  version: number;
+}
+
+// Live progress events streamed by the analysis pipeline
+export type AnalysisPhase =
+  | 'exif'
+  | 'cache'
+  | 'cloud_vision'
+  | 'serp_api'
+  | 'clue_experts'
+  | 'aggregate'
+  | 'final_search';
+
+export interface AnalysisProgressEvent {
+  type: 'phase_started' | 'phase_finished' | 'phase_skipped' | 'phase_failed' | 'expert_result' | 'candidate_result' | 'ensemble_result' | 'retry' | 'fallback';
+  phase: AnalysisPhase;
+  message: string;
+  data?: Record<string, any>;
+  timestamp: number;
+}
+
+// "single" commits to one location; "candidates" verifies competing locations separately;
+// "thorough" repeats the search and keeps the answer most runs agree on
+export type AnalysisMode = 'single' | 'candidates' | 'thorough';
+
+// Background analysis jobs (survive dropped connections and page reloads)
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJobSummary {
+  id: string;
+  status: AnalysisJobStatus;
+  mode: AnalysisMode;
+  imageCount: number;
+  locationName: string | null;
+  error: { message: string; code: string } | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface AnalysisJobResult {
+  result: GeoAnalysisResult;
+  exifComparison?: ExifComparison | null;
+  metadataForensics?: MetadataForensicsReport[] | null;
+  creditsRemaining: number;
+  cost: number;
+}
+
+export interface AnalysisJob extends AnalysisJobSummary {
+  progress: AnalysisProgressEvent[];
+  result: AnalysisJobResult | null;
 }
 
 export interface AnalysisState {
   status: 'idle' | 'ready' | 'uploading' | 'analyzing' | 'complete' | 'error';
   error?: string;
   result?: GeoAnalysisResult;
+  exifComparison?: ExifComparison;
+  metadataForensics?: MetadataForensicsReport[];
   imagePreviews?: string[];
   isRefining?: boolean;
+  progress?: AnalysisProgressEvent[];
+  jobId?: string;  // background job backing the current analysis
+  isCancelling?: boolean;
+  thread?: RefinementThread;  // refinements of the completed analysis
+  notice?: string;  // shown with the image preview, e.g. after a cancelled analysis
+}
+
+// One result in a refinement thread; version 0 is the analysis itself
+export interface RefinementVersion {
+  version: number;
+  basedOnVersion: number | null;
+  feedback: string | null;  // the user message that produced this version
+  result: GeoAnalysisResult;
+  creditsCharged: number;
+  createdAt: number;
+}
+
+export interface RefinementThread {
+  analysisId: string;
+  activeVersion: number;
+  versions: RefinementVersion[];
+  freeRefinesRemaining: number;
+  refineCost: number;  // credits the next refinement costs (0 while free ones remain)
 }
 
 export interface LocationHints {
@@ -92,9 +308,124 @@ export interface SearchHistory {
     demographics?: string;
   } | null;
   sources: Array<{ title: string; uri: string }>;
+  promptVersions?: Record<string, PromptVersionRef> | null;
   cost: number;
+  groundTruth?: GroundTruth | null;
+}
+
+// How the user knows where the photo was really taken
+export type GroundTruthSource = 'own_photo' | 'street_view' | 'photo_metadata' | 'other';
+
+export interface GroundTruth {
+  coordinates: { lat: number; lng: number };
+  source: GroundTruthSource;
+  note: string | null;
+  confirmedBy: { id: string; username: string | null };
+  confirmedAt: number;
+  errorKm: number | null;  // great-circle distance from the predicted coordinates
+  countryCorrect: boolean | null;
+  cityCorrect: boolean | null;
+  trueCountryCode: string | null;
+  trueCity: string | null;
 }
 
 export interface SystemSettings {
-  searchCost: number;
-}
\ No newline at end of file
+  searchCost: number;  // single mode
+  candidatesSearchCost?: number;  // candidates mode (several final searches)
+  thoroughSearchCost?: number;  // thorough mode (several final searches)
+  cacheTtlHours?: number;  // how long results are reused for duplicate images (0 = off)
+  cacheHitCost?: number;  // credits charged when a cached result is reused
+  refineFreePerAnalysis?: number;  // free refinements per analysis
+  refineCost?: number;  // credits per refinement after the free ones
+  timeouts?: AnalysisTimeouts;
+}
+
+// Provider call and whole-analysis deadlines, in seconds
+export interface AnalysisTimeouts {
+  cloudVision: number;
+  serpApi: number;
+  clueExpert: number;
+  finalSearch: number;
+  analysis: number;
+}
+// --- Prompt Registry (admin) ---
+
+export interface PromptSummary {
+  key: string;
+  kind: 'prompt' | 'roster';
+  description: string;
+  activeVersion: PromptVersionRef | null;
+  latestVersion: number;
+  versionCount: number;
+}
+
+export interface PromptVersion {
+  id: string;
+  key: string;
+  version: number;
+  content: string;
+  note: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: number;
+}
+
+// --- Usage Report (admin) ---
+
+export interface UsageReportRow {
+  key: string;  // user id, day (YYYY-MM-DD), kind or service
+  label: string;
+  analyses: number;
+  calls: number;
+  retries: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  avgLatencyMs: number;
+  costUsd: number;  // estimated provider cost
+  creditsCharged: number | null;  // null for services
+}
+
+export interface UsageReport {
+  days: number;
+  totals: UsageReportRow;
+  byUser: UsageReportRow[];
+  byDay: UsageReportRow[];
+  byKind: UsageReportRow[];  // analyses vs. refinements
+  byService: UsageReportRow[];
+}
+
+// --- Accuracy Report (admin) ---
+
+export interface CalibrationBucket {
+  range: string;  // "60-79"
+  count: number;
+  meanConfidence: number;  // 0-100
+  hitRate: number;  // 0-100, share within 25 km
+}
+
+export interface AccuracySummary {
+  count: number;
+  withCoordinates: number;
+  medianErrorKm: number | null;
+  meanErrorKm: number | null;
+  accuracyAtKm: Record<string, number>;  // "1", "25", "200", "750", "2500" -> %
+  countryAccuracy: number | null;
+  calibration: CalibrationBucket[];
+  calibrationError: number | null;  // expected calibration error, percentage points
+}
+
+export interface AccuracyReportGroup {
+  key: string;  // week start (YYYY-MM-DD), analysis mode or premium services
+  label: string;
+  summary: AccuracySummary;
+}
+
+export interface AccuracyReport {
+  days: number;
+  overall: AccuracySummary;
+  errorDistribution: Array<{ range: string; count: number }>;
+  byWeek: AccuracyReportGroup[];
+  byMode: AccuracyReportGroup[];
+  byPremium: AccuracyReportGroup[];
+}